@@ -1,72 +1,490 @@
 import express from "express";
+import { randomUUID } from "crypto";
+import { AnalysisModel, analysisModelFromEnv, createAnalysis } from "../server/analysis.ts";
+import { ARCHIVE_CONTENT_TYPES, ARCHIVE_FORMATS, archiveFilename, isArchiveFormat, listAllMessages, writeArchive } from "../server/archive.ts";
+import { createInbox, DEFAULT_WAIT_SECONDS, MAX_WAIT_SECONDS, parsePattern, waitForMessage } from "../server/automation.ts";
+import { collectMessageIds, isBulkAction, MAX_BULK_IDS, runBulkAction } from "../server/bulk.ts";
+import { createInboxEvents } from "../server/events.ts";
+import { createExpiry } from "../server/expiry.ts";
+import { createRateLimiter, rateLimit } from "../server/rateLimit.ts";
+import { extractFromMessage } from "../server/extract.ts";
+import { logger, redactUrl, withRequestId } from "../server/logger.ts";
+import { createMetrics, Metrics } from "../server/metrics.ts";
+import { parseHeaders } from "../server/mime.ts";
+import { createOutbound, MailTransport, transportFromEnv } from "../server/outbound.ts";
+import { createShares } from "../server/shares.ts";
+import { createWebhooks } from "../server/webhooks.ts";
+import { AttachmentContent, createProviderFromEnv, MailMessage, MailMessageDetail, MailProvider, MessageFilter, ProviderError } from "../server/providers/index.ts";
 
-const app = express();
-app.use(express.json());
+type Handler = (req: express.Request) => Promise<unknown>;
 
-const MAIL_API = "https://api.mail.tm";
+// Error bodies carry the request ID so users can quote it when reporting a problem
+const sendError = (res: express.Response, error: any) => {
+  const { requestId } = res.locals;
+  if (error instanceof ProviderError) {
+    if (error.retryAfter) res.set("Retry-After", String(error.retryAfter));
+    // Counted per route on /metrics as failures of the mail provider
+    if (error.status >= 500 || error.status === 429) res.locals.upstreamError = true;
+    return res.status(error.status).json({ error: error.message, details: error.details, requestId });
+  }
+  res.status(500).json({ error: "Failed to fetch from mail service", details: error.message, requestId });
+};
 
-// Proxy helper
-const proxyRequest = async (req: express.Request, res: express.Response, path: string, method: string = "GET") => {
+// Runs a provider call and writes its normalized result (or error) as JSON
+const handle = (fn: Handler, status: number = 200) => async (req: express.Request, res: express.Response) => {
   try {
-    const headers: Record<string, string> = {
-      "Content-Type": "application/json",
-    };
-    if (req.headers.authorization) {
-      headers["Authorization"] = req.headers.authorization;
+    const data = await fn(req);
+    if (data === undefined) {
+      return res.status(204).send();
+    }
+    res.status(status).json(data);
+  } catch (error: any) {
+    if (!(error instanceof ProviderError)) {
+      logger.error("Route failed", { method: req.method, path: req.path, error });
     }
+    sendError(res, error);
+  }
+};
+
+// List rows only carry subject and intro, which is usually enough to spot an OTP
+const withExtracted = <T extends MailMessage & Partial<Pick<MailMessageDetail, "text" | "html">>>(message: T) => ({
+  ...message,
+  extracted: extractFromMessage({ subject: message.subject, text: message.text ?? message.intro, html: message.html }),
+});
+
+// Streams attachment bytes. Always served as a download under a sandbox CSP so that
+// hostile attachments (e.g. text/html) can never run in our origin.
+const sendAttachment = (res: express.Response, attachment: AttachmentContent) => {
+  res.set({
+    "Content-Type": attachment.contentType,
+    "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`,
+    "Content-Security-Policy": "sandbox",
+    "X-Content-Type-Options": "nosniff",
+    "Cache-Control": "private, no-store",
+  });
+  attachment.stream.on("error", (error) => {
+    logger.error("Attachment stream failed", { error });
+    res.destroy(error);
+  });
+  attachment.stream.pipe(res);
+};
+
+const bearerToken = (req: express.Request) => {
+  const header = req.headers.authorization || "";
+  const token = header.replace(/^Bearer\s+/i, "").trim();
+  if (!token) {
+    throw new ProviderError(401, "Missing bearer token");
+  }
+  return token;
+};
+
+const REQUEST_ID = /^[\w.-]{1,64}$/;
+
+// Tags each API request with an ID (the caller's X-Request-Id if it looks sane) for the
+// response and every log entry written while handling it, then logs and measures it
+const observe = (metrics: Metrics) => (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const incoming = req.get("X-Request-Id");
+  const requestId = incoming && REQUEST_ID.test(incoming) ? incoming : randomUUID();
+  const started = process.hrtime.bigint();
+  res.locals.requestId = requestId;
+  res.set("X-Request-Id", requestId);
+
+  res.on("close", () => {
+    const seconds = Number(process.hrtime.bigint() - started) / 1e9;
+    // Requests turned away before reaching a route (e.g. rate limited) have no pattern
+    const route = req.route ? req.route.path : "unmatched";
+    metrics.observeRequest(req.method, route, res.statusCode, seconds);
+    if (res.locals.upstreamError) metrics.countUpstreamError(route, res.statusCode);
+    (res.statusCode >= 500 ? logger.error : logger.info)("Request handled", {
+      requestId,
+      method: req.method,
+      url: redactUrl(req.originalUrl),
+      route,
+      status: res.statusCode,
+      durationMs: Math.round(seconds * 1000),
+      ip: req.ip,
+      userAgent: req.get("user-agent"),
+      aborted: !res.writableFinished || undefined,
+    });
+  });
+  withRequestId(requestId, next);
+};
+
+// Rate limit key for the inbox a request acts on; /mail/events may carry it as ?token=,
+// and share link viewers, who send no bearer token, are limited per link
+const tokenKey = (req: express.Request) => {
+  const shared = /\/mail\/shared\/([^/?]+)/.exec(req.originalUrl)?.[1];
+  if (shared) return `share:${shared}`;
+  const token = typeof req.query.token === "string" && req.query.token ? req.query.token : (req.headers.authorization || "").replace(/^Bearer\s+/i, "").trim();
+  return token || undefined;
+};
+
+// Requests per minute; unset falls back to the default and 0 turns the limit off
+const limitFromEnv = (value: string | undefined, fallback: number) => {
+  const limit = Number(value);
+  return value && Number.isFinite(limit) ? limit : fallback;
+};
+
+const isTruthy = (value: unknown) => value === "1" || value === "true";
+
+const parseSince = (since: unknown) => {
+  if (typeof since !== "string" || !since) return undefined;
+  const time = Date.parse(since);
+  if (Number.isNaN(time)) {
+    throw new ProviderError(400, "The since query parameter must be an ISO date");
+  }
+  return new Date(time).toISOString();
+};
+
+// ?q=&unread=1&hasAttachments=1&since=<ISO date> on /mail/messages
+const messageFilter = (req: express.Request): MessageFilter => {
+  const { q, unread, hasAttachments, since } = req.query;
+  return {
+    q: typeof q === "string" && q.trim() ? q.trim().slice(0, 200) : undefined,
+    unread: isTruthy(unread),
+    hasAttachments: isTruthy(hasAttachments),
+    since: parseSince(since),
+  };
+};
+
+export interface AppOptions {
+  // Model behind /mail/messages/:id/analysis; null turns the route off
+  analysisModel?: AnalysisModel | null;
+  // SMTP relay for replies, forwards and forwarding rules; null keeps the server receive-only
+  mailTransport?: MailTransport | null;
+}
+
+export const createApp = (
+  provider: MailProvider = createProviderFromEnv(),
+  { analysisModel = analysisModelFromEnv(), mailTransport = transportFromEnv() }: AppOptions = {},
+) => {
+  const app = express();
+  app.use(express.json());
+
+  // Behind a reverse proxy (e.g. Vercel), TRUST_PROXY makes req.ip the client's address
+  const trustProxy = process.env.TRUST_PROXY;
+  if (trustProxy) {
+    app.set("trust proxy", trustProxy === "true" ? true : Number.isInteger(Number(trustProxy)) ? Number(trustProxy) : trustProxy);
+  }
+
+  const events = createInboxEvents(provider, Number(process.env.EVENTS_POLL_INTERVAL_MS) || 5000);
+  const webhooks = createWebhooks(provider, events, {
+    allowPrivate: process.env.WEBHOOK_ALLOW_PRIVATE === "true",
+    retryDelayMs: Number(process.env.WEBHOOK_RETRY_DELAY_MS) || undefined,
+  });
+  const shares = createShares(provider);
+  const outbound = createOutbound(provider, events, {
+    transport: mailTransport,
+    limitPerHour: limitFromEnv(process.env.OUTBOUND_LIMIT_PER_HOUR, 20),
+    ipLimitPerHour: limitFromEnv(process.env.OUTBOUND_IP_LIMIT_PER_HOUR, 50),
+    totalLimitPerHour: limitFromEnv(process.env.OUTBOUND_TOTAL_LIMIT_PER_HOUR, 500),
+    allowedRecipients: (process.env.OUTBOUND_ALLOWED_RECIPIENTS || "").split(","),
+  });
+  const analysis = createAnalysis(provider, analysisModel);
+  // Adds the analysis of messages that were analyzed before; others are analyzed on request
+  const withAnalysis = <T extends { id: string }>(message: T) => ({ ...message, analysis: analysis.cached(message.id) });
+  // Everything the server keeps for an account, once it has been deleted
+  const forgetAccount = (accountId: string) => {
+    webhooks.forgetAccount(accountId);
+    shares.forgetAccount(accountId);
+    outbound.forgetAccount(accountId);
+  };
+  const expiry = createExpiry(provider, {
+    sweepIntervalMs: Number(process.env.EXPIRY_SWEEP_INTERVAL_MS) || undefined,
+    onExpired: forgetAccount,
+  });
+
+  // API Routes
+  // Every /mail/* route answers with the same shape whichever provider is configured
+  const router = express.Router();
 
-    const options: RequestInit = {
-      method,
-      headers,
-    };
+  const metrics = createMetrics();
+  router.use(["/mail", "/health", "/metrics"], observe(metrics));
 
-    if (["POST", "PUT", "PATCH"].includes(method) && req.body) {
-      options.body = JSON.stringify(req.body);
+  // Protects the upstream quota: per client address, and per inbox across addresses
+  const ipLimit = limitFromEnv(process.env.RATE_LIMIT_PER_IP, 300);
+  const tokenLimit = limitFromEnv(process.env.RATE_LIMIT_PER_TOKEN, 120);
+  if (ipLimit > 0) {
+    router.use("/mail", rateLimit(createRateLimiter(ipLimit), (req) => req.ip || "unknown", "Too many requests from your address"));
+  }
+  if (tokenLimit > 0) {
+    router.use("/mail", rateLimit(createRateLimiter(tokenLimit), tokenKey, "Too many requests for this inbox"));
+  }
+
+  router.get("/mail/domains", handle(async () => {
+    const items = await provider.listDomains();
+    return { items, total: items.length };
+  }));
+  router.post("/mail/accounts", handle((req) => provider.createAccount(req.body?.address, req.body?.password), 201));
+  // `available` is null when the provider cannot tell before the account is created
+  router.get("/mail/accounts/availability", handle(async (req) => {
+    const address = String(req.query.address || "");
+    if (!address.includes("@")) {
+      throw new ProviderError(400, "The address query parameter is required");
+    }
+    const available = provider.isAddressAvailable ? await provider.isAddressAvailable(address) : null;
+    return { address, available };
+  }));
+  router.delete("/mail/accounts/:id", handle(async (req) => {
+    await provider.deleteAccount(bearerToken(req), req.params.id);
+    forgetAccount(req.params.id);
+    expiry.forget(req.params.id);
+  }));
+  // Self-destruct timer: { expiresIn: seconds from now | null } → { id, expiresAt }
+  router.get("/mail/accounts/:id/expiry", handle((req) => expiry.get(bearerToken(req), req.params.id)));
+  router.put("/mail/accounts/:id/expiry", handle((req) => expiry.set(bearerToken(req), req.params.id, req.body?.expiresIn)));
+  // One-call inbox for automated tests: { domain?, username?, password? } → credentials and token
+  router.post("/mail/inboxes", handle((req) => createInbox(provider, {
+    domain: typeof req.body?.domain === "string" ? req.body.domain : undefined,
+    username: typeof req.body?.username === "string" ? req.body.username : undefined,
+    password: typeof req.body?.password === "string" ? req.body.password : undefined,
+  }), 201));
+  router.post("/mail/token", handle((req) => provider.getToken(req.body?.address, req.body?.password)));
+  router.get("/mail/messages", handle(async (req) => {
+    const list = await provider.listMessages(bearerToken(req), Number(req.query.page) || 1, messageFilter(req));
+    return { ...list, items: list.items.map((message) => withAnalysis(withExtracted(message))) };
+  }));
+  // The whole inbox as one download: ?format=zip (default) or mbox. Streamed as it is built,
+  // so an upstream failure halfway through can only cut the response short.
+  router.get("/mail/messages/export", async (req, res) => {
+    try {
+      const format = req.query.format || "zip";
+      if (!isArchiveFormat(format)) {
+        throw new ProviderError(400, `The format query parameter must be one of: ${ARCHIVE_FORMATS.join(", ")}`);
+      }
+      const token = bearerToken(req);
+      const account = await provider.getAccount(token);
+      const messages = await listAllMessages(provider, token);
+      res.set({
+        "Content-Type": ARCHIVE_CONTENT_TYPES[format],
+        "Content-Disposition": `attachment; filename="${archiveFilename(account.address, format)}"`,
+        "Cache-Control": "private, no-store",
+      });
+      await writeArchive(provider, token, account, messages, format, res);
+    } catch (error: any) {
+      if (!res.headersSent) return sendError(res, error);
+      logger.error("Export failed", { error });
+      res.destroy(error);
+    }
+  });
+  router.get("/mail/messages/:id", handle(async (req) => withAnalysis(withExtracted(await provider.getMessage(bearerToken(req), req.params.id)))));
+  // AI summary, category and phishing risk; 501 when no model is configured
+  router.get("/mail/messages/:id/analysis", handle((req) => analysis.analyze(bearerToken(req), req.params.id)));
+  router.delete("/mail/messages/:id", handle(async (req) => {
+    await provider.deleteMessage(bearerToken(req), req.params.id);
+  }));
+  router.patch("/mail/messages/:id", handle(async (req) => {
+    const seen = req.body?.seen;
+    if (typeof seen !== "boolean") {
+      throw new ProviderError(400, "The seen field must be a boolean");
+    }
+    await provider.setSeen(bearerToken(req), req.params.id, seen);
+    return { id: req.params.id, seen };
+  }));
+  // { action: "delete" | "seen" | "unseen", ids: string[] } or { action, all: true }
+  router.post("/mail/messages/bulk", handle(async (req) => {
+    const token = bearerToken(req);
+    const { action, ids, all } = req.body || {};
+    if (!isBulkAction(action)) {
+      throw new ProviderError(400, "The action field must be one of delete, seen or unseen");
+    }
+    if (all !== true && (!Array.isArray(ids) || !ids.every((id) => typeof id === "string"))) {
+      throw new ProviderError(400, "Either ids (an array of message ids) or all: true is required");
+    }
+    if (all !== true && ids.length > MAX_BULK_IDS) {
+      throw new ProviderError(400, `At most ${MAX_BULK_IDS} ids can be processed at once`);
     }
+    const targets = all === true ? await collectMessageIds(provider, token, action) : [...new Set<string>(ids)];
+    return runBulkAction(provider, token, action, targets);
+  }));
 
-    const response = await fetch(`${MAIL_API}${path}`, options);
-    
-    // Handle non-JSON responses (like 204 No Content)
-    if (response.status === 204) {
-      return res.status(204).send();
+  // Webhooks POST every new message of the token's inbox to { url }, signed with the
+  // secret that is returned once on creation
+  router.get("/mail/webhooks", handle(async (req) => {
+    const items = await webhooks.list(bearerToken(req));
+    return { items, total: items.length };
+  }));
+  router.post("/mail/webhooks", handle((req) => webhooks.create(bearerToken(req), { url: req.body?.url, secret: req.body?.secret }), 201));
+  router.delete("/mail/webhooks/:id", handle(async (req) => {
+    await webhooks.remove(bearerToken(req), req.params.id);
+  }));
+  router.get("/mail/webhooks/:id/deliveries", handle(async (req) => {
+    const items = await webhooks.deliveries(bearerToken(req), req.params.id);
+    return { items, total: items.length };
+  }));
+  router.post("/mail/webhooks/:id/test", handle((req) => webhooks.test(bearerToken(req), req.params.id)));
+
+  // Outbound mail through the SMTP relay, sent from the token's address; 501 without a relay
+  router.post("/mail/messages/:id/reply", handle((req) => outbound.reply(bearerToken(req), req.params.id, { text: req.body?.text, all: req.body?.all }, req.ip), 201));
+  router.post("/mail/messages/:id/forward", handle((req) => outbound.forward(bearerToken(req), req.params.id, { to: req.body?.to, text: req.body?.text }, req.ip), 201));
+  router.get("/mail/sent", handle(async (req) => {
+    const items = await outbound.sentItems(bearerToken(req));
+    return { items, total: items.length };
+  }));
+  router.get("/mail/forwarding-rules", handle(async (req) => {
+    const items = await outbound.listRules(bearerToken(req));
+    return { items, total: items.length };
+  }));
+  router.post("/mail/forwarding-rules", handle((req) => outbound.createRule(bearerToken(req), {
+    to: req.body?.to,
+    from: req.body?.from,
+    subject: req.body?.subject,
+  }, req.ip), 201));
+  router.delete("/mail/forwarding-rules/:id", handle(async (req) => {
+    await outbound.deleteRule(bearerToken(req), req.params.id);
+  }));
+
+  // Read-only share links. The owner manages them with their bearer token; viewers only
+  // ever hold the link's own token, which can read but never change the inbox.
+  router.get("/mail/shares", handle(async (req) => {
+    const items = await shares.list(bearerToken(req));
+    return { items, total: items.length };
+  }));
+  router.post("/mail/shares", handle((req) => shares.create(bearerToken(req), {
+    scope: req.body?.scope,
+    messageId: req.body?.messageId,
+    expiresIn: req.body?.expiresIn,
+  }), 201));
+  router.delete("/mail/shares/:id", handle(async (req) => {
+    await shares.revoke(bearerToken(req), req.params.id);
+  }));
+  router.get("/mail/shared/:token", handle(async (req) => shares.describe(req.params.token)));
+  router.get("/mail/shared/:token/messages", handle(async (req) => {
+    const list = await shares.listMessages(req.params.token, Number(req.query.page) || 1, messageFilter(req));
+    return { ...list, items: list.items.map(withExtracted) };
+  }));
+  router.get("/mail/shared/:token/messages/:id", handle(async (req) => withExtracted(await shares.getMessage(req.params.token, req.params.id))));
+  router.get("/mail/shared/:token/messages/:id/attachments/:attachmentId", async (req, res) => {
+    try {
+      sendAttachment(res, await shares.getAttachment(req.params.token, req.params.id, req.params.attachmentId));
+    } catch (error: any) {
+      sendError(res, error);
     }
+  });
 
-    const text = await response.text();
-    if (!text) {
-      return res.status(response.status).send();
+  // Raw RFC 822 source with its parsed headers, or the bare .eml file with ?download=1
+  router.get("/mail/messages/:id/source", async (req, res) => {
+    try {
+      const raw = await provider.getSource(bearerToken(req), req.params.id);
+      if (req.query.download) {
+        res.set({
+          "Content-Type": "message/rfc822",
+          "Content-Disposition": `attachment; filename="${encodeURIComponent(req.params.id)}.eml"`,
+        });
+        return res.send(raw);
+      }
+      res.json({ id: req.params.id, headers: parseHeaders(raw), raw });
+    } catch (error: any) {
+      sendError(res, error);
     }
+  });
 
+  router.get("/mail/messages/:id/attachments/:attachmentId", async (req, res) => {
     try {
-      // Try to parse as JSON if possible
-      const data = JSON.parse(text);
-      res.status(response.status).json(data);
-    } catch (e) {
-      // If not JSON, send as plain text
-      res.status(response.status).send(text);
+      sendAttachment(res, await provider.getAttachment(bearerToken(req), req.params.id, req.params.attachmentId));
+    } catch (error: any) {
+      sendError(res, error);
     }
-  } catch (error: any) {
-    console.error(`Proxy error for ${path}:`, error);
-    res.status(500).json({ error: "Failed to fetch from mail service", details: error.message });
-  }
-};
+  });
 
-// API Routes
-// We use a regex to match routes with or without the /api prefix
-const router = express.Router();
+  // Long-polls until a message matching ?from=&subject=&body= (regexes, case-insensitive)
+  // arrives, answering 408 after ?timeout= seconds
+  router.get("/mail/wait", async (req, res) => {
+    const controller = new AbortController();
+    res.on("close", () => controller.abort());
+    try {
+      const token = bearerToken(req);
+      const seconds = Number(req.query.timeout ?? DEFAULT_WAIT_SECONDS);
+      if (!Number.isFinite(seconds) || seconds < 0 || seconds > MAX_WAIT_SECONDS) {
+        throw new ProviderError(400, `The timeout must be between 0 and ${MAX_WAIT_SECONDS} seconds`);
+      }
+      const criteria = {
+        from: typeof req.query.from === "string" && req.query.from ? req.query.from : undefined,
+        subject: parsePattern("subject", req.query.subject),
+        body: parsePattern("body", req.query.body),
+        since: parseSince(req.query.since),
+      };
+      const message = await waitForMessage(provider, events, token, criteria, seconds * 1000, controller.signal);
+      if (controller.signal.aborted) return;
+      if (!message) {
+        throw new ProviderError(408, `No matching message arrived within ${seconds}s`);
+      }
+      res.json(withExtracted(message));
+    } catch (error: any) {
+      sendError(res, error);
+    }
+  });
+
+  // Server-Sent Events stream of inbox changes. EventSource cannot set headers,
+  // so the token may also be passed as ?token=
+  router.get("/mail/events", async (req, res) => {
+    let unsubscribe: () => void;
+    try {
+      const token = typeof req.query.token === "string" && req.query.token ? req.query.token : bearerToken(req);
+      unsubscribe = await events.subscribe(token, (event) => {
+        const payload = event.type === "new-message" ? { ...event, message: withExtracted(event.message) } : event;
+        res.write(`event: ${event.type}\ndata: ${JSON.stringify(payload)}\n\n`);
+      });
+    } catch (error: any) {
+      return sendError(res, error);
+    }
+    if (req.socket.destroyed) {
+      return unsubscribe();
+    }
 
-router.get("/mail/domains", (req, res) => proxyRequest(req, res, "/domains"));
-router.post("/mail/accounts", (req, res) => proxyRequest(req, res, "/accounts", "POST"));
-router.post("/mail/token", (req, res) => proxyRequest(req, res, "/token", "POST"));
-router.get("/mail/messages", (req, res) => proxyRequest(req, res, "/messages"));
-router.get("/mail/messages/:id", (req, res) => proxyRequest(req, res, `/messages/${req.params.id}`));
-router.delete("/mail/messages/:id", (req, res) => proxyRequest(req, res, `/messages/${req.params.id}`, "DELETE"));
+    res.set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+    res.write("retry: 5000\nevent: ready\ndata: {}\n\n");
 
-router.get("/health", (req, res) => {
-  res.json({ status: "ok", service: "KAS Temp Mail Proxy" });
-});
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), 25000);
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
+  // ?deep=1 also checks that the provider answers, with 503 when it doesn't
+  router.get("/health", async (req, res) => {
+    const health = { status: "ok", service: "KAS Temp Mail Proxy", provider: provider.name };
+    if (!isTruthy(req.query.deep)) {
+      return res.json(health);
+    }
+    const started = Date.now();
+    try {
+      await (provider.checkHealth ? provider.checkHealth() : provider.listDomains());
+      res.json({ ...health, upstream: { status: "ok", latencyMs: Date.now() - started } });
+    } catch (error: any) {
+      logger.warn("Deep health check failed", { error: error.message });
+      res.status(503).json({
+        ...health,
+        status: "error",
+        upstream: { status: "error", latencyMs: Date.now() - started, error: error.message },
+      });
+    }
+  });
+
+  // Prometheus scrape target; set METRICS_TOKEN to require it as a bearer token
+  router.get("/metrics", (req, res) => {
+    const expected = process.env.METRICS_TOKEN;
+    if (expected && req.headers.authorization !== `Bearer ${expected}`) {
+      return res.status(401).json({ error: "Invalid metrics token", requestId: res.locals.requestId });
+    }
+    res.type("text/plain; version=0.0.4").send(metrics.render());
+  });
+
+  // Mount the router on both /api and / for maximum compatibility
+  app.use("/api", router);
+  app.use("/", router);
+
+  return app;
+};
 
-// Mount the router on both /api and / for maximum compatibility
-app.use("/api", router);
-app.use("/", router);
+// The provider selected by env config, shared with server.ts (e.g. for the SMTP receiver)
+export const provider = createProviderFromEnv();
 
-export default app;
+export default createApp(provider);
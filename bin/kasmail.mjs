@@ -0,0 +1,6 @@
+#!/usr/bin/env node
+// Runs the TypeScript CLI through tsx, the same way `npm run dev` runs the server
+import { register } from "tsx/esm/api";
+
+register();
+await import("../cli/index.ts");
@@ -0,0 +1,56 @@
+import { AuthExpiredError, createMailClient, UpstreamError } from "../src/lib/mailClient.ts";
+import { InboxEvent } from "../src/types.ts";
+import { InboxStore, StoredInbox } from "./store.ts";
+
+// The typed mail client bound to one server, plus the CLI-only pieces: token renewal
+// against the credential store and reading the /events stream.
+
+export const createApi = (server: string, store: InboxStore) => {
+  const baseUrl = `${server.replace(/\/+$/, "")}/api/mail`;
+  const client = createMailClient({ baseUrl });
+
+  // Runs an authenticated call, renewing the stored token once if it has expired
+  const authed = async <T>(inbox: StoredInbox, run: (token: string) => Promise<T>): Promise<T> => {
+    try {
+      return await run(inbox.token);
+    } catch (error) {
+      if (!(error instanceof AuthExpiredError)) throw error;
+      const { token } = await client.getToken(inbox.address, inbox.password);
+      store.save({ ...inbox, token }, false);
+      return run(token);
+    }
+  };
+
+  return {
+    client,
+    authed,
+
+    // Reads the /events Server-Sent Events stream until `signal` aborts
+    async watch(inbox: StoredInbox, onEvent: (event: InboxEvent) => void, signal: AbortSignal) {
+      const response = await authed(inbox, async (token) => {
+        const res = await fetch(`${baseUrl}/events`, { headers: { Authorization: `Bearer ${token}` }, signal });
+        if (res.status === 401) throw new AuthExpiredError("Invalid token");
+        if (!res.ok || !res.body) throw new UpstreamError(res.status, `Cannot open the event stream (${res.status})`);
+        return res;
+      });
+      const decoder = new TextDecoder();
+      let buffer = "";
+      try {
+        for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+          buffer += decoder.decode(chunk, { stream: true });
+          let end: number;
+          while ((end = buffer.indexOf("\n\n")) !== -1) {
+            const frame = buffer.slice(0, end);
+            buffer = buffer.slice(end + 2);
+            const type = frame.match(/^event: (.*)$/m)?.[1];
+            const data = frame.match(/^data: (.*)$/m)?.[1];
+            // Every frame but the opening "ready" carries an InboxEvent, type included
+            if (type && type !== "ready" && data) onEvent(JSON.parse(data));
+          }
+        }
+      } catch (error: any) {
+        if (!signal.aborted) throw error;
+      }
+    },
+  };
+};
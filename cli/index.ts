@@ -0,0 +1,205 @@
+import { writeFile } from "fs/promises";
+import { parseArgs } from "util";
+import { MailApiError } from "../src/lib/mailClient.ts";
+import { Message, MessageDetail } from "../src/types.ts";
+import { createApi } from "./api.ts";
+import { createStore, StoredInbox } from "./store.ts";
+
+const USAGE = `Usage: kasmail <command> [options]
+
+Commands:
+  new [--domain d] [--username u] [--password p]   Create an inbox and save its credentials
+  login <address> <password>                        Save an existing inbox
+  inboxes                                           List saved inboxes
+  ls [--page n] [--unread] [--search text]          List messages
+  read <id>                                         Show a message
+  rm <id>                                           Delete a message
+  watch                                             Print new messages as they arrive
+  wait [--from s] [--subject re] [--body re] [--timeout s]
+                                                    Block until a matching message arrives
+  export [--format zip|mbox] [--out file]           Save every message to an archive
+
+Options:
+  --inbox <address>   Inbox to use (defaults to the last one created or opened)
+  --server <url>      Server base URL (KASMAIL_SERVER, default http://localhost:3000)
+  --json              Machine-readable output
+  -h, --help          Show this help
+
+Credentials are kept in $KASMAIL_STORE (default ~/.config/kasmail/inboxes.json).`;
+
+const OPTIONS = {
+  inbox: { type: "string" },
+  server: { type: "string" },
+  json: { type: "boolean", default: false },
+  help: { type: "boolean", short: "h", default: false },
+  domain: { type: "string" },
+  username: { type: "string" },
+  password: { type: "string" },
+  page: { type: "string" },
+  unread: { type: "boolean", default: false },
+  search: { type: "string" },
+  from: { type: "string" },
+  subject: { type: "string" },
+  body: { type: "string" },
+  timeout: { type: "string" },
+  format: { type: "string" },
+  out: { type: "string" },
+} as const;
+
+const parse = () => {
+  try {
+    return parseArgs({ allowPositionals: true, options: OPTIONS });
+  } catch (error: any) {
+    console.error(`kasmail: ${error.message}\n\n${USAGE}`);
+    process.exit(1);
+  }
+};
+
+const { values: options, positionals } = parse();
+
+const [command, ...args] = positionals;
+const store = createStore(process.env.KASMAIL_STORE || undefined);
+const defaultServer = options.server || process.env.KASMAIL_SERVER || "http://localhost:3000";
+
+const print = (value: unknown, human: () => string) => {
+  console.log(options.json ? JSON.stringify(value, null, 2) : human());
+};
+
+const sender = (message: Message) => message.from.name ? `${message.from.name} <${message.from.address}>` : message.from.address;
+
+const formatMessage = (message: MessageDetail) => [
+  `From:    ${sender(message)}`,
+  `Subject: ${message.subject || "(No Subject)"}`,
+  `Date:    ${new Date(message.createdAt).toLocaleString()}`,
+  ...(message.extracted?.codes.length ? [`Codes:   ${message.extracted.codes.join(", ")}`] : []),
+  ...(message.extracted?.links.length ? [`Links:   ${message.extracted.links.join("\n         ")}`] : []),
+  ...(message.attachments?.length ? [`Files:   ${message.attachments.map((attachment) => attachment.filename).join(", ")}`] : []),
+  "",
+  message.text || "(No plain-text body)",
+].join("\n");
+
+const formatRow = (message: Message) =>
+  `${message.seen ? " " : "*"} ${message.id}  ${new Date(message.createdAt).toLocaleString()}  ${sender(message)}  ${message.subject || "(No Subject)"}`;
+
+const requireArg = (name: string) => {
+  if (!args[0]) throw new Error(`Missing <${name}>\n\n${USAGE}`);
+  return args[0];
+};
+
+// The inbox a command works on, and an API client for the server it lives on
+const useInbox = () => {
+  const inbox = store.get(options.inbox);
+  return { inbox, api: createApi(options.server || inbox.server, store) };
+};
+
+const commands: Record<string, () => Promise<void>> = {
+  async new() {
+    const api = createApi(defaultServer, store);
+    const created = await api.client.createInbox({ domain: options.domain, username: options.username, password: options.password });
+    const inbox: StoredInbox = { ...created, server: defaultServer };
+    store.save(inbox);
+    print(inbox, () => inbox.address);
+  },
+
+  async login() {
+    const address = requireArg("address").toLowerCase();
+    const password = args[1];
+    if (!password) throw new Error(`Missing <password>\n\n${USAGE}`);
+    const api = createApi(defaultServer, store);
+    const { id, token } = await api.client.getToken(address, password);
+    // mail.tm does not return the creation date with a token
+    const inbox: StoredInbox = { id, address, password, token, createdAt: new Date().toISOString(), server: defaultServer };
+    store.save(inbox);
+    print(inbox, () => `Saved ${address}`);
+  },
+
+  async inboxes() {
+    const inboxes = store.list();
+    print(inboxes.map(({ password, token, ...inbox }) => inbox), () =>
+      inboxes.length === 0 ? "No saved inboxes" : inboxes.map((i) => `${i.address}  ${i.server}  ${new Date(i.createdAt).toLocaleString()}`).join("\n"));
+  },
+
+  async ls() {
+    const { inbox, api } = useInbox();
+    const list = await api.authed(inbox, (token) => api.client.listMessages(token, {
+      page: Number(options.page) || 1,
+      unread: options.unread,
+      q: options.search,
+    }));
+    print(list, () => list.items.length === 0
+      ? `No messages in ${inbox.address}`
+      : [...list.items.map(formatRow), `${list.items.length} of ${list.total} in ${inbox.address}`].join("\n"));
+  },
+
+  async read() {
+    const { inbox, api } = useInbox();
+    const id = requireArg("id");
+    const message = await api.authed(inbox, (token) => api.client.getMessage(token, id));
+    print(message, () => formatMessage(message));
+  },
+
+  async rm() {
+    const { inbox, api } = useInbox();
+    const id = requireArg("id");
+    await api.authed(inbox, (token) => api.client.deleteMessage(token, id));
+    print({ id, deleted: true }, () => `Deleted ${id}`);
+  },
+
+  async watch() {
+    const { inbox, api } = useInbox();
+    const controller = new AbortController();
+    process.once("SIGINT", () => controller.abort());
+    if (!options.json) console.error(`Watching ${inbox.address}, press Ctrl+C to stop`);
+    await api.watch(inbox, (event) => {
+      if (event.type !== "new-message") return;
+      // One JSON object per line, so the stream can be piped into jq
+      console.log(options.json ? JSON.stringify(event.message) : formatRow(event.message));
+    }, controller.signal);
+  },
+
+  async wait() {
+    const { inbox, api } = useInbox();
+    const message = await api.authed(inbox, (token) => api.client.waitForMessage(token, {
+      from: options.from,
+      subject: options.subject,
+      body: options.body,
+      timeout: options.timeout ? Number(options.timeout) : undefined,
+    }));
+    if (!message) {
+      print({ error: "timeout" }, () => "No matching message arrived in time");
+      process.exitCode = 2;
+      return;
+    }
+    print(message, () => formatMessage(message));
+  },
+
+  async export() {
+    const { inbox, api } = useInbox();
+    const format = options.format || "zip";
+    if (format !== "zip" && format !== "mbox") throw new Error(`Unknown format "${format}", use zip or mbox`);
+    const archive = await api.authed(inbox, (token) => api.client.exportInbox(token, format));
+    const file = options.out || `${inbox.address}-${new Date().toISOString().slice(0, 10)}.${format}`;
+    await writeFile(file, Buffer.from(await archive.arrayBuffer()));
+    print({ file, bytes: archive.size }, () => `Saved ${inbox.address} to ${file}`);
+  },
+};
+
+const main = async () => {
+  if (options.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+  const run = commands[command];
+  if (!run) throw new Error(`Unknown command "${command}"\n\n${USAGE}`);
+  await run();
+};
+
+main().catch((error) => {
+  const api = error instanceof MailApiError ? error : undefined;
+  if (options.json) {
+    console.log(JSON.stringify({ error: error.message, status: api?.status, requestId: api?.requestId }));
+  } else {
+    console.error(`kasmail: ${error.message}${api?.requestId ? ` (request ${api.requestId})` : ""}`);
+  }
+  process.exitCode = 1;
+});
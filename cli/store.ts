@@ -0,0 +1,74 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { dirname, join } from "path";
+
+// Local credential store for the inboxes the CLI has created or opened, so later
+// commands can reuse (and renew) their tokens.
+
+export interface StoredInbox {
+  id: string;
+  address: string;
+  password: string;
+  token: string;
+  createdAt: string;
+  // Base URL of the server the inbox was created on
+  server: string;
+}
+
+interface StoreFile {
+  current?: string;
+  inboxes: StoredInbox[];
+}
+
+export const DEFAULT_STORE_PATH = join(homedir(), ".config", "kasmail", "inboxes.json");
+
+export const createStore = (path: string = DEFAULT_STORE_PATH) => {
+  const read = (): StoreFile => {
+    if (!existsSync(path)) return { inboxes: [] };
+    try {
+      const data = JSON.parse(readFileSync(path, "utf8"));
+      return { current: data.current, inboxes: Array.isArray(data.inboxes) ? data.inboxes : [] };
+    } catch (error: any) {
+      throw new Error(`Cannot read the inbox store at ${path}: ${error.message}`);
+    }
+  };
+
+  const write = (data: StoreFile) => {
+    mkdirSync(dirname(path), { recursive: true });
+    // Tokens and passwords live here, so keep the file private to the user
+    writeFileSync(path, `${JSON.stringify(data, null, 2)}\n`, { mode: 0o600 });
+  };
+
+  return {
+    path,
+
+    list: () => read().inboxes,
+
+    // By address, or the most recently used inbox
+    get(address?: string) {
+      const data = read();
+      const wanted = (address || data.current || "").toLowerCase();
+      const inbox = wanted ? data.inboxes.find((i) => i.address === wanted) : data.inboxes[data.inboxes.length - 1];
+      if (!inbox) {
+        throw new Error(address ? `No saved inbox for ${address}` : "No saved inbox yet, run `kasmail new` first");
+      }
+      return inbox;
+    },
+
+    save(inbox: StoredInbox, makeCurrent = true) {
+      const data = read();
+      data.inboxes = [...data.inboxes.filter((i) => i.address !== inbox.address), inbox];
+      if (makeCurrent) data.current = inbox.address;
+      write(data);
+    },
+
+    remove(address: string) {
+      const data = read();
+      data.inboxes = data.inboxes.filter((i) => i.address !== address);
+      if (data.current === address) data.current = data.inboxes[data.inboxes.length - 1]?.address;
+      write(data);
+    },
+  };
+};
+
+export type InboxStore = ReturnType<typeof createStore>;
@@ -0,0 +1,135 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Service worker of the installable app. It keeps the app shell, and the inbox lists and
+// messages last fetched, so a reopened app still shows them offline. It also brings the
+// app back when a new-mail notification is clicked.
+
+const SHELL_CACHE = 'kasmail-shell-v1';
+const MAIL_CACHE = 'kasmail-mail-v1';
+const SHELL = ['/', '/manifest.webmanifest', '/icon.svg'];
+// Cached lists and messages, across all inboxes; the oldest are dropped first
+const MAX_MAIL_ENTRIES = 200;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(SHELL_CACHE).then((cache) => cache.addAll(SHELL)));
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    for (const key of await caches.keys()) {
+      if (key !== SHELL_CACHE && key !== MAIL_CACHE) await caches.delete(key);
+    }
+    await self.clients.claim();
+  })());
+});
+
+// Mail responses depend on the bearer token, so they are cached under a digest of it:
+// inboxes never see each other's mail, and the token itself is not stored
+const inboxDigest = async (authorization) => {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(authorization)));
+  return Array.from(digest.slice(0, 12), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const mailKey = async (request) => {
+  const url = new URL(request.url);
+  url.searchParams.set('sw-inbox', await inboxDigest(request.headers.get('Authorization') || ''));
+  return url.href;
+};
+
+// Drops the cached mail of the given tokens' inboxes, or all of it without tokens
+const purgeMail = async (tokens) => {
+  if (!Array.isArray(tokens)) return caches.delete(MAIL_CACHE);
+  const digests = new Set(await Promise.all(tokens.map((token) => inboxDigest(`Bearer ${token}`))));
+  const cache = await caches.open(MAIL_CACHE);
+  const stale = (await cache.keys()).filter((key) => digests.has(new URL(key.url).searchParams.get('sw-inbox')));
+  await Promise.all(stale.map((key) => cache.delete(key)));
+};
+
+const networkFirstMail = async (request) => {
+  const [cache, key] = await Promise.all([caches.open(MAIL_CACHE), mailKey(request)]);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await cache.delete(key);
+      await cache.put(key, response.clone());
+      const keys = await cache.keys();
+      await Promise.all(keys.slice(0, Math.max(keys.length - MAX_MAIL_ENTRIES, 0)).map((old) => cache.delete(old)));
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(key);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// Pages come from the network, keeping a copy of the shell; any path (e.g. /share/…)
+// falls back to it offline, as the app routes on the client
+const networkFirstPage = async (request) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok && new URL(request.url).pathname === '/') {
+      const cache = await caches.open(SHELL_CACHE);
+      await cache.put('/', response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match('/');
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// Built assets have content hashes in their names, so a cached copy never goes stale
+const cacheFirstAsset = async (request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) await cache.put(request, response.clone());
+  return response;
+};
+
+// The inbox list and single messages; not the live stream, exports or attachments
+const isCachedMail = (pathname) =>
+  pathname === '/api/mail/messages' || /^\/api\/mail\/messages\/(?!export$|bulk$)[^/]+$/.test(pathname);
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstPage(request));
+  } else if (isCachedMail(url.pathname)) {
+    event.respondWith(networkFirstMail(request));
+  } else if (url.pathname.startsWith('/assets/') || SHELL.includes(url.pathname)) {
+    event.respondWith(cacheFirstAsset(request));
+  }
+});
+
+// The app removed inboxes (deleted, expired or signed out of), whose mail must not stay readable offline
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'purge-mail') event.waitUntil(purgeMail(event.data.tokens));
+});
+
+// Opens the message in a window that is already open, or in a new one
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const { inboxId, messageId } = event.notification.data || {};
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const app = windows.find((client) => new URL(client.url).pathname === '/');
+    if (app) {
+      await app.focus();
+      app.postMessage({ type: 'open-message', inboxId, messageId });
+      return;
+    }
+    const query = new URLSearchParams({ inbox: inboxId || '', message: messageId || '' });
+    await self.clients.openWindow(`/?${query}`);
+  })());
+});
@@ -1,8 +1,12 @@
+import "dotenv/config";
 import { createServer as createViteServer } from "vite";
 import path from "path";
 import { fileURLToPath } from "url";
 import express from "express";
-import app from "./api/index.ts";
+import app, { provider } from "./api/index.ts";
+import { isInboundMailbox } from "./server/providers/index.ts";
+import { startSmtpServer } from "./server/smtp.ts";
+import { logger } from "./server/logger.ts";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -26,8 +30,19 @@ async function startServer() {
   }
 
   app.listen(PORT, "0.0.0.0", () => {
-    console.log(`Server running on http://localhost:${PORT}`);
+    logger.info(`Server running on http://localhost:${PORT}`);
   });
+
+  // Optional self-hosted inbox: receive mail over SMTP into the sqlite provider
+  if (process.env.SMTP_ENABLED === "true") {
+    if (!isInboundMailbox(provider)) {
+      throw new Error(`SMTP_ENABLED requires a provider that hosts mailboxes (MAIL_PROVIDER="sqlite"), got "${provider.name}"`);
+    }
+    startSmtpServer(provider, {
+      port: Number(process.env.SMTP_PORT) || 2525,
+      host: process.env.SMTP_HOST || "0.0.0.0",
+    });
+  }
 }
 
 startServer();
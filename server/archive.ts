@@ -0,0 +1,145 @@
+import { Writable } from "stream";
+import { Zip, ZipDeflate } from "fflate";
+import { parseHeaders } from "./mime.ts";
+import { MailAccount, MailMessage, MailProvider } from "./providers/types.ts";
+
+// Inbox exports for /mail/messages/export, written to the response as they are built:
+// a single mboxrd file, or a ZIP of .eml files with their attachments and a manifest.json.
+
+export type ArchiveFormat = "mbox" | "zip";
+
+export const ARCHIVE_FORMATS: ArchiveFormat[] = ["mbox", "zip"];
+export const MAX_EXPORT_MESSAGES = 1000;
+
+export const isArchiveFormat = (value: unknown): value is ArchiveFormat => ARCHIVE_FORMATS.includes(value as ArchiveFormat);
+
+export const ARCHIVE_CONTENT_TYPES: Record<ArchiveFormat, string> = {
+  mbox: "application/mbox",
+  zip: "application/zip",
+};
+
+// Every message of the inbox, oldest first as mail clients expect
+export const listAllMessages = async (provider: MailProvider, token: string) => {
+  const messages: MailMessage[] = [];
+  for (let page = 1; messages.length < MAX_EXPORT_MESSAGES; page++) {
+    const { items, total } = await provider.listMessages(token, page);
+    messages.push(...items);
+    if (items.length === 0 || messages.length >= total) break;
+  }
+  return messages.slice(0, MAX_EXPORT_MESSAGES).reverse();
+};
+
+export const archiveFilename = (address: string, format: ArchiveFormat, date = new Date()) =>
+  `${address.replace(/[^\w.@-]/g, "_")}-${date.toISOString().slice(0, 10)}.${format}`;
+
+// "Sat Jan  3 01:05:34 1996", the date format of mbox "From " separator lines
+const asctime = (date: Date) => {
+  const [weekday, day, month, year, time] = date.toUTCString().split(" ");
+  return `${weekday.slice(0, 3)} ${month} ${day.replace(/^0/, "").padStart(2, " ")} ${time} ${year}`;
+};
+
+// mboxrd: "From " lines in the body, quoted or not, get one more ">" so readers can undo it
+export const mboxEntry = (raw: string, sender: string, date: Date) => {
+  const body = raw.replace(/\r\n/g, "\n").replace(/^(>*From )/gm, ">$1");
+  return `From ${sender || "MAILER-DAEMON"} ${asctime(date)}\n${body}${body.endsWith("\n") ? "" : "\n"}\n`;
+};
+
+const write = (out: Writable, chunk: string | Uint8Array) =>
+  new Promise<void>((resolve, reject) => out.write(chunk, (error) => (error ? reject(error) : resolve())));
+
+const writeMbox = async (provider: MailProvider, token: string, messages: MailMessage[], out: Writable) => {
+  for (const message of messages) {
+    const raw = await provider.getSource(token, message.id);
+    await write(out, mboxEntry(raw, message.from.address, new Date(message.createdAt)));
+  }
+  out.end();
+};
+
+// Lowercase, dash-separated and short enough for any file system
+const slug = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 40) || "message";
+
+// Keeps the name readable but strips anything that could escape the folder
+const safeFilename = (name: string) => name.replace(/[\\/:*?"<>|\x00-\x1f]/g, "_").replace(/^\.+/, "_") || "attachment";
+
+const writeZip = async (provider: MailProvider, token: string, account: MailAccount, messages: MailMessage[], out: Writable) => {
+  const zip = new Zip();
+  const pending: Promise<void>[] = [];
+  let failed: Error | undefined;
+  zip.ondata = (error, chunk, final) => {
+    if (error) {
+      failed = error;
+      return;
+    }
+    pending.push(write(out, chunk));
+    if (final) out.end();
+  };
+
+  const addFile = async (path: string, mtime: Date, chunks: AsyncIterable<Uint8Array> | Uint8Array[]) => {
+    const entry = new ZipDeflate(path, { level: 6 });
+    entry.mtime = mtime;
+    zip.add(entry);
+    for await (const chunk of chunks) entry.push(chunk);
+    entry.push(new Uint8Array(0), true);
+    // fflate writes synchronously; waiting here keeps memory bounded on slow connections
+    await Promise.all(pending.splice(0));
+    if (failed) throw failed;
+  };
+
+  const manifest = [];
+  for (const [index, message] of messages.entries()) {
+    const number = String(index + 1).padStart(String(messages.length).length, "0");
+    const date = new Date(message.createdAt);
+    const raw = await provider.getSource(token, message.id);
+    const file = `messages/${number}-${slug(message.subject)}.eml`;
+    await addFile(file, date, [Buffer.from(raw)]);
+
+    // Peeked, as exporting an inbox is not reading it
+    const detail = message.hasAttachments ? await provider.peekMessage(token, message.id) : undefined;
+    const attachments = [];
+    const used = new Set<string>();
+    for (const attachment of detail?.attachments || []) {
+      let name = safeFilename(attachment.filename);
+      if (used.has(name)) name = `${used.size + 1}-${name}`;
+      used.add(name);
+      const content = await provider.getAttachment(token, message.id, attachment.id);
+      const path = `attachments/${number}/${name}`;
+      await addFile(path, date, content.stream);
+      attachments.push({ file: path, filename: attachment.filename, contentType: attachment.contentType, size: attachment.size, contentId: attachment.contentId });
+    }
+
+    manifest.push({
+      file,
+      id: message.id,
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      createdAt: message.createdAt,
+      seen: message.seen,
+      size: Buffer.byteLength(raw),
+      headers: parseHeaders(raw),
+      attachments,
+    });
+  }
+
+  const summary = {
+    format: "kasmail-export",
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    inbox: { id: account.id, address: account.address },
+    total: manifest.length,
+    messages: manifest,
+  };
+  await addFile("manifest.json", new Date(), [Buffer.from(JSON.stringify(summary, null, 2))]);
+  zip.end();
+  await Promise.all(pending.splice(0));
+  if (failed) throw failed;
+};
+
+export const writeArchive = (
+  provider: MailProvider,
+  token: string,
+  account: MailAccount,
+  messages: MailMessage[],
+  format: ArchiveFormat,
+  out: Writable,
+) => (format === "mbox" ? writeMbox(provider, token, messages, out) : writeZip(provider, token, account, messages, out));
@@ -0,0 +1,164 @@
+import { randomBytes } from "crypto";
+import { createContext, Script } from "vm";
+import { InboxEvents } from "./events.ts";
+import { logger } from "./logger.ts";
+import { MailMessage, MailMessageDetail, MailProvider, ProviderError } from "./providers/types.ts";
+
+// Headless helpers for end-to-end tests: one-call inbox creation (/mail/inboxes)
+// and blocking until a matching message arrives (/mail/wait).
+
+export interface InboxOptions {
+  domain?: string;
+  username?: string;
+  password?: string;
+}
+
+export interface CreatedInbox {
+  id: string;
+  address: string;
+  password: string;
+  token: string;
+  createdAt: string;
+}
+
+// A case-insensitive regular expression supplied by a client
+export interface Pattern {
+  source: string;
+  test(text: string): boolean;
+}
+
+export interface WaitCriteria {
+  // Case-insensitive substring of the sender address or name
+  from?: string;
+  subject?: Pattern;
+  body?: Pattern;
+  // ISO timestamp; older messages are ignored
+  since?: string;
+}
+
+export const DEFAULT_WAIT_SECONDS = 30;
+export const MAX_WAIT_SECONDS = 120;
+const MAX_PATTERN_LENGTH = 500;
+// Per match; ordinary patterns take well under a millisecond even on large bodies
+const MATCH_BUDGET_MS = 100;
+const runTest = new Script("pattern.test(text)");
+
+// Same three steps as the web client: pick a domain, create the account, request a token
+export const createInbox = async (provider: MailProvider, options: InboxOptions = {}): Promise<CreatedInbox> => {
+  let domain = options.domain;
+  if (!domain) {
+    const active = (await provider.listDomains()).filter((d) => d.isActive);
+    if (active.length === 0) throw new ProviderError(503, "No email domains available");
+    domain = active[0].domain;
+  }
+  const password = options.password || randomBytes(12).toString("base64url");
+  const address = `${options.username || randomBytes(5).toString("hex")}@${domain}`.toLowerCase();
+
+  const account = await provider.createAccount(address, password);
+  const { token } = await provider.getToken(address, password);
+  return { id: account.id, address: account.address, password, token, createdAt: account.createdAt };
+};
+
+// Client patterns run against text the mail's sender chose, so a pattern that backtracks
+// catastrophically (e.g. "(a+)+$") could stall the server. Each match runs in a VM with a
+// time budget instead, and counts as no match once it runs out.
+export const parsePattern = (name: string, value: unknown): Pattern | undefined => {
+  if (value === undefined || value === "") return undefined;
+  if (typeof value !== "string" || value.length > MAX_PATTERN_LENGTH) {
+    throw new ProviderError(400, `The ${name} parameter must be a regular expression of at most ${MAX_PATTERN_LENGTH} characters`);
+  }
+  let pattern: RegExp;
+  try {
+    pattern = new RegExp(value, "i");
+  } catch (error: any) {
+    throw new ProviderError(400, `Invalid ${name} pattern`, error.message);
+  }
+  const context = createContext({ pattern, text: "" });
+  return {
+    source: pattern.source,
+    test(text) {
+      context.text = text;
+      try {
+        return runTest.runInContext(context, { timeout: MATCH_BUDGET_MS }) === true;
+      } catch (error: any) {
+        if (error.code !== "ERR_SCRIPT_EXECUTION_TIMEOUT") throw error;
+        logger.warn("Pattern match ran out of time", { pattern: pattern.source, length: text.length });
+        return false;
+      }
+    },
+  };
+};
+
+const matchesHeaders = (message: MailMessage, criteria: WaitCriteria) => {
+  if (criteria.since && Date.parse(message.createdAt) < Date.parse(criteria.since)) return false;
+  if (criteria.from) {
+    const needle = criteria.from.toLowerCase();
+    if (!`${message.from.address} ${message.from.name}`.toLowerCase().includes(needle)) return false;
+  }
+  return !criteria.subject || criteria.subject.test(message.subject);
+};
+
+const matchesBody = (message: MailMessageDetail, criteria: WaitCriteria) =>
+  !criteria.body || criteria.body.test(message.text) || message.html.some((html) => criteria.body!.test(html));
+
+/**
+ * Resolves with the first message (already received or arriving later) that matches the
+ * criteria, or null once `timeoutMs` passes or `signal` aborts.
+ */
+export const waitForMessage = (
+  provider: MailProvider,
+  events: InboxEvents,
+  token: string,
+  criteria: WaitCriteria,
+  timeoutMs: number,
+  signal?: AbortSignal,
+): Promise<MailMessageDetail | null> => {
+  // Body patterns need the full message, so only fetch candidates whose headers already match.
+  // Peeking keeps a wait from marking the mail it looks at read.
+  const check = async (message: MailMessage) => {
+    if (!matchesHeaders(message, criteria)) return null;
+    const detail = await provider.peekMessage(token, message.id);
+    return matchesBody(detail, criteria) ? detail : null;
+  };
+
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    let unsubscribe = () => {};
+    const finish = (result: MailMessageDetail | null, error?: unknown) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+      unsubscribe();
+      if (error) {
+        reject(error);
+      } else {
+        resolve(result);
+      }
+    };
+    const onAbort = () => finish(null);
+    const timer = setTimeout(() => finish(null), timeoutMs);
+    signal?.addEventListener("abort", onAbort);
+
+    const consider = (message: MailMessage) =>
+      check(message).then((match) => match && finish(match)).catch((error) => logger.warn("Wait check failed", { error: error.message }));
+
+    // Subscribe before scanning existing mail so nothing slips in between
+    events
+      .subscribe(token, (event) => {
+        if (event.type === "new-message") consider(event.message);
+      })
+      .then(async (stop) => {
+        if (settled) return stop();
+        unsubscribe = stop;
+        const { items } = await provider.listMessages(token, 1, { since: criteria.since });
+        for (const message of items) {
+          if (settled) break;
+          // A message deleted meanwhile is simply not a match
+          const match = await check(message).catch(() => null);
+          if (match) finish(match);
+        }
+      })
+      .catch((error) => finish(null, error));
+  });
+};
@@ -0,0 +1,51 @@
+import { MailProvider, MessageFilter, ProviderError } from "./providers/types.ts";
+
+// Bulk message actions for /mail/messages/bulk. Providers only expose per-message calls,
+// so the ids are processed one at a time (which also keeps mail.tm under its rate limit).
+
+export type BulkAction = "delete" | "seen" | "unseen";
+
+export interface BulkResult {
+  action: BulkAction;
+  succeeded: string[];
+  failed: { id: string; error: string }[];
+}
+
+export const BULK_ACTIONS: BulkAction[] = ["delete", "seen", "unseen"];
+export const MAX_BULK_IDS = 500;
+
+export const isBulkAction = (value: unknown): value is BulkAction => BULK_ACTIONS.includes(value as BulkAction);
+
+// Every message the action applies to when the client asks for "all" (mark all read, empty inbox)
+export const collectMessageIds = async (provider: MailProvider, token: string, action: BulkAction) => {
+  const filter: MessageFilter = action === "seen" ? { unread: true } : {};
+  const ids: string[] = [];
+  let scanned = 0;
+  for (let page = 1; ids.length < MAX_BULK_IDS; page++) {
+    const { items, total } = await provider.listMessages(token, page, filter);
+    ids.push(...items.filter((message) => action !== "unseen" || message.seen).map((message) => message.id));
+    scanned += items.length;
+    if (items.length === 0 || scanned >= total) break;
+  }
+  return ids.slice(0, MAX_BULK_IDS);
+};
+
+export const runBulkAction = async (provider: MailProvider, token: string, action: BulkAction, ids: string[]) => {
+  const result: BulkResult = { action, succeeded: [], failed: [] };
+  for (const id of ids) {
+    try {
+      if (action === "delete") {
+        await provider.deleteMessage(token, id);
+      } else {
+        await provider.setSeen(token, id, action === "seen");
+      }
+      result.succeeded.push(id);
+    } catch (error: any) {
+      // A bad token or an upstream rate limit fails every remaining id the same way,
+      // so report it once as the route error
+      if (error instanceof ProviderError && (error.status === 401 || error.status === 429)) throw error;
+      result.failed.push({ id, error: error.message });
+    }
+  }
+  return result;
+};
@@ -0,0 +1,83 @@
+import { detached, logger } from "./logger.ts";
+import { InboxListener, MailMessage, MailProvider } from "./providers/types.ts";
+
+interface Poller {
+  listeners: Set<InboxListener>;
+  timer?: NodeJS.Timeout;
+  snapshot?: Map<string, MailMessage>;
+}
+
+// Fans inbox changes out to /mail/events subscribers. Providers with native push are
+// used directly; for the rest, one shared poller per token diffs the first inbox page.
+export const createInboxEvents = (provider: MailProvider, pollInterval: number = 5000) => {
+  const pollers = new Map<string, Poller>();
+
+  const diff = (poller: Poller, items: MailMessage[]) => {
+    const current = new Map(items.map((message) => [message.id, message]));
+    const previous = poller.snapshot;
+    poller.snapshot = current;
+    if (!previous) return;
+
+    const emit: InboxListener = (event) => poller.listeners.forEach((listener) => listener(event));
+    const oldest = items[items.length - 1]?.createdAt;
+
+    for (const message of items) {
+      const before = previous.get(message.id);
+      if (!before) {
+        emit({ type: "new-message", message });
+      } else if (before.seen !== message.seen) {
+        emit({ type: "message-seen", id: message.id, seen: message.seen });
+      }
+    }
+    for (const [id, message] of previous) {
+      // Only page one is polled, so a message that merely scrolled off it is not a deletion
+      if (!current.has(id) && (!oldest || message.createdAt >= oldest)) {
+        emit({ type: "message-deleted", id });
+      }
+    }
+  };
+
+  const poll = async (token: string, poller: Poller) => {
+    try {
+      const { items } = await provider.listMessages(token, 1);
+      diff(poller, items);
+    } catch (error: any) {
+      logger.warn("Inbox poll failed", { error: error.message });
+    }
+  };
+
+  const subscribe = async (token: string, listener: InboxListener): Promise<() => void> => {
+    if (provider.subscribe) {
+      return provider.subscribe(token, listener);
+    }
+
+    let poller = pollers.get(token);
+    if (!poller) {
+      // The first listMessages call doubles as token validation for the caller
+      const { items } = await provider.listMessages(token, 1);
+      poller = pollers.get(token);
+      if (!poller) {
+        const created: Poller = { listeners: new Set() };
+        diff(created, items);
+        // Shared by later subscribers, so its logs shouldn't carry this request's ID
+        created.timer = detached(() => setInterval(() => poll(token, created), pollInterval));
+        pollers.set(token, created);
+        poller = created;
+      }
+    }
+    poller.listeners.add(listener);
+
+    const active = poller;
+    return () => {
+      active.listeners.delete(listener);
+      if (active.listeners.size === 0) {
+        clearInterval(active.timer);
+        pollers.delete(token);
+      }
+    };
+  };
+
+  return { subscribe };
+};
+
+export type InboxEvents = ReturnType<typeof createInboxEvents>;
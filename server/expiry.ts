@@ -0,0 +1,81 @@
+import { detached, logger } from "./logger.ts";
+import { MailProvider, ProviderError } from "./providers/types.ts";
+
+// Self-destruct timers for /mail/accounts/:id/expiry. A sweeper deletes accounts upstream
+// once their lifetime is over, also for inboxes whose browser tab was closed. Schedules
+// are kept in process memory, so they need the long-running server.
+
+export interface AccountExpiry {
+  id: string;
+  // null when the account is kept until deleted
+  expiresAt: string | null;
+}
+
+export const MAX_LIFETIME_SECONDS = 30 * 24 * 60 * 60;
+
+export const createExpiry = (
+  provider: MailProvider,
+  { sweepIntervalMs = 60000, onExpired }: { sweepIntervalMs?: number; onExpired?: (accountId: string) => void } = {},
+) => {
+  const schedules = new Map<string, { token: string; expiresAt: number }>();
+
+  const ownAccount = async (token: string, accountId: string) => {
+    const account = await provider.getAccount(token);
+    if (account.id !== accountId) throw new ProviderError(403, "Access Denied.");
+  };
+
+  const toExpiry = (accountId: string): AccountExpiry => {
+    const schedule = schedules.get(accountId);
+    return { id: accountId, expiresAt: schedule ? new Date(schedule.expiresAt).toISOString() : null };
+  };
+
+  const sweep = async () => {
+    const now = Date.now();
+    for (const [accountId, { token, expiresAt }] of schedules) {
+      if (expiresAt > now) continue;
+      schedules.delete(accountId);
+      try {
+        await provider.deleteAccount(token, accountId);
+        logger.info("Expired account deleted", { accountId });
+      } catch (error: any) {
+        // Already deleted, or its token no longer works: either way there is nothing left to do
+        const gone = error instanceof ProviderError && (error.status === 404 || error.status === 401);
+        if (!gone) logger.warn("Expired account could not be deleted", { accountId, error: error.message });
+      }
+      onExpired?.(accountId);
+    }
+  };
+
+  detached(() => setInterval(() => sweep().catch((error) => logger.error("Expiry sweep failed", { error })), sweepIntervalMs).unref());
+
+  return {
+    async get(token: string, accountId: string) {
+      await ownAccount(token, accountId);
+      return toExpiry(accountId);
+    },
+
+    // Sets the remaining lifetime in seconds from now (extending is setting a later one),
+    // or makes the account permanent with null
+    async set(token: string, accountId: string, expiresIn: unknown) {
+      const valid = expiresIn === null || (typeof expiresIn === "number" && expiresIn > 0 && expiresIn <= MAX_LIFETIME_SECONDS);
+      if (!valid) {
+        throw new ProviderError(400, `The expiresIn field must be null or a number of seconds up to ${MAX_LIFETIME_SECONDS}`);
+      }
+      await ownAccount(token, accountId);
+      if (expiresIn === null) {
+        schedules.delete(accountId);
+      } else {
+        schedules.set(accountId, { token, expiresAt: Date.now() + (expiresIn as number) * 1000 });
+      }
+      return toExpiry(accountId);
+    },
+
+    forget(accountId: string) {
+      schedules.delete(accountId);
+    },
+
+    sweep,
+  };
+};
+
+export type Expiry = ReturnType<typeof createExpiry>;
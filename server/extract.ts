@@ -0,0 +1,118 @@
+// Finds one-time codes and verification/magic links in a message, so the UI and
+// scripts can act on signup mail without reading it.
+
+export interface Extracted {
+  codes: string[];
+  links: string[];
+}
+
+interface ExtractSource {
+  subject?: string;
+  text?: string;
+  html?: string[];
+}
+
+const MAX_CODES = 3;
+const MAX_LINKS = 3;
+
+const CODE_KEYWORD = /\b(code|otp|pin|passcode|one[- ]time|verification|verify|security|confirmation|token)\b/gi;
+// 4-8 characters with at least one digit, optionally split in two groups ("123 456", "ABC-123")
+const CODE_CANDIDATE = /\b(?=[A-Z0-9 -]*\d)([A-Z0-9]{2,4}[- ][A-Z0-9]{2,4}|[A-Z0-9]{4,8})\b/;
+const KEYWORD_WINDOW = 60;
+
+// Mail can be hostile, so HTML is read in single forward scans with bounded lookahead,
+// and only its start is searched; codes and links sit near the top anyway
+const MAX_SCANNED_HTML = 200_000;
+const MAX_TAG_LENGTH = 2000;
+// How far past an <a> tag its closing </a> is looked for
+const LABEL_WINDOW = 500;
+
+const URL_PATTERN = /https?:\/\/[^\s"'<>()]+/gi;
+const LINK_HINT = /(verif|confirm|activat|validat|magic|sign-?in|log-?in|auth|token|reset|invite|opt-?in)/i;
+const LINK_EXCLUDE = /(unsubscribe|opt-?out|preferences|privacy|tracking\.|\.(png|jpe?g|gif|css)(\?|$))/i;
+
+const decodeEntities = (value: string) =>
+  value
+    .replace(/&nbsp;/gi, " ")
+    .replace(/&amp;/gi, "&")
+    .replace(/&lt;/gi, "<")
+    .replace(/&gt;/gi, ">")
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;/gi, "'");
+
+// Drops <style> and <script> blocks; an unclosed one runs to the end of the document
+const stripBlocks = (html: string) => {
+  const lower = html.toLowerCase();
+  const opening = /<(style|script)\b/g;
+  let text = "";
+  let from = 0;
+  let match;
+  while ((match = opening.exec(lower))) {
+    text += `${html.slice(from, match.index)} `;
+    const close = lower.indexOf(`</${match[1]}`, opening.lastIndex);
+    const end = close === -1 ? -1 : lower.indexOf(">", close);
+    if (end === -1) return text;
+    from = opening.lastIndex = end + 1;
+  }
+  return text + html.slice(from);
+};
+
+export const htmlToText = (html: string) => decodeEntities(stripBlocks(html).replace(/<[^<>]*>/g, " "));
+
+const findAnchors = (html: string) => {
+  const lower = html.toLowerCase();
+  const opening = /<a\b/g;
+  const anchors: { url: string; label: string }[] = [];
+  let match;
+  while ((match = opening.exec(lower))) {
+    const end = lower.indexOf(">", opening.lastIndex);
+    if (end === -1) break;
+    opening.lastIndex = end + 1;
+    if (end - match.index > MAX_TAG_LENGTH) continue;
+    const href = /\bhref\s*=\s*["']([^"']+)["']/i.exec(html.slice(match.index, end));
+    if (!href) continue;
+    const close = lower.slice(end + 1, end + 1 + LABEL_WINDOW).indexOf("</a");
+    anchors.push({ url: decodeEntities(href[1]), label: close === -1 ? "" : htmlToText(html.slice(end + 1, end + 1 + close)) });
+  }
+  return anchors;
+};
+
+// Years and similar numbers show up near "code" in footers; a code has to look deliberate
+const isPlausibleCode = (code: string) => !/^(19|20)\d{2}$/.test(code);
+
+const findCodes = (text: string) => {
+  const codes: string[] = [];
+  for (const keyword of text.matchAll(CODE_KEYWORD)) {
+    const start = keyword.index! + keyword[0].length;
+    const match = text.slice(start, start + KEYWORD_WINDOW).match(CODE_CANDIDATE);
+    const code = match?.[1].replace(/ /g, "");
+    if (code && isPlausibleCode(code) && !codes.includes(code)) codes.push(code);
+  }
+  return codes;
+};
+
+const findLinks = (text: string, html: string) => {
+  const hrefs = findAnchors(html);
+  const bare = Array.from(text.matchAll(URL_PATTERN), (match) => ({ url: match[0], label: "" }));
+
+  const links: string[] = [];
+  for (const { url, label } of [...hrefs, ...bare]) {
+    if (!/^https?:\/\//i.test(url) || LINK_EXCLUDE.test(url)) continue;
+    if ((LINK_HINT.test(url) || LINK_HINT.test(label)) && !links.includes(url)) links.push(url);
+  }
+  return links;
+};
+
+export const extractFromMessage = ({ subject = "", text = "", html = [] }: ExtractSource): Extracted => {
+  const joinedHtml = html.join("\n").slice(0, MAX_SCANNED_HTML);
+  const body = text || htmlToText(joinedHtml);
+
+  // A bare number in the subject ("123456 is your code") is almost always the code
+  const subjectCodes = Array.from(subject.matchAll(/\b\d{4,8}\b/g), (match) => match[0]).filter(isPlausibleCode);
+  const codes = Array.from(new Set([...subjectCodes, ...findCodes(`${subject}\n${body}`)]));
+
+  return {
+    codes: codes.slice(0, MAX_CODES),
+    links: findLinks(body, joinedHtml).slice(0, MAX_LINKS),
+  };
+};
@@ -0,0 +1,53 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+// Structured JSON logs, one object per line. Entries written while a request is being
+// handled carry its requestId automatically.
+
+type LogLevel = "debug" | "info" | "warn" | "error";
+
+// LOG_LEVEL picks the least severe level written; "silent" turns logging off
+const LEVELS: Record<LogLevel | "silent", number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 50 };
+
+// Never written out, wherever they appear in the logged fields
+const SECRET_KEYS = /^(authorization|cookie|set-cookie|password|token)$/i;
+
+const context = new AsyncLocalStorage<{ requestId: string }>();
+
+// Runs `fn` with `requestId` attached to every entry logged inside it
+export const withRequestId = <T>(requestId: string, fn: () => T) => context.run({ requestId }, fn);
+
+// Runs `fn` outside any request, e.g. to start timers that outlive the request creating them
+export const detached = <T>(fn: () => T) => context.exit(fn);
+
+export const currentRequestId = () => context.getStore()?.requestId;
+
+// Masks credentials passed in the URL: /mail/events?token= and share link tokens
+export const redactUrl = (url: string) =>
+  url.replace(/([?&](?:token|password)=)[^&]*/gi, "$1[redacted]").replace(/(\/mail\/shared\/)[^/?]+/, "$1[redacted]");
+
+const serialize = (value: unknown, depth = 0): unknown => {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  if (Array.isArray(value)) return value.map((item) => serialize(item, depth + 1));
+  if (value && typeof value === "object" && depth < 5) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, SECRET_KEYS.test(key) ? "[redacted]" : serialize(item, depth + 1)]),
+    );
+  }
+  return value;
+};
+
+const write = (level: LogLevel, msg: string, fields: Record<string, unknown> = {}) => {
+  const threshold = LEVELS[(process.env.LOG_LEVEL || "info") as LogLevel] ?? LEVELS.info;
+  if (LEVELS[level] < threshold) return;
+  const entry = { time: new Date().toISOString(), level, msg, requestId: currentRequestId(), ...(serialize(fields) as object) };
+  (level === "error" || level === "warn" ? process.stderr : process.stdout).write(`${JSON.stringify(entry)}\n`);
+};
+
+export const logger = {
+  debug: (msg: string, fields?: Record<string, unknown>) => write("debug", msg, fields),
+  info: (msg: string, fields?: Record<string, unknown>) => write("info", msg, fields),
+  warn: (msg: string, fields?: Record<string, unknown>) => write("warn", msg, fields),
+  error: (msg: string, fields?: Record<string, unknown>) => write("error", msg, fields),
+};
@@ -0,0 +1,82 @@
+// Request counters and latency histograms, rendered in the Prometheus text format
+// for /metrics. Routes are labelled by their pattern (/mail/messages/:id), not the URL.
+
+const DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+interface Histogram {
+  labels: Record<string, string>;
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+const escape = (value: string) => value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+const formatLabels = (labels: Record<string, string>) =>
+  `{${Object.entries(labels).map(([key, value]) => `${key}="${escape(value)}"`).join(",")}}`;
+
+export const createMetrics = () => {
+  const requests = new Map<string, { labels: Record<string, string>; value: number }>();
+  const upstreamErrors = new Map<string, { labels: Record<string, string>; value: number }>();
+  const durations = new Map<string, Histogram>();
+  const startedAt = Date.now();
+
+  const increment = (counters: typeof requests, labels: Record<string, string>) => {
+    const key = formatLabels(labels);
+    const counter = counters.get(key) || { labels, value: 0 };
+    counter.value++;
+    counters.set(key, counter);
+  };
+
+  return {
+    observeRequest(method: string, route: string, status: number, seconds: number) {
+      increment(requests, { method, route, status: String(status) });
+
+      const labels = { method, route };
+      const key = formatLabels(labels);
+      const histogram = durations.get(key) || { labels, buckets: DURATION_BUCKETS.map(() => 0), sum: 0, count: 0 };
+      DURATION_BUCKETS.forEach((bound, i) => {
+        if (seconds <= bound) histogram.buckets[i]++;
+      });
+      histogram.sum += seconds;
+      histogram.count++;
+      durations.set(key, histogram);
+    },
+
+    // A request that failed because the mail provider did (5xx, timeout or rate limit)
+    countUpstreamError(route: string, status: number) {
+      increment(upstreamErrors, { route, status: String(status) });
+    },
+
+    render() {
+      const lines = [
+        "# HELP kasmail_http_requests_total HTTP requests handled, by route and status.",
+        "# TYPE kasmail_http_requests_total counter",
+        ...[...requests.values()].map(({ labels, value }) => `kasmail_http_requests_total${formatLabels(labels)} ${value}`),
+        "# HELP kasmail_http_request_duration_seconds Time to answer HTTP requests, by route.",
+        "# TYPE kasmail_http_request_duration_seconds histogram",
+      ];
+      for (const { labels, buckets, sum, count } of durations.values()) {
+        DURATION_BUCKETS.forEach((bound, i) => {
+          lines.push(`kasmail_http_request_duration_seconds_bucket${formatLabels({ ...labels, le: String(bound) })} ${buckets[i]}`);
+        });
+        lines.push(
+          `kasmail_http_request_duration_seconds_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+          `kasmail_http_request_duration_seconds_sum${formatLabels(labels)} ${sum}`,
+          `kasmail_http_request_duration_seconds_count${formatLabels(labels)} ${count}`,
+        );
+      }
+      lines.push(
+        "# HELP kasmail_upstream_errors_total Requests that failed because the mail provider did, by route and status.",
+        "# TYPE kasmail_upstream_errors_total counter",
+        ...[...upstreamErrors.values()].map(({ labels, value }) => `kasmail_upstream_errors_total${formatLabels(labels)} ${value}`),
+        "# HELP kasmail_uptime_seconds Seconds since the server started.",
+        "# TYPE kasmail_uptime_seconds gauge",
+        `kasmail_uptime_seconds ${(Date.now() - startedAt) / 1000}`,
+      );
+      return `${lines.join("\n")}\n`;
+    },
+  };
+};
+
+export type Metrics = ReturnType<typeof createMetrics>;
@@ -0,0 +1,58 @@
+import { AddressObject, simpleParser } from "mailparser";
+import { InboundMessage, MailAddress } from "./providers/types.ts";
+
+export const flattenAddresses = (value: AddressObject | AddressObject[] | undefined): MailAddress[] => {
+  const groups = Array.isArray(value) ? value : value ? [value] : [];
+  return groups.flatMap((group) =>
+    group.value.map((entry) => ({ address: (entry.address || "").toLowerCase(), name: entry.name || "" })),
+  );
+};
+
+// Parses a raw RFC 822 message (multipart, transfer encodings, charsets) into an InboundMessage
+export const parseMessage = async (raw: Buffer): Promise<InboundMessage> => {
+  const parsed = await simpleParser(raw);
+  const [from] = flattenAddresses(parsed.from);
+
+  return {
+    messageId: parsed.messageId,
+    from: from || { address: "", name: "" },
+    to: flattenAddresses(parsed.to),
+    subject: parsed.subject || "",
+    text: parsed.text || "",
+    html: parsed.html ? [parsed.html] : [],
+    attachments: parsed.attachments.map((attachment) => ({
+      filename: attachment.filename || "attachment",
+      contentType: attachment.contentType || "application/octet-stream",
+      size: attachment.size,
+      disposition: attachment.contentDisposition === "inline" ? "inline" : "attachment",
+      contentId: attachment.contentId ? attachment.contentId.replace(/^<|>$/g, "") : undefined,
+      content: attachment.content,
+    })),
+    date: parsed.date || new Date(),
+    raw,
+  };
+};
+
+export interface RawHeader {
+  name: string;
+  value: string;
+}
+
+// Splits the header block of a raw message into unfolded name/value pairs, in order
+export const parseHeaders = (raw: string): RawHeader[] => {
+  const end = raw.search(/\r?\n\r?\n/);
+  const block = end === -1 ? raw : raw.slice(0, end);
+  const headers: RawHeader[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    if (/^[ \t]/.test(line) && headers.length > 0) {
+      headers[headers.length - 1].value += ` ${line.trim()}`;
+      continue;
+    }
+    const colon = line.indexOf(":");
+    if (colon > 0) {
+      headers.push({ name: line.slice(0, colon).trim(), value: line.slice(colon + 1).trim() });
+    }
+  }
+  return headers;
+};
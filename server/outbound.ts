@@ -0,0 +1,423 @@
+import { randomUUID } from "crypto";
+import { simpleParser } from "mailparser";
+import { createTransport } from "nodemailer";
+import { parsePattern, Pattern } from "./automation.ts";
+import { InboxEvents } from "./events.ts";
+import { htmlToText } from "./extract.ts";
+import { logger } from "./logger.ts";
+import { flattenAddresses } from "./mime.ts";
+import { domainOf, normalizeAddress } from "./providers/shared.ts";
+import { MailAddress, MailMessage, MailProvider, ProviderError } from "./providers/types.ts";
+import { createRateLimiter } from "./rateLimit.ts";
+import { AccountWatch, createAccountWatches } from "./watches.ts";
+
+// Outbound mail through an SMTP relay: replies and forwards sent from a temp address
+// (/mail/messages/:id/reply and /forward), and per-inbox rules that forward matching new
+// mail on their own (/mail/forwarding-rules). Rules and the sent log are kept in process
+// memory, so they need the long-running server and do not survive a restart.
+
+export interface OutgoingAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+  // Keeps inline images of forwarded HTML working
+  cid?: string;
+}
+
+export interface OutgoingMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+  html?: string;
+  inReplyTo?: string;
+  references?: string[];
+  attachments?: OutgoingAttachment[];
+}
+
+export interface MailTransport {
+  // Resolves with the Message-ID the relay accepted the message under
+  send(message: OutgoingMessage): Promise<{ messageId: string }>;
+}
+
+export interface RelayOptions {
+  host: string;
+  port?: number;
+  // Implicit TLS; by default only on port 465, other ports upgrade with STARTTLS when offered
+  secure?: boolean;
+  user?: string;
+  pass?: string;
+  timeoutMs?: number;
+}
+
+export interface OutboundOptions {
+  // null turns sending off; every outbound route then answers 501
+  transport: MailTransport | null;
+  // Messages per inbox per hour, replies, forwards and automatic forwards together; 0 for no limit
+  limitPerHour?: number;
+  // The same per client address, as inboxes are free to create; rules count against their creator
+  ipLimitPerHour?: number;
+  // And for the whole server, whatever the inbox or client
+  totalLimitPerHour?: number;
+  // Addresses and domains that forwards may go to; empty allows any
+  allowedRecipients?: string[];
+}
+
+export interface SentItem {
+  id: string;
+  kind: "reply" | "forward" | "auto-forward";
+  to: string[];
+  subject: string;
+  // The received message that was answered or forwarded
+  originalId: string;
+  ruleId?: string;
+  status: "sent" | "failed";
+  error?: string;
+  // Assigned by the relay
+  messageId?: string;
+  createdAt: string;
+}
+
+interface ForwardingRule {
+  id: string;
+  accountId: string;
+  // Address of the client that created the rule, which its forwards count against
+  client: string;
+  to: string;
+  // A rule without either forwards everything
+  from?: Pattern;
+  subject?: Pattern;
+  createdAt: string;
+  lastForwardedAt?: string;
+}
+
+// The parts of a received message that replies and forwards quote
+interface Original {
+  messageId?: string;
+  references: string[];
+  from: MailAddress;
+  replyTo: MailAddress[];
+  to: MailAddress[];
+  cc: MailAddress[];
+  subject: string;
+  date: Date;
+  text: string;
+  html?: string;
+  attachments: OutgoingAttachment[];
+}
+
+export const MAX_RULES_PER_ACCOUNT = 5;
+export const MAX_RECIPIENTS = 10;
+const MAX_NOTE_LENGTH = 20000;
+const MAX_LOGGED_SENT = 50;
+const EMAIL = /^[^\s@<>()",;:]+@[^\s@<>()",;:]+\.[^\s@<>()",;:]+$/;
+
+export const createSmtpTransport = ({ host, port = 587, secure = port === 465, user, pass, timeoutMs = 15000 }: RelayOptions): MailTransport => {
+  const transporter = createTransport({
+    host,
+    port,
+    secure,
+    auth: user ? { user, pass } : undefined,
+    connectionTimeout: timeoutMs,
+    greetingTimeout: timeoutMs,
+    socketTimeout: timeoutMs,
+  });
+  return {
+    async send(message) {
+      const info = await transporter.sendMail(message);
+      return { messageId: info.messageId };
+    },
+  };
+};
+
+// null without SMTP_RELAY_HOST, which keeps the server receive-only
+export const transportFromEnv = (): MailTransport | null => {
+  const host = process.env.SMTP_RELAY_HOST;
+  if (!host) return null;
+  const secure = process.env.SMTP_RELAY_SECURE;
+  return createSmtpTransport({
+    host,
+    port: Number(process.env.SMTP_RELAY_PORT) || undefined,
+    secure: secure ? secure === "true" : undefined,
+    user: process.env.SMTP_RELAY_USER || undefined,
+    pass: process.env.SMTP_RELAY_PASS || undefined,
+  });
+};
+
+const formatAddress = ({ name, address }: MailAddress) => (name ? `${name} <${address}>` : address);
+
+const quote = (text: string) =>
+  text
+    .trimEnd()
+    .split(/\r?\n/)
+    .map((line) => (line ? `> ${line}` : ">"))
+    .join("\n");
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/\n/g, "<br>");
+
+const prefixSubject = (prefix: string, subject: string) =>
+  new RegExp(`^${prefix}:`, "i").test(subject) ? subject : `${prefix}: ${subject}`;
+
+const readNote = (text: unknown, required: boolean) => {
+  if (text === undefined && !required) return "";
+  if (typeof text !== "string" || (required && !text.trim()) || text.length > MAX_NOTE_LENGTH) {
+    throw new ProviderError(400, `The text field must be ${required ? "a non-empty" : "a"} string of at most ${MAX_NOTE_LENGTH} characters`);
+  }
+  return text.trim();
+};
+
+const toPublicRule = ({ id, to, from, subject, createdAt, lastForwardedAt }: ForwardingRule) => ({
+  id,
+  to,
+  from: from?.source ?? null,
+  subject: subject?.source ?? null,
+  createdAt,
+  lastForwardedAt: lastForwardedAt ?? null,
+});
+
+export const createOutbound = (
+  provider: MailProvider,
+  events: InboxEvents,
+  { transport, limitPerHour = 20, ipLimitPerHour = 50, totalLimitPerHour = 500, allowedRecipients = [] }: OutboundOptions,
+) => {
+  const rules = new Map<string, ForwardingRule>();
+  // Newest first, capped at MAX_LOGGED_SENT per account
+  const sent = new Map<string, SentItem[]>();
+  // Checked in this order for every message; a limit of 0 is not checked
+  const hourly = (limit: number, scope: "inbox" | "client" | "server", message: string) =>
+    ({ limit, scope, message, limiter: createRateLimiter(limit, 60 * 60 * 1000) });
+  const limits = [
+    hourly(limitPerHour, "inbox", `An inbox can send at most ${limitPerHour} messages per hour`),
+    hourly(ipLimitPerHour, "client", `Your address can send at most ${ipLimitPerHour} messages per hour`),
+    hourly(totalLimitPerHour, "server", "This server has sent all the mail it may this hour"),
+  ];
+  const allowed = allowedRecipients.map((entry) => entry.trim().toLowerCase()).filter(Boolean);
+
+  const requireTransport = () => {
+    if (!transport) {
+      throw new ProviderError(501, "Sending mail is not configured on this server", "Set SMTP_RELAY_HOST to enable it");
+    }
+    return transport;
+  };
+
+  const isAllowed = (address: string) =>
+    allowed.length === 0 ||
+    allowed.some((entry) => (entry.includes("@") ? entry === address : domainOf(address) === entry || domainOf(address).endsWith(`.${entry}`)));
+
+  const checkAllowed = (recipients: string[]) => {
+    const refused = recipients.find((address) => !isAllowed(address));
+    if (refused) throw new ProviderError(403, `This server does not send mail to ${refused}`);
+  };
+
+  // A single address, a comma-separated list or an array of them
+  const readRecipients = (value: unknown) => {
+    const list = typeof value === "string" ? value.split(",") : Array.isArray(value) ? value : [];
+    const recipients = [...new Set(list.map((entry) => (typeof entry === "string" ? normalizeAddress(entry.trim()) : "")))];
+    if (recipients.length === 0 || recipients.length > MAX_RECIPIENTS || !recipients.every((address) => EMAIL.test(address))) {
+      throw new ProviderError(400, `The to field must hold 1 to ${MAX_RECIPIENTS} email addresses`);
+    }
+    checkAllowed(recipients);
+    return recipients;
+  };
+
+  const readOriginal = async (token: string, id: string): Promise<Original> => {
+    const parsed = await simpleParser(Buffer.from(await provider.getSource(token, id)));
+    const html = typeof parsed.html === "string" ? parsed.html : undefined;
+    return {
+      messageId: parsed.messageId,
+      references: typeof parsed.references === "string" ? [parsed.references] : parsed.references || [],
+      from: flattenAddresses(parsed.from)[0] || { address: "", name: "" },
+      replyTo: flattenAddresses(parsed.replyTo),
+      to: flattenAddresses(parsed.to),
+      cc: flattenAddresses(parsed.cc),
+      subject: parsed.subject || "",
+      date: parsed.date || new Date(),
+      text: parsed.text || (html ? htmlToText(html) : ""),
+      html,
+      attachments: parsed.attachments.map((attachment) => ({
+        filename: attachment.filename || "attachment",
+        contentType: attachment.contentType || "application/octet-stream",
+        content: attachment.content,
+        cid: attachment.contentId ? attachment.contentId.replace(/^<|>$/g, "") : undefined,
+      })),
+    };
+  };
+
+  const forwardMessage = (from: string, to: string[], original: Original, note: string): OutgoingMessage => {
+    const header = [
+      "---------- Forwarded message ---------",
+      `From: ${formatAddress(original.from)}`,
+      `Date: ${original.date.toUTCString()}`,
+      `Subject: ${original.subject}`,
+      `To: ${original.to.map(formatAddress).join(", ")}`,
+    ];
+    return {
+      from,
+      to,
+      subject: prefixSubject("Fwd", original.subject),
+      text: [...(note ? [note, ""] : []), ...header, "", original.text].join("\n"),
+      html: original.html && `${note ? `<p>${escapeHtml(note)}</p><br>` : ""}<div>${header.map(escapeHtml).join("<br>")}</div><br>${original.html}`,
+      attachments: original.attachments,
+    };
+  };
+
+  const log = (accountId: string, item: SentItem) => {
+    const items = sent.get(accountId) || [];
+    items.unshift(item);
+    items.length = Math.min(items.length, MAX_LOGGED_SENT);
+    sent.set(accountId, items);
+  };
+
+  // Sends within the hourly limits and logs the outcome either way
+  const send = async (accountId: string, client: string, message: OutgoingMessage, item: Pick<SentItem, "kind" | "originalId" | "ruleId">) => {
+    const entry: SentItem = { id: randomUUID(), ...item, to: message.to, subject: message.subject, status: "sent", createdAt: new Date().toISOString() };
+    try {
+      const keys = { inbox: accountId, client, server: "" };
+      for (const { limit, scope, message: refusal, limiter } of limits) {
+        if (limit <= 0) continue;
+        const { allowed, retryAfter } = limiter.take(keys[scope]);
+        if (!allowed) throw new ProviderError(429, refusal, undefined, retryAfter);
+      }
+      entry.messageId = (await requireTransport().send(message)).messageId;
+      log(accountId, entry);
+      return entry;
+    } catch (error: any) {
+      entry.status = "failed";
+      entry.error = error.message;
+      log(accountId, entry);
+      if (error instanceof ProviderError) throw error;
+      logger.warn("Outbound mail failed", { accountId, kind: item.kind, error: error.message });
+      throw new ProviderError(502, "The mail relay did not accept the message", error.message);
+    }
+  };
+
+  const accountRules = (accountId: string) => [...rules.values()].filter((rule) => rule.accountId === accountId);
+
+  const matches = (rule: ForwardingRule, message: MailMessage) =>
+    (!rule.from || rule.from.test(`${message.from.name} <${message.from.address}>`)) &&
+    (!rule.subject || rule.subject.test(message.subject));
+
+  const onNewMessage = async (accountId: string, watch: AccountWatch, message: MailMessage) => {
+    const matching = accountRules(accountId).filter((rule) => matches(rule, message));
+    if (matching.length === 0) return;
+    const original = await readOriginal(watch.token, message.id);
+    for (const rule of matching) {
+      rule.lastForwardedAt = new Date().toISOString();
+      await send(accountId, rule.client, forwardMessage(watch.address, [rule.to], original, ""), { kind: "auto-forward", originalId: message.id, ruleId: rule.id })
+        .catch(() => undefined);
+    }
+  };
+
+  // One inbox subscription per account, shared by all of its rules
+  const watches = createAccountWatches(events, {
+    inUse: (accountId) => accountRules(accountId).length > 0,
+    onNewMessage,
+    failure: "Auto-forward failed",
+  });
+
+  return {
+    // Answers the sender (Reply-To when set), or with `all` everyone else it went to too.
+    // `client` is the caller's address, for the per-client limit.
+    async reply(token: string, messageId: string, { text, all }: { text?: unknown; all?: unknown }, client = "unknown") {
+      requireTransport();
+      const note = readNote(text, true);
+      const account = await provider.getAccount(token);
+      const original = await readOriginal(token, messageId);
+      const own = normalizeAddress(account.address);
+      const primary = original.replyTo.length > 0 ? original.replyTo : [original.from];
+      const to = [...new Set([...primary, ...(all === true ? [...original.to, ...original.cc] : [])]
+        .map((entry) => normalizeAddress(entry.address))
+        .filter((address) => address && address !== own))];
+      if (to.length === 0) throw new ProviderError(400, "The message has no sender to reply to");
+      // Reply-To and Cc are whatever the sender wrote, so they get the same checks as forwards
+      if (to.length > MAX_RECIPIENTS) throw new ProviderError(400, `A reply can go to at most ${MAX_RECIPIENTS} addresses`);
+      checkAllowed(to);
+
+      return send(account.id, client, {
+        from: account.address,
+        to,
+        subject: prefixSubject("Re", original.subject),
+        text: `${note}\n\nOn ${original.date.toUTCString()}, ${formatAddress(original.from)} wrote:\n${quote(original.text)}\n`,
+        inReplyTo: original.messageId,
+        references: original.messageId ? [...original.references, original.messageId] : original.references,
+      }, { kind: "reply", originalId: messageId });
+    },
+
+    // Sends the message on with its attachments, below an optional note
+    async forward(token: string, messageId: string, { to, text }: { to?: unknown; text?: unknown }, client = "unknown") {
+      requireTransport();
+      const recipients = readRecipients(to);
+      const note = readNote(text, false);
+      const account = await provider.getAccount(token);
+      const original = await readOriginal(token, messageId);
+      return send(account.id, client, forwardMessage(account.address, recipients, original, note), { kind: "forward", originalId: messageId });
+    },
+
+    async sentItems(token: string) {
+      requireTransport();
+      const account = await provider.getAccount(token);
+      return sent.get(account.id) || [];
+    },
+
+    // Also renews the token the inbox is watched with, e.g. after it expired
+    async listRules(token: string) {
+      requireTransport();
+      const account = await provider.getAccount(token);
+      const owned = accountRules(account.id);
+      if (owned.length > 0) await watches.watch(account.id, account.address, token);
+      return owned.map(toPublicRule);
+    },
+
+    // { to, from?, subject? }, the patterns being case-insensitive regular expressions
+    async createRule(token: string, { to, from, subject }: { to?: unknown; from?: unknown; subject?: unknown }, client = "unknown") {
+      requireTransport();
+      const [target, ...rest] = readRecipients(to);
+      if (rest.length > 0) throw new ProviderError(400, "A forwarding rule has a single target address");
+      const fromPattern = parsePattern("from", from);
+      const subjectPattern = parsePattern("subject", subject);
+      const account = await provider.getAccount(token);
+      if (target === normalizeAddress(account.address)) {
+        throw new ProviderError(400, "An inbox cannot forward to itself");
+      }
+      if (accountRules(account.id).length >= MAX_RULES_PER_ACCOUNT) {
+        throw new ProviderError(409, `An inbox can have at most ${MAX_RULES_PER_ACCOUNT} forwarding rules`);
+      }
+      const rule: ForwardingRule = {
+        id: randomUUID(),
+        accountId: account.id,
+        client,
+        to: target,
+        from: fromPattern,
+        subject: subjectPattern,
+        createdAt: new Date().toISOString(),
+      };
+      rules.set(rule.id, rule);
+      try {
+        await watches.watch(account.id, account.address, token);
+      } catch (error) {
+        rules.delete(rule.id);
+        throw error;
+      }
+      return toPublicRule(rule);
+    },
+
+    async deleteRule(token: string, id: string) {
+      requireTransport();
+      const account = await provider.getAccount(token);
+      const rule = rules.get(id);
+      if (!rule || rule.accountId !== account.id) throw new ProviderError(404, "Forwarding rule not found");
+      rules.delete(id);
+      watches.unwatchIfUnused(account.id);
+    },
+
+    // Drops the rules and sent log of a deleted account
+    forgetAccount(accountId: string) {
+      accountRules(accountId).forEach((rule) => rules.delete(rule.id));
+      watches.unwatchIfUnused(accountId);
+      sent.delete(accountId);
+    },
+  };
+};
+
+export type Outbound = ReturnType<typeof createOutbound>;
@@ -0,0 +1,46 @@
+import { createMailTmProvider, MAILTM_API } from "./mailtm.ts";
+import { createMemoryProvider } from "./memory.ts";
+import { createSqliteProvider } from "./sqlite.ts";
+import { MailProvider } from "./types.ts";
+
+export * from "./types.ts";
+export { createMailTmProvider } from "./mailtm.ts";
+export { createMemoryProvider } from "./memory.ts";
+export { createSqliteProvider } from "./sqlite.ts";
+export type { MailTmOptions } from "./mailtm.ts";
+export type { IncomingAttachment, IncomingMessage, MemoryProvider } from "./memory.ts";
+export type { SqliteProvider } from "./sqlite.ts";
+
+const splitList = (value: string | undefined) =>
+  (value || "")
+    .split(",")
+    .map((item) => item.trim().toLowerCase())
+    .filter(Boolean);
+
+// Unset or malformed values fall back to the provider's default; "0" is kept
+const envNumber = (value: string | undefined) => {
+  const number = Number(value);
+  return value && Number.isFinite(number) ? number : undefined;
+};
+
+// Picks the upstream from MAIL_PROVIDER ("mailtm" by default, "memory" or "sqlite")
+export const createProviderFromEnv = (env: NodeJS.ProcessEnv = process.env): MailProvider => {
+  const name = (env.MAIL_PROVIDER || "mailtm").toLowerCase();
+  switch (name) {
+    case "mailtm":
+      return createMailTmProvider(env.MAILTM_API_URL || MAILTM_API, {
+        timeoutMs: envNumber(env.MAILTM_TIMEOUT_MS),
+        retries: envNumber(env.MAILTM_RETRIES),
+        retryDelayMs: envNumber(env.MAILTM_RETRY_DELAY_MS),
+        domainCacheTtlMs: envNumber(env.DOMAIN_CACHE_TTL_MS),
+      });
+    case "memory": {
+      const domains = splitList(env.MEMORY_DOMAINS);
+      return createMemoryProvider(domains.length > 0 ? domains : undefined);
+    }
+    case "sqlite":
+      return createSqliteProvider(env.SQLITE_PATH || "kasmail.db", splitList(env.LOCAL_DOMAINS));
+    default:
+      throw new Error(`Unknown MAIL_PROVIDER "${env.MAIL_PROVIDER}"`);
+  }
+};
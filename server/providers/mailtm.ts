@@ -0,0 +1,260 @@
+import { Readable } from "stream";
+import { ReadableStream } from "stream/web";
+import {
+  MailAddress,
+  MailAttachment,
+  MailDomain,
+  MailMessage,
+  MailMessageDetail,
+  MailProvider,
+  ProviderError,
+} from "./types.ts";
+import { isFiltered, matchesFilter } from "./shared.ts";
+import { logger } from "../logger.ts";
+
+export const MAILTM_API = "https://api.mail.tm";
+
+// mail.tm serves 30 messages per page and has no search API, so filtered listings
+// scan at most this many upstream pages (the newest messages) and filter them here
+const PAGE_SIZE = 30;
+const MAX_FILTER_PAGES = 10;
+
+export interface MailTmOptions {
+  // How long each attempt may wait for the response headers
+  timeoutMs?: number;
+  // Extra attempts for idempotent requests that fail with a 5xx or a network error
+  retries?: number;
+  // Base of the jittered exponential backoff between attempts
+  retryDelayMs?: number;
+  // How long the /domains answer is reused
+  domainCacheTtlMs?: number;
+}
+
+interface RequestOptions {
+  method?: string;
+  token?: string;
+  body?: unknown;
+  // Defaults to every method but POST, which may have taken effect before failing
+  retry?: boolean;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Full jitter, so clients that failed together don't retry in lockstep
+const backoff = (attempt: number, base: number) => Math.round(Math.random() * base * 2 ** attempt);
+
+// Retry-After is either a number of seconds or an HTTP date
+const parseRetryAfter = (value: string | null) => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  const wait = Number.isFinite(seconds) ? seconds : (Date.parse(value) - Date.now()) / 1000;
+  return Number.isNaN(wait) ? undefined : Math.max(Math.ceil(wait), 1);
+};
+
+const toProviderError = async (response: Response) => {
+  if (response.status === 429) {
+    await response.body?.cancel();
+    const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+    const when = retryAfter ? `in ${retryAfter}s` : "in a moment";
+    return new ProviderError(429, `The mail service is receiving too many requests. Try again ${when}.`, undefined, retryAfter);
+  }
+
+  const text = await response.text();
+  let data: any = null;
+  try {
+    data = text ? JSON.parse(text) : null;
+  } catch (e) {
+    data = null;
+  }
+  // mail.tm reports errors either as Hydra descriptions or as plain { message }
+  const message = data?.message || data?.detail || data?.["hydra:description"] || "Mail service request failed";
+  return new ProviderError(response.status, message, text && !data ? text : undefined);
+};
+
+const toAddress = (value: any): MailAddress => ({
+  address: value?.address || "",
+  name: value?.name || "",
+});
+
+const toMessage = (data: any): MailMessage => ({
+  id: data.id,
+  from: toAddress(data.from),
+  to: (data.to || []).map(toAddress),
+  subject: data.subject || "",
+  intro: data.intro || "",
+  seen: Boolean(data.seen),
+  hasAttachments: Boolean(data.hasAttachments),
+  createdAt: data.createdAt,
+});
+
+const toAttachment = (data: any): MailAttachment => ({
+  id: data.id,
+  filename: data.filename || "attachment",
+  contentType: data.contentType || "application/octet-stream",
+  size: data.size || 0,
+  disposition: data.disposition === "inline" || data.related ? "inline" : "attachment",
+  contentId: data.contentId || undefined,
+});
+
+const toMessageDetail = (data: any): MailMessageDetail => ({
+  ...toMessage(data),
+  text: data.text || "",
+  html: data.html || [],
+  attachments: (data.attachments || []).map(toAttachment),
+});
+
+export const createMailTmProvider = (baseUrl: string = MAILTM_API, options: MailTmOptions = {}): MailProvider => {
+  const { timeoutMs = 10000, retries = 2, retryDelayMs = 300, domainCacheTtlMs = 10 * 60 * 1000 } = options;
+  let domains: { expires: number; value: Promise<MailDomain[]> } | undefined;
+
+  const send = async (path: string, { method = "GET", token, body, retry = method !== "POST" }: RequestOptions = {}) => {
+    const headers: Record<string, string> = {
+      // mail.tm only accepts JSON merge patches on PATCH
+      "Content-Type": method === "PATCH" ? "application/merge-patch+json" : "application/json",
+    };
+    if (token) {
+      headers["Authorization"] = `Bearer ${token}`;
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      let error: ProviderError;
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+      try {
+        const response = await fetch(`${baseUrl}${path}`, {
+          method,
+          headers,
+          body: body === undefined ? undefined : JSON.stringify(body),
+          signal: controller.signal,
+        });
+        if (response.ok) return response;
+        error = await toProviderError(response);
+      } catch (err: any) {
+        logger.warn("Mail service request failed", { method, path, attempt, error: err });
+        error = controller.signal.aborted
+          ? new ProviderError(504, "The mail service did not respond in time", `No response within ${timeoutMs}ms`)
+          : new ProviderError(502, "Failed to fetch from mail service", err.message);
+      } finally {
+        clearTimeout(timer);
+      }
+
+      if (!retry || attempt >= retries || error.status < 500) throw error;
+      await sleep(backoff(attempt, retryDelayMs));
+    }
+  };
+
+  const request = async (path: string, options: RequestOptions = {}) => {
+    const text = await (await send(path, options)).text();
+    try {
+      return text ? JSON.parse(text) : null;
+    } catch (e) {
+      throw new ProviderError(502, "Mail service returned an invalid response", text.slice(0, 200));
+    }
+  };
+
+  const readMessage = async (token: string, id: string) =>
+    toMessageDetail(await request(`/messages/${encodeURIComponent(id)}`, { token }));
+
+  const setSeen = async (token: string, id: string, seen: boolean) => {
+    await request(`/messages/${encodeURIComponent(id)}`, { method: "PATCH", token, body: { seen } });
+  };
+
+  return {
+    name: "mailtm",
+
+    async listDomains() {
+      // Cached, since every new address starts by picking a domain. Failures are not.
+      if (!domains || domains.expires <= Date.now()) {
+        const value = request("/domains").then((data) =>
+          (data?.["hydra:member"] || []).map((domain: any) => ({
+            id: domain.id,
+            domain: domain.domain,
+            isActive: Boolean(domain.isActive),
+          })),
+        );
+        const entry = { expires: Date.now() + domainCacheTtlMs, value };
+        domains = entry;
+        value.catch(() => {
+          if (domains === entry) domains = undefined;
+        });
+      }
+      return domains.value;
+    },
+
+    async createAccount(address, password) {
+      const data = await request("/accounts", { method: "POST", body: { address, password } });
+      return { id: data.id, address: data.address, createdAt: data.createdAt };
+    },
+
+    async getToken(address, password) {
+      // Issuing a second token is harmless, so this POST may be retried
+      const data = await request("/token", { method: "POST", body: { address, password }, retry: true });
+      return { id: data.id, token: data.token };
+    },
+
+    async getAccount(token) {
+      const data = await request("/me", { token });
+      return { id: data.id, address: data.address, createdAt: data.createdAt };
+    },
+
+    async deleteAccount(token, id) {
+      await request(`/accounts/${encodeURIComponent(id)}`, { method: "DELETE", token });
+    },
+
+    async listMessages(token, page = 1, filter = {}) {
+      if (!isFiltered(filter)) {
+        const data = await request(`/messages?page=${page}`, { token });
+        const items = (data?.["hydra:member"] || []).map(toMessage);
+        return { items, total: data?.["hydra:totalItems"] ?? items.length };
+      }
+
+      // List rows only carry the intro, so body matches are limited to the start of the message
+      const matches: MailMessage[] = [];
+      for (let upstreamPage = 1; upstreamPage <= MAX_FILTER_PAGES; upstreamPage++) {
+        const data = await request(`/messages?page=${upstreamPage}`, { token });
+        const members = (data?.["hydra:member"] || []).map(toMessage);
+        matches.push(...members.filter((message: MailMessage) => matchesFilter(message, filter)));
+        if (members.length < PAGE_SIZE || upstreamPage * PAGE_SIZE >= (data?.["hydra:totalItems"] ?? 0)) break;
+      }
+      const start = (Math.max(page, 1) - 1) * PAGE_SIZE;
+      return { items: matches.slice(start, start + PAGE_SIZE), total: matches.length };
+    },
+
+    async getMessage(token, id) {
+      const message = await readMessage(token, id);
+      if (message.seen) return message;
+      await setSeen(token, id, true);
+      return { ...message, seen: true };
+    },
+
+    // mail.tm only marks a message read on PATCH, so a plain read never changes it
+    peekMessage: readMessage,
+
+    async deleteMessage(token, id) {
+      await request(`/messages/${encodeURIComponent(id)}`, { method: "DELETE", token });
+    },
+
+    setSeen,
+
+    async getAttachment(token, messageId, attachmentId) {
+      // Attachment metadata (name, type) only comes with the message itself
+      const message = await request(`/messages/${encodeURIComponent(messageId)}`, { token });
+      const data = (message?.attachments || []).find((attachment: any) => attachment.id === attachmentId);
+      if (!data) throw new ProviderError(404, "Attachment not found");
+
+      const response = await send(data.downloadUrl || `/messages/${encodeURIComponent(messageId)}/attachment/${encodeURIComponent(attachmentId)}`, { token });
+      if (!response.body) throw new ProviderError(502, "Mail service returned an empty attachment");
+      return { ...toAttachment(data), stream: Readable.fromWeb(response.body as ReadableStream<Uint8Array>) };
+    },
+
+    async getSource(token, id) {
+      const data = await request(`/sources/${encodeURIComponent(id)}`, { token });
+      return data?.data || "";
+    },
+
+    async checkHealth() {
+      // Bypasses the domain cache and retries, to report the upstream as it is right now
+      await request("/domains", { retry: false });
+    },
+  };
+};
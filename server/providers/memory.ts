@@ -0,0 +1,262 @@
+import { randomBytes, randomUUID } from "crypto";
+import { Readable } from "stream";
+import {
+  MailAddress,
+  MailDomain,
+  MailMessage,
+  MailMessageDetail,
+  MailProvider,
+  ProviderError,
+} from "./types.ts";
+import { createAccountEvents, domainOf, matchesFilter, normalizeAddress, toIntro } from "./shared.ts";
+
+const PAGE_SIZE = 30;
+
+export interface IncomingAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer | string;
+  disposition?: "attachment" | "inline";
+  contentId?: string;
+}
+
+export interface IncomingMessage {
+  from: MailAddress;
+  subject?: string;
+  text?: string;
+  html?: string[];
+  attachments?: IncomingAttachment[];
+  // RFC 822 source; synthesized from the fields above when omitted
+  raw?: string;
+}
+
+interface StoredAccount {
+  id: string;
+  address: string;
+  password: string;
+  createdAt: string;
+  messages: MailMessageDetail[];
+}
+
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+
+const formatAddress = ({ name, address }: MailAddress) => (name ? `${encodeHeader(name)} <${address}>` : address);
+
+const base64Lines = (content: Buffer) => content.toString("base64").replace(/.{1,76}/g, "$&\r\n");
+
+// Builds a plausible MIME source for mail delivered without one, so /source works in tests
+const buildRawMessage = (message: MailMessageDetail, contents: Map<string, Buffer>) => {
+  const boundary = `----=_Part_${message.id}`;
+  const parts = [
+    { headers: "Content-Type: text/plain; charset=utf-8", body: Buffer.from(message.text) },
+    ...message.html.map((html) => ({ headers: "Content-Type: text/html; charset=utf-8", body: Buffer.from(html) })),
+    ...message.attachments.map((attachment) => ({
+      headers: [
+        `Content-Type: ${attachment.contentType}; name="${attachment.filename}"`,
+        `Content-Disposition: ${attachment.disposition}; filename="${attachment.filename}"`,
+        ...(attachment.contentId ? [`Content-ID: <${attachment.contentId}>`] : []),
+      ].join("\r\n"),
+      body: contents.get(attachment.id) || Buffer.alloc(0),
+    })),
+  ];
+
+  return [
+    `From: ${formatAddress(message.from)}`,
+    `To: ${message.to.map(formatAddress).join(", ")}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date(message.createdAt).toUTCString()}`,
+    `Message-ID: <${message.id}@memory.local>`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    "",
+    ...parts.map((part) => `--${boundary}\r\n${part.headers}\r\nContent-Transfer-Encoding: base64\r\n\r\n${base64Lines(part.body)}`),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+};
+
+const toSummary = ({ text, html, attachments, ...message }: MailMessageDetail): MailMessage => message;
+
+export interface MemoryProvider extends MailProvider {
+  // Drops a message into a local inbox; used by tests and local development
+  deliver(address: string, message: IncomingMessage): MailMessageDetail;
+}
+
+export const createMemoryProvider = (domainNames: string[] = ["example.test"]): MemoryProvider => {
+  const domains: MailDomain[] = domainNames.map((domain) => ({ id: randomUUID(), domain, isActive: true }));
+  const accounts = new Map<string, StoredAccount>();
+  const tokens = new Map<string, StoredAccount>();
+  const events = createAccountEvents();
+  const attachmentContents = new Map<string, Buffer>();
+  const sources = new Map<string, string>();
+
+  const accountForToken = (token: string) => {
+    const account = tokens.get(token);
+    if (!account) throw new ProviderError(401, "Invalid JWT Token");
+    return account;
+  };
+
+  const findMessage = (account: StoredAccount, id: string) => {
+    const message = account.messages.find((m) => m.id === id);
+    if (!message) throw new ProviderError(404, "Message not found");
+    return message;
+  };
+
+  return {
+    name: "memory",
+
+    async listDomains() {
+      return domains;
+    },
+
+    async createAccount(address, password) {
+      const normalized = normalizeAddress(address);
+      const domain = domainOf(normalized);
+      if (!domain || !domains.some((d) => d.domain === domain)) {
+        throw new ProviderError(422, "address: This value is not valid.");
+      }
+      if (!password) {
+        throw new ProviderError(422, "password: This value should not be blank.");
+      }
+      if (accounts.has(normalized)) {
+        throw new ProviderError(422, "address: This value is already used.");
+      }
+      const account: StoredAccount = {
+        id: randomUUID(),
+        address: normalized,
+        password,
+        createdAt: new Date().toISOString(),
+        messages: [],
+      };
+      accounts.set(normalized, account);
+      return { id: account.id, address: account.address, createdAt: account.createdAt };
+    },
+
+    async isAddressAvailable(address) {
+      return !accounts.has(normalizeAddress(address));
+    },
+
+    async getToken(address, password) {
+      const account = accounts.get(normalizeAddress(address));
+      if (!account || account.password !== password) {
+        throw new ProviderError(401, "Invalid credentials.");
+      }
+      const token = randomBytes(24).toString("hex");
+      tokens.set(token, account);
+      return { id: account.id, token };
+    },
+
+    async getAccount(token) {
+      const account = accountForToken(token);
+      return { id: account.id, address: account.address, createdAt: account.createdAt };
+    },
+
+    async deleteAccount(token, id) {
+      const account = accountForToken(token);
+      if (account.id !== id) throw new ProviderError(403, "Access Denied.");
+      account.messages.forEach((message) => {
+        message.attachments.forEach((attachment) => attachmentContents.delete(attachment.id));
+        sources.delete(message.id);
+      });
+      accounts.delete(account.address);
+      for (const [key, owner] of tokens) {
+        if (owner === account) tokens.delete(key);
+      }
+    },
+
+    async listMessages(token, page = 1, filter = {}) {
+      const account = accountForToken(token);
+      const start = (Math.max(page, 1) - 1) * PAGE_SIZE;
+      const matches = account.messages.filter((message) => matchesFilter(message, filter, message.text));
+      const items = matches
+        .slice(start, start + PAGE_SIZE)
+        .map(toSummary);
+      return { items, total: matches.length };
+    },
+
+    async getMessage(token, id) {
+      const account = accountForToken(token);
+      const message = findMessage(account, id);
+      if (!message.seen) {
+        message.seen = true;
+        events.emit(account.id, { type: "message-seen", id, seen: true });
+      }
+      return { ...message };
+    },
+
+    async peekMessage(token, id) {
+      return { ...findMessage(accountForToken(token), id) };
+    },
+
+    async deleteMessage(token, id) {
+      const account = accountForToken(token);
+      findMessage(account, id).attachments.forEach((attachment) => attachmentContents.delete(attachment.id));
+      sources.delete(id);
+      account.messages = account.messages.filter((m) => m.id !== id);
+      events.emit(account.id, { type: "message-deleted", id });
+    },
+
+    async setSeen(token, id, seen) {
+      const account = accountForToken(token);
+      const message = findMessage(account, id);
+      if (message.seen === seen) return;
+      message.seen = seen;
+      events.emit(account.id, { type: "message-seen", id, seen });
+    },
+
+    async getAttachment(token, messageId, attachmentId) {
+      const message = findMessage(accountForToken(token), messageId);
+      const attachment = message.attachments.find((a) => a.id === attachmentId);
+      const content = attachment && attachmentContents.get(attachment.id);
+      if (!attachment || !content) throw new ProviderError(404, "Attachment not found");
+      return { ...attachment, stream: Readable.from([content]) };
+    },
+
+    async getSource(token, id) {
+      const message = findMessage(accountForToken(token), id);
+      return sources.get(id) ?? buildRawMessage(message, attachmentContents);
+    },
+
+    async subscribe(token, listener) {
+      return events.subscribe(accountForToken(token).id, listener);
+    },
+
+    deliver(address, incoming) {
+      const account = accounts.get(normalizeAddress(address));
+      if (!account) throw new ProviderError(404, `No inbox for ${address}`);
+      const text = incoming.text || "";
+      const attachments = (incoming.attachments || []).map((attachment) => {
+        const id = randomUUID();
+        const content = Buffer.from(attachment.content);
+        attachmentContents.set(id, content);
+        return {
+          id,
+          filename: attachment.filename,
+          contentType: attachment.contentType,
+          size: content.length,
+          disposition: attachment.disposition || "attachment",
+          contentId: attachment.contentId,
+        };
+      });
+      const message: MailMessageDetail = {
+        id: randomUUID(),
+        from: incoming.from,
+        to: [{ address: account.address, name: "" }],
+        subject: incoming.subject || "",
+        intro: toIntro(text),
+        seen: false,
+        hasAttachments: attachments.length > 0,
+        createdAt: new Date().toISOString(),
+        text,
+        html: incoming.html || [],
+        attachments,
+      };
+      if (incoming.raw) sources.set(message.id, incoming.raw);
+      // Newest first, matching mail.tm ordering
+      account.messages.unshift(message);
+      events.emit(account.id, { type: "new-message", message: toSummary(message) });
+      return message;
+    },
+  };
+};
@@ -0,0 +1,47 @@
+import { InboxEvent, InboxListener, MailMessage, MessageFilter } from "./types.ts";
+
+// Helpers shared by the providers that store mail themselves
+
+export const normalizeAddress = (address: string) => (address || "").trim().toLowerCase();
+
+export const domainOf = (address: string) => normalizeAddress(address).split("@")[1] || "";
+
+// Short plain-text preview shown in the inbox list, like mail.tm's `intro`
+export const toIntro = (text: string) => text.replace(/\s+/g, " ").trim().slice(0, 120);
+
+export const isFiltered = (filter: MessageFilter = {}) =>
+  Boolean(filter.q || filter.unread || filter.hasAttachments || filter.since);
+
+// In-process filtering for providers without a query language; `body` defaults to the intro
+export const matchesFilter = (message: MailMessage, filter: MessageFilter = {}, body: string = message.intro) => {
+  if (filter.unread && message.seen) return false;
+  if (filter.hasAttachments && !message.hasAttachments) return false;
+  if (filter.since && Date.parse(message.createdAt) < Date.parse(filter.since)) return false;
+  if (filter.q) {
+    const needle = filter.q.toLowerCase();
+    const haystack = [message.from.address, message.from.name, message.subject, body].join("\n").toLowerCase();
+    if (!haystack.includes(needle)) return false;
+  }
+  return true;
+};
+
+// Per-account event fan-out for providers that know when their own mail changes
+export const createAccountEvents = () => {
+  const listeners = new Map<string, Set<InboxListener>>();
+
+  return {
+    emit(accountId: string, event: InboxEvent) {
+      listeners.get(accountId)?.forEach((listener) => listener(event));
+    },
+
+    subscribe(accountId: string, listener: InboxListener) {
+      const set = listeners.get(accountId) || new Set<InboxListener>();
+      set.add(listener);
+      listeners.set(accountId, set);
+      return () => {
+        set.delete(listener);
+        if (set.size === 0) listeners.delete(accountId);
+      };
+    },
+  };
+};
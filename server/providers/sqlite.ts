@@ -0,0 +1,326 @@
+import Database from "better-sqlite3";
+import { randomBytes, randomUUID, scryptSync, timingSafeEqual } from "crypto";
+import { Readable } from "stream";
+import {
+  InboundMailbox,
+  MailAttachment,
+  MailMessage,
+  MailProvider,
+  MessageFilter,
+  ProviderError,
+} from "./types.ts";
+import { createAccountEvents, domainOf, normalizeAddress, toIntro } from "./shared.ts";
+
+const PAGE_SIZE = 30;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS accounts (
+    id TEXT PRIMARY KEY,
+    address TEXT NOT NULL UNIQUE,
+    password_hash TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS tokens (
+    token TEXT PRIMARY KEY,
+    account_id TEXT NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+    created_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS messages (
+    id TEXT PRIMARY KEY,
+    account_id TEXT NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+    message_id TEXT,
+    from_address TEXT NOT NULL,
+    from_name TEXT NOT NULL,
+    recipients TEXT NOT NULL,
+    subject TEXT NOT NULL,
+    intro TEXT NOT NULL,
+    text TEXT NOT NULL,
+    html TEXT NOT NULL,
+    seen INTEGER NOT NULL DEFAULT 0,
+    size INTEGER NOT NULL,
+    raw BLOB NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS messages_by_account ON messages (account_id, created_at DESC);
+  CREATE TABLE IF NOT EXISTS attachments (
+    id TEXT PRIMARY KEY,
+    message_id TEXT NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+    filename TEXT NOT NULL,
+    content_type TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    disposition TEXT NOT NULL,
+    content_id TEXT,
+    content BLOB NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS attachments_by_message ON attachments (message_id);
+`;
+
+const MESSAGE_COLUMNS = `messages.*,
+  EXISTS (SELECT 1 FROM attachments WHERE attachments.message_id = messages.id) AS has_attachments`;
+
+const ATTACHMENT_COLUMNS = "id, filename, content_type, size, disposition, content_id";
+
+// WHERE clause (and its parameters) for an account's messages matching the inbox filter
+const filterClause = (accountId: string, filter: MessageFilter) => {
+  const conditions = ["account_id = ?"];
+  const params: unknown[] = [accountId];
+  if (filter.q) {
+    const pattern = `%${filter.q.replace(/[\\%_]/g, "\\$&")}%`;
+    const columns = ["from_address", "from_name", "subject", "text"];
+    conditions.push(`(${columns.map((column) => `${column} LIKE ? ESCAPE '\\'`).join(" OR ")})`);
+    params.push(...columns.map(() => pattern));
+  }
+  if (filter.unread) conditions.push("seen = 0");
+  if (filter.hasAttachments) conditions.push("EXISTS (SELECT 1 FROM attachments WHERE attachments.message_id = messages.id)");
+  if (filter.since) {
+    conditions.push("created_at >= ?");
+    params.push(filter.since);
+  }
+  return { where: conditions.join(" AND "), params };
+};
+
+const hashPassword = (password: string) => {
+  const salt = randomBytes(16);
+  return `${salt.toString("hex")}:${scryptSync(password, salt, 32).toString("hex")}`;
+};
+
+const verifyPassword = (password: string, stored: string) => {
+  const [salt, hash] = stored.split(":");
+  const expected = Buffer.from(hash, "hex");
+  const actual = scryptSync(password, Buffer.from(salt, "hex"), expected.length);
+  return timingSafeEqual(actual, expected);
+};
+
+const toMessage = (row: any): MailMessage => ({
+  id: row.id,
+  from: { address: row.from_address, name: row.from_name },
+  to: JSON.parse(row.recipients),
+  subject: row.subject,
+  intro: row.intro,
+  seen: Boolean(row.seen),
+  hasAttachments: Boolean(row.has_attachments),
+  createdAt: row.created_at,
+});
+
+const toAttachment = (row: any): MailAttachment => ({
+  id: row.id,
+  filename: row.filename,
+  contentType: row.content_type,
+  size: row.size,
+  disposition: row.disposition,
+  contentId: row.content_id || undefined,
+});
+
+export type SqliteProvider = MailProvider & InboundMailbox;
+
+// Self-hosted mailboxes: accounts live in SQLite and mail arrives through the SMTP listener
+export const createSqliteProvider = (filename: string, domainNames: string[]): SqliteProvider => {
+  if (domainNames.length === 0) {
+    throw new Error("The sqlite provider needs at least one local domain (LOCAL_DOMAINS)");
+  }
+
+  const db = new Database(filename);
+  db.pragma("journal_mode = WAL");
+  db.pragma("foreign_keys = ON");
+  db.exec(SCHEMA);
+  const events = createAccountEvents();
+
+  const accountForToken = (token: string) => {
+    const row = db
+      .prepare("SELECT accounts.* FROM tokens JOIN accounts ON accounts.id = tokens.account_id WHERE tokens.token = ?")
+      .get(token) as any;
+    if (!row) throw new ProviderError(401, "Invalid JWT Token");
+    return row;
+  };
+
+  const messageRow = (accountId: string, id: string) => {
+    const row = db.prepare(`SELECT ${MESSAGE_COLUMNS} FROM messages WHERE id = ? AND account_id = ?`).get(id, accountId) as any;
+    if (!row) throw new ProviderError(404, "Message not found");
+    return row;
+  };
+
+  const messageDetail = (row: any) => {
+    const attachments = db
+      .prepare(`SELECT ${ATTACHMENT_COLUMNS} FROM attachments WHERE message_id = ? ORDER BY rowid`)
+      .all(row.id);
+    return {
+      ...toMessage(row),
+      text: row.text,
+      html: JSON.parse(row.html),
+      attachments: attachments.map(toAttachment),
+    };
+  };
+
+  const insertMessage = db.prepare(`
+    INSERT INTO messages (id, account_id, message_id, from_address, from_name, recipients, subject, intro, text, html, size, raw, created_at)
+    VALUES (@id, @accountId, @messageId, @fromAddress, @fromName, @recipients, @subject, @intro, @text, @html, @size, @raw, @createdAt)
+  `);
+  const insertAttachment = db.prepare(`
+    INSERT INTO attachments (id, message_id, filename, content_type, size, disposition, content_id, content)
+    VALUES (@id, @messageId, @filename, @contentType, @size, @disposition, @contentId, @content)
+  `);
+
+  return {
+    name: "sqlite",
+
+    localDomains() {
+      return domainNames;
+    },
+
+    async listDomains() {
+      return domainNames.map((domain) => ({ id: domain, domain, isActive: true }));
+    },
+
+    async createAccount(address, password) {
+      const normalized = normalizeAddress(address);
+      const localPart = normalized.split("@")[0];
+      if (!localPart || !domainNames.includes(domainOf(normalized))) {
+        throw new ProviderError(422, "address: This value is not valid.");
+      }
+      if (!password) {
+        throw new ProviderError(422, "password: This value should not be blank.");
+      }
+      const existing = db.prepare("SELECT id FROM accounts WHERE address = ?").get(normalized);
+      if (existing) {
+        throw new ProviderError(422, "address: This value is already used.");
+      }
+      const account = { id: randomUUID(), address: normalized, createdAt: new Date().toISOString() };
+      db.prepare("INSERT INTO accounts (id, address, password_hash, created_at) VALUES (?, ?, ?, ?)")
+        .run(account.id, account.address, hashPassword(password), account.createdAt);
+      return account;
+    },
+
+    async isAddressAvailable(address) {
+      return !db.prepare("SELECT id FROM accounts WHERE address = ?").get(normalizeAddress(address));
+    },
+
+    async getToken(address, password) {
+      const row = db.prepare("SELECT * FROM accounts WHERE address = ?").get(normalizeAddress(address)) as any;
+      if (!row || !password || !verifyPassword(password, row.password_hash)) {
+        throw new ProviderError(401, "Invalid credentials.");
+      }
+      const token = randomBytes(24).toString("hex");
+      db.prepare("INSERT INTO tokens (token, account_id, created_at) VALUES (?, ?, ?)")
+        .run(token, row.id, new Date().toISOString());
+      return { id: row.id, token };
+    },
+
+    async getAccount(token) {
+      const account = accountForToken(token);
+      return { id: account.id, address: account.address, createdAt: account.created_at };
+    },
+
+    async deleteAccount(token, id) {
+      const account = accountForToken(token);
+      if (account.id !== id) throw new ProviderError(403, "Access Denied.");
+      // Tokens, messages and attachments go with it through ON DELETE CASCADE
+      db.prepare("DELETE FROM accounts WHERE id = ?").run(id);
+    },
+
+    async listMessages(token, page = 1, filter = {}) {
+      const account = accountForToken(token);
+      const { where, params } = filterClause(account.id, filter);
+      const rows = db
+        .prepare(`SELECT ${MESSAGE_COLUMNS} FROM messages WHERE ${where} ORDER BY created_at DESC LIMIT ? OFFSET ?`)
+        .all(...params, PAGE_SIZE, (Math.max(page, 1) - 1) * PAGE_SIZE);
+      const { total } = db.prepare(`SELECT COUNT(*) AS total FROM messages WHERE ${where}`).get(...params) as any;
+      return { items: rows.map(toMessage), total };
+    },
+
+    async getMessage(token, id) {
+      const account = accountForToken(token);
+      const row = messageRow(account.id, id);
+      if (!row.seen) {
+        db.prepare("UPDATE messages SET seen = 1 WHERE id = ?").run(id);
+        events.emit(account.id, { type: "message-seen", id, seen: true });
+      }
+      return messageDetail({ ...row, seen: 1 });
+    },
+
+    async peekMessage(token, id) {
+      return messageDetail(messageRow(accountForToken(token).id, id));
+    },
+
+    async deleteMessage(token, id) {
+      const account = accountForToken(token);
+      messageRow(account.id, id);
+      db.prepare("DELETE FROM messages WHERE id = ?").run(id);
+      events.emit(account.id, { type: "message-deleted", id });
+    },
+
+    async setSeen(token, id, seen) {
+      const account = accountForToken(token);
+      if (Boolean(messageRow(account.id, id).seen) === seen) return;
+      db.prepare("UPDATE messages SET seen = ? WHERE id = ?").run(seen ? 1 : 0, id);
+      events.emit(account.id, { type: "message-seen", id, seen });
+    },
+
+    async getAttachment(token, messageId, attachmentId) {
+      const account = accountForToken(token);
+      messageRow(account.id, messageId);
+      const row = db
+        .prepare("SELECT * FROM attachments WHERE id = ? AND message_id = ?")
+        .get(attachmentId, messageId) as any;
+      if (!row) throw new ProviderError(404, "Attachment not found");
+      return { ...toAttachment(row), stream: Readable.from([row.content as Buffer]) };
+    },
+
+    async getSource(token, id) {
+      const account = accountForToken(token);
+      return (messageRow(account.id, id).raw as Buffer).toString("utf8");
+    },
+
+    async subscribe(token, listener) {
+      return events.subscribe(accountForToken(token).id, listener);
+    },
+
+    async checkHealth() {
+      db.prepare("SELECT 1").get();
+    },
+
+    async hasMailbox(address) {
+      return Boolean(db.prepare("SELECT id FROM accounts WHERE address = ?").get(normalizeAddress(address)));
+    },
+
+    async receive(address, message) {
+      const account = db.prepare("SELECT * FROM accounts WHERE address = ?").get(normalizeAddress(address)) as any;
+      if (!account) throw new ProviderError(404, `No inbox for ${address}`);
+
+      const id = randomUUID();
+      const createdAt = new Date().toISOString();
+      db.transaction(() => {
+        insertMessage.run({
+          id,
+          accountId: account.id,
+          messageId: message.messageId || null,
+          fromAddress: message.from.address,
+          fromName: message.from.name,
+          recipients: JSON.stringify(message.to),
+          subject: message.subject,
+          intro: toIntro(message.text),
+          text: message.text,
+          html: JSON.stringify(message.html),
+          size: message.raw.length,
+          raw: message.raw,
+          createdAt,
+        });
+        for (const attachment of message.attachments) {
+          insertAttachment.run({
+            id: randomUUID(),
+            messageId: id,
+            filename: attachment.filename,
+            contentType: attachment.contentType,
+            size: attachment.size,
+            disposition: attachment.disposition,
+            contentId: attachment.contentId || null,
+            content: attachment.content,
+          });
+        }
+      })();
+
+      const stored = toMessage(db.prepare(`SELECT ${MESSAGE_COLUMNS} FROM messages WHERE id = ?`).get(id));
+      events.emit(account.id, { type: "new-message", message: stored });
+      return stored;
+    },
+  };
+};
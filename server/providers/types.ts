@@ -0,0 +1,153 @@
+import { Readable } from "stream";
+
+// Normalized shapes returned by every mail provider, and by the /mail/* routes.
+
+export interface MailDomain {
+  id: string;
+  domain: string;
+  isActive: boolean;
+}
+
+export interface MailAddress {
+  address: string;
+  name: string;
+}
+
+export interface MailAccount {
+  id: string;
+  address: string;
+  createdAt: string;
+}
+
+export interface MailToken {
+  id: string;
+  token: string;
+}
+
+export interface MailMessage {
+  id: string;
+  from: MailAddress;
+  to: MailAddress[];
+  subject: string;
+  intro: string;
+  seen: boolean;
+  hasAttachments: boolean;
+  createdAt: string;
+}
+
+export interface MailAttachment {
+  id: string;
+  filename: string;
+  contentType: string;
+  size: number;
+  disposition: "attachment" | "inline";
+  // Referenced from HTML bodies as cid:<contentId>
+  contentId?: string;
+}
+
+export interface MailMessageDetail extends MailMessage {
+  text: string;
+  html: string[];
+  attachments: MailAttachment[];
+}
+
+export interface AttachmentContent extends MailAttachment {
+  stream: Readable;
+}
+
+export interface MailList<T> {
+  items: T[];
+  total: number;
+}
+
+// Inbox search and quick filters accepted by /mail/messages; `total` counts matches only
+export interface MessageFilter {
+  // Case-insensitive text matched against sender, subject and body
+  q?: string;
+  unread?: boolean;
+  hasAttachments?: boolean;
+  // ISO timestamp; only messages received at or after it
+  since?: string;
+}
+
+// Inbox change notifications, pushed to /mail/events subscribers
+export type InboxEvent =
+  | { type: "new-message"; message: MailMessage }
+  | { type: "message-deleted"; id: string }
+  | { type: "message-seen"; id: string; seen: boolean };
+
+export type InboxListener = (event: InboxEvent) => void;
+
+export interface MailProvider {
+  name: string;
+  listDomains(): Promise<MailDomain[]>;
+  createAccount(address: string, password: string): Promise<MailAccount>;
+  // Whether an address can still be registered, for providers that can tell without creating it
+  isAddressAvailable?(address: string): Promise<boolean>;
+  getToken(address: string, password: string): Promise<MailToken>;
+  // The account a token belongs to
+  getAccount(token: string): Promise<MailAccount>;
+  deleteAccount(token: string, id: string): Promise<void>;
+  listMessages(token: string, page?: number, filter?: MessageFilter): Promise<MailList<MailMessage>>;
+  // Marks the message read, as opening it in a mail client would
+  getMessage(token: string, id: string): Promise<MailMessageDetail>;
+  // Same as getMessage but leaves the read state alone, for reads the owner didn't make
+  peekMessage(token: string, id: string): Promise<MailMessageDetail>;
+  deleteMessage(token: string, id: string): Promise<void>;
+  setSeen(token: string, id: string, seen: boolean): Promise<void>;
+  getAttachment(token: string, messageId: string, attachmentId: string): Promise<AttachmentContent>;
+  // Full RFC 822 source, headers included
+  getSource(token: string, id: string): Promise<string>;
+  // Native push, for providers that can notify on changes; others are polled
+  subscribe?(token: string, listener: InboxListener): Promise<() => void>;
+  // Throws when the backend is unusable, for /health?deep=1 (listDomains is used otherwise)
+  checkHealth?(): Promise<void>;
+}
+
+// Thrown by providers; `status` is the HTTP status the route should answer with.
+export class ProviderError extends Error {
+  status: number;
+  details?: string;
+  // Seconds to wait before retrying, sent as Retry-After (e.g. on 429)
+  retryAfter?: number;
+
+  constructor(status: number, message: string, details?: string, retryAfter?: number) {
+    super(message);
+    this.name = "ProviderError";
+    this.status = status;
+    this.details = details;
+    this.retryAfter = retryAfter;
+  }
+}
+
+// Inbound delivery, implemented by providers that host their own mailboxes
+
+export interface InboundAttachment {
+  filename: string;
+  contentType: string;
+  size: number;
+  disposition: "attachment" | "inline";
+  contentId?: string;
+  content: Buffer;
+}
+
+export interface InboundMessage {
+  messageId?: string;
+  from: MailAddress;
+  to: MailAddress[];
+  subject: string;
+  text: string;
+  html: string[];
+  attachments: InboundAttachment[];
+  date: Date;
+  raw: Buffer;
+}
+
+export interface InboundMailbox {
+  localDomains(): string[];
+  hasMailbox(address: string): Promise<boolean>;
+  receive(address: string, message: InboundMessage): Promise<MailMessage>;
+}
+
+export const isInboundMailbox = (provider: MailProvider): provider is MailProvider & InboundMailbox =>
+  typeof (provider as Partial<InboundMailbox>).receive === "function";
@@ -0,0 +1,53 @@
+import express from "express";
+
+// Fixed-window request counters kept in process memory. Each server instance counts
+// on its own, so behind several instances the effective limit is multiplied.
+
+export interface RateLimiter {
+  // Counts one request for `key`; `retryAfter` (seconds) is set once the limit is hit
+  take(key: string): { allowed: boolean; retryAfter: number };
+}
+
+export const createRateLimiter = (limit: number, windowMs: number = 60000, now: () => number = Date.now): RateLimiter => {
+  const windows = new Map<string, { start: number; count: number }>();
+  let lastPrune = now();
+
+  // Forget keys whose window has passed, at most once per window
+  const prune = (time: number) => {
+    if (time - lastPrune < windowMs) return;
+    lastPrune = time;
+    for (const [key, window] of windows) {
+      if (time - window.start >= windowMs) windows.delete(key);
+    }
+  };
+
+  return {
+    take(key) {
+      const time = now();
+      prune(time);
+      let window = windows.get(key);
+      if (!window || time - window.start >= windowMs) {
+        window = { start: time, count: 0 };
+        windows.set(key, window);
+      }
+      window.count++;
+      const allowed = window.count <= limit;
+      return {
+        allowed,
+        retryAfter: allowed ? 0 : Math.max(Math.ceil((window.start + windowMs - time) / 1000), 1),
+      };
+    },
+  };
+};
+
+// Answers 429 with Retry-After once `key(req)` has used up its limit. Requests for
+// which `key` returns undefined are not counted.
+export const rateLimit = (limiter: RateLimiter, key: (req: express.Request) => string | undefined, message: string) =>
+  (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    const id = key(req);
+    if (id === undefined) return next();
+    const { allowed, retryAfter } = limiter.take(id);
+    if (allowed) return next();
+    res.set("Retry-After", String(retryAfter));
+    res.status(429).json({ error: `${message}. Try again in ${retryAfter}s.`, requestId: res.locals.requestId });
+  };
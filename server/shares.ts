@@ -0,0 +1,152 @@
+import { randomBytes, randomUUID } from "crypto";
+import { MailProvider, MessageFilter, ProviderError } from "./providers/types.ts";
+
+// Read-only share links for /mail/shares. A link carries its own opaque token, which the
+// server maps to the owner's mail token; that one never leaves the server. Links are kept
+// in process memory, so they need the long-running server and do not survive a restart.
+
+export type ShareScope = "inbox" | "message";
+
+interface Share {
+  id: string;
+  token: string;
+  accountId: string;
+  address: string;
+  // The owner's token, refreshed whenever the owner lists their links
+  mailToken: string;
+  scope: ShareScope;
+  messageId?: string;
+  createdAt: string;
+  expiresAt: number;
+}
+
+export const MAX_SHARES_PER_ACCOUNT = 20;
+export const DEFAULT_SHARE_SECONDS = 24 * 60 * 60;
+export const MAX_SHARE_SECONDS = 30 * 24 * 60 * 60;
+
+const toPublic = ({ id, token, scope, messageId, createdAt, expiresAt }: Share) => ({
+  id,
+  token,
+  scope,
+  messageId: messageId ?? null,
+  createdAt,
+  expiresAt: new Date(expiresAt).toISOString(),
+});
+
+export const createShares = (provider: MailProvider) => {
+  const shares = new Map<string, Share>();
+
+  const isLive = (share: Share) => share.expiresAt > Date.now();
+
+  const accountShares = (accountId: string) => {
+    const owned = [];
+    for (const share of shares.values()) {
+      if (!isLive(share)) shares.delete(share.token);
+      else if (share.accountId === accountId) owned.push(share);
+    }
+    return owned;
+  };
+
+  // Expired and revoked links answer exactly like made-up ones
+  const resolve = (shareToken: string) => {
+    const share = shares.get(shareToken);
+    if (!share || !isLive(share)) throw new ProviderError(404, "This share link is invalid or has expired");
+    return share;
+  };
+
+  const readable = (share: Share, messageId: string) => {
+    if (share.scope === "message" && share.messageId !== messageId) throw new ProviderError(404, "Message not found");
+  };
+
+  // Provider calls made on the owner's behalf. A rejected owner token is the link's
+  // problem, not the viewer's: they have no credentials to renew.
+  const upstream = async <T>(share: Share, run: (mailToken: string) => Promise<T>) => {
+    try {
+      return await run(share.mailToken);
+    } catch (error) {
+      if (error instanceof ProviderError && error.status === 401) {
+        throw new ProviderError(410, "The shared inbox is no longer available");
+      }
+      throw error;
+    }
+  };
+
+  return {
+    // { scope: "inbox" | "message", messageId?, expiresIn?: seconds }
+    async create(token: string, { scope = "inbox", messageId, expiresIn = DEFAULT_SHARE_SECONDS }: { scope?: unknown; messageId?: unknown; expiresIn?: unknown }) {
+      if (scope !== "inbox" && scope !== "message") {
+        throw new ProviderError(400, 'The scope must be "inbox" or "message"');
+      }
+      if (typeof expiresIn !== "number" || !(expiresIn >= 60 && expiresIn <= MAX_SHARE_SECONDS)) {
+        throw new ProviderError(400, `The expiresIn field must be between 60 and ${MAX_SHARE_SECONDS} seconds`);
+      }
+      const account = await provider.getAccount(token);
+      if (scope === "message") {
+        if (typeof messageId !== "string" || !messageId) throw new ProviderError(400, "The messageId field is required to share a message");
+        await provider.peekMessage(token, messageId);
+      }
+      if (accountShares(account.id).length >= MAX_SHARES_PER_ACCOUNT) {
+        throw new ProviderError(409, `An inbox can have at most ${MAX_SHARES_PER_ACCOUNT} active share links`);
+      }
+      const share: Share = {
+        id: randomUUID(),
+        token: randomBytes(24).toString("base64url"),
+        accountId: account.id,
+        address: account.address,
+        mailToken: token,
+        scope,
+        messageId: scope === "message" ? (messageId as string) : undefined,
+        createdAt: new Date().toISOString(),
+        expiresAt: Date.now() + expiresIn * 1000,
+      };
+      shares.set(share.token, share);
+      return toPublic(share);
+    },
+
+    // Also renews the token the account's links read with, e.g. after it expired
+    async list(token: string) {
+      const account = await provider.getAccount(token);
+      const owned = accountShares(account.id);
+      owned.forEach((share) => (share.mailToken = token));
+      return owned.map(toPublic);
+    },
+
+    async revoke(token: string, id: string) {
+      const account = await provider.getAccount(token);
+      const share = accountShares(account.id).find((each) => each.id === id);
+      if (!share) throw new ProviderError(404, "Share link not found");
+      shares.delete(share.token);
+    },
+
+    // Drops every link of a deleted account
+    forgetAccount(accountId: string) {
+      accountShares(accountId).forEach((share) => shares.delete(share.token));
+    },
+
+    describe(shareToken: string) {
+      const { scope, address, messageId, expiresAt } = resolve(shareToken);
+      return { scope, address, messageId: messageId ?? null, expiresAt: new Date(expiresAt).toISOString() };
+    },
+
+    async listMessages(shareToken: string, page: number, filter: MessageFilter) {
+      const share = resolve(shareToken);
+      if (share.scope !== "inbox") throw new ProviderError(403, "This link only shares a single message");
+      return upstream(share, (mailToken) => provider.listMessages(mailToken, page, filter));
+    },
+
+    async getMessage(shareToken: string, messageId: string) {
+      const share = resolve(shareToken);
+      readable(share, messageId);
+      // Viewers read on the owner's behalf without touching their read state
+      return upstream(share, (mailToken) => provider.peekMessage(mailToken, messageId));
+    },
+
+    async getAttachment(shareToken: string, messageId: string, attachmentId: string) {
+      const share = resolve(shareToken);
+      readable(share, messageId);
+      return upstream(share, (mailToken) => provider.getAttachment(mailToken, messageId, attachmentId));
+    },
+  };
+};
+
+export type Shares = ReturnType<typeof createShares>;
@@ -0,0 +1,72 @@
+import { SMTPServer, SMTPServerDataStream } from "smtp-server";
+import { InboundMailbox } from "./providers/types.ts";
+import { domainOf, normalizeAddress } from "./providers/shared.ts";
+import { parseMessage } from "./mime.ts";
+import { logger } from "./logger.ts";
+
+export interface SmtpOptions {
+  port: number;
+  host?: string;
+  maxSize?: number;
+}
+
+const smtpError = (message: string, responseCode: number) =>
+  Object.assign(new Error(message), { responseCode });
+
+const readStream = (stream: SMTPServerDataStream) =>
+  new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+    stream.on("end", () => {
+      if (stream.sizeExceeded) {
+        reject(smtpError("Message exceeds the maximum allowed size", 552));
+      } else {
+        resolve(Buffer.concat(chunks));
+      }
+    });
+    stream.on("error", reject);
+  });
+
+// Receive-only SMTP listener: accepts mail for existing mailboxes on the local domains
+export const startSmtpServer = (mailbox: InboundMailbox, { port, host = "0.0.0.0", maxSize = 10 * 1024 * 1024 }: SmtpOptions) => {
+  const server = new SMTPServer({
+    name: mailbox.localDomains()[0],
+    banner: "KAS Temp Mail",
+    authOptional: true,
+    disabledCommands: ["AUTH", "STARTTLS"],
+    size: maxSize,
+    logger: false,
+
+    onRcptTo(address, session, callback) {
+      const recipient = normalizeAddress(address.address);
+      if (!mailbox.localDomains().includes(domainOf(recipient))) {
+        return callback(smtpError(`Relay access denied for ${recipient}`, 554));
+      }
+      mailbox
+        .hasMailbox(recipient)
+        .then((exists) => callback(exists ? undefined : smtpError(`No such user: ${recipient}`, 550)))
+        .catch((error) => callback(error));
+    },
+
+    onData(stream, session, callback) {
+      readStream(stream)
+        .then(async (raw) => {
+          const message = await parseMessage(raw);
+          for (const recipient of session.envelope.rcptTo) {
+            await mailbox.receive(normalizeAddress(recipient.address), message);
+          }
+          callback();
+        })
+        .catch((error) => {
+          logger.error("SMTP delivery failed", { error });
+          callback(error.responseCode ? error : smtpError("Failed to store message", 451));
+        });
+    },
+  });
+
+  server.on("error", (error) => logger.error("SMTP server error", { error }));
+  server.listen(port, host, () => {
+    logger.info("SMTP receiver listening", { host, port, domains: mailbox.localDomains() });
+  });
+  return server;
+};
@@ -0,0 +1,56 @@
+import { InboxEvents } from "./events.ts";
+import { detached, logger } from "./logger.ts";
+import { MailMessage } from "./providers/types.ts";
+
+export interface AccountWatch {
+  // The most recent token the owner gave us, renewed whenever they call in again
+  token: string;
+  address: string;
+}
+
+interface Watch extends AccountWatch {
+  stop: () => void;
+}
+
+export interface AccountWatchOptions {
+  // Whether the account still has anything (webhooks, forwarding rules) that needs its mail
+  inUse: (accountId: string) => boolean;
+  onNewMessage: (accountId: string, watch: AccountWatch, message: MailMessage) => Promise<void>;
+  // Logged when onNewMessage fails
+  failure: string;
+}
+
+// Keeps one inbox subscription per account for features that act on new mail in the
+// background, so an inbox with several webhooks or rules is only watched once per feature.
+export const createAccountWatches = (events: InboxEvents, { inUse, onNewMessage, failure }: AccountWatchOptions) => {
+  const watches = new Map<string, Watch>();
+
+  return {
+    // (Re)subscribes the account's inbox with the most recent token we were given
+    async watch(accountId: string, address: string, token: string) {
+      if (watches.get(accountId)?.token === token) return;
+      const stop = await detached(() =>
+        events.subscribe(token, (event) => {
+          const current = watches.get(accountId);
+          if (event.type === "new-message" && current) {
+            onNewMessage(accountId, current, event.message).catch((error) => logger.error(failure, { error }));
+          }
+        }),
+      );
+      watches.get(accountId)?.stop();
+      if (!inUse(accountId)) {
+        watches.delete(accountId);
+        return stop();
+      }
+      watches.set(accountId, { token, address, stop });
+    },
+
+    unwatchIfUnused(accountId: string) {
+      if (inUse(accountId)) return;
+      watches.get(accountId)?.stop();
+      watches.delete(accountId);
+    },
+  };
+};
+
+export type AccountWatches = ReturnType<typeof createAccountWatches>;
@@ -0,0 +1,314 @@
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import { LookupAddress } from "dns";
+import { lookup } from "dns/promises";
+import http from "http";
+import https from "https";
+import { BlockList, isIP, LookupFunction } from "net";
+import { InboxEvents } from "./events.ts";
+import { extractFromMessage } from "./extract.ts";
+import { detached, logger } from "./logger.ts";
+import { MailMessage, MailMessageDetail, MailProvider, ProviderError } from "./providers/types.ts";
+import { AccountWatch, createAccountWatches } from "./watches.ts";
+
+// Outbound webhooks for /mail/webhooks: an inbox owner registers URLs that receive a
+// signed POST for every new message. Registrations and delivery logs are kept in process
+// memory, so they need the long-running server and do not survive a restart.
+
+export interface WebhookOptions {
+  // Lets webhooks target loopback and private networks (local development, tests)
+  allowPrivate?: boolean;
+  // Delay before the first retry, doubled with jitter for each further one
+  retryDelayMs?: number;
+  maxAttempts?: number;
+  timeoutMs?: number;
+}
+
+export interface DeliveryAttempt {
+  at: string;
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  event: "message.received" | "webhook.test";
+  messageId?: string;
+  status: "pending" | "succeeded" | "failed";
+  attempts: DeliveryAttempt[];
+  nextAttemptAt?: string;
+  createdAt: string;
+}
+
+interface Webhook {
+  id: string;
+  accountId: string;
+  url: string;
+  secret: string;
+  createdAt: string;
+  // Newest first, capped at MAX_LOGGED_DELIVERIES
+  deliveries: WebhookDelivery[];
+}
+
+export const MAX_WEBHOOKS_PER_ACCOUNT = 5;
+export const SIGNATURE_HEADER = "X-Kasmail-Signature";
+const MAX_LOGGED_DELIVERIES = 50;
+
+const PRIVATE_RANGES = new BlockList();
+for (const [network, prefix] of [["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16], ["172.16.0.0", 12], ["192.168.0.0", 16]] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [["::", 127], ["fc00::", 7], ["fe80::", 10]] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv6");
+}
+
+const isPrivateAddress = (address: string) => {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1];
+  if (mapped) return PRIVATE_RANGES.check(mapped, "ipv4");
+  return PRIVATE_RANGES.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+};
+
+// Receivers recompute the HMAC-SHA256 of `${t}.${body}` with their secret; the timestamp
+// lets them reject replayed deliveries as well as forged ones
+export const signPayload = (secret: string, body: string, timestamp: number) =>
+  `t=${timestamp},v1=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+
+interface Target {
+  url: string;
+  // The checked address the request must connect to; unset when private targets are allowed
+  pinned?: LookupAddress;
+}
+
+// Only public http(s) targets, so webhooks cannot be used to probe our own network.
+// Checked again before every attempt, since DNS answers can change.
+const checkTarget = async (value: unknown, allowPrivate: boolean): Promise<Target> => {
+  let url: URL;
+  try {
+    url = new URL(String(value));
+  } catch (e) {
+    throw new ProviderError(400, "The url field must be an absolute http(s) URL");
+  }
+  if (typeof value !== "string" || !/^https?:$/.test(url.protocol)) {
+    throw new ProviderError(400, "The url field must be an absolute http(s) URL");
+  }
+  if (url.username || url.password) {
+    throw new ProviderError(400, "Webhook URLs cannot contain credentials");
+  }
+  if (allowPrivate) return { url: url.toString() };
+
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(host)
+    ? [{ address: host, family: isIP(host) }]
+    : await lookup(host, { all: true }).catch(() => {
+        throw new ProviderError(400, `Cannot resolve ${host}`);
+      });
+  if (addresses.length === 0 || addresses.some((entry) => isPrivateAddress(entry.address))) {
+    throw new ProviderError(400, "Webhook URLs must point to a public address");
+  }
+  return { url: url.toString(), pinned: addresses[0] };
+};
+
+// POSTs to the target and resolves with the status code. A pinned target connects to the
+// address that was checked rather than resolving the name again, which a rebinding DNS
+// server could answer with a private address the second time.
+const post = ({ url, pinned }: Target, headers: Record<string, string>, body: string, timeoutMs: number) =>
+  new Promise<number>((resolve, reject) => {
+    const pin: LookupFunction | undefined = pinned && ((_hostname, options, callback) =>
+      options.all ? callback(null, [pinned]) : callback(null, pinned.address, pinned.family));
+    const request = (url.startsWith("https:") ? https : http).request(url, {
+      method: "POST",
+      headers: { ...headers, "Content-Length": String(Buffer.byteLength(body)) },
+      lookup: pin,
+      signal: AbortSignal.timeout(timeoutMs),
+    }, (res) => {
+      res.resume();
+      resolve(res.statusCode || 0);
+    });
+    request.on("error", reject);
+    request.end(body);
+  });
+
+const messagePayload = (message: MailMessage & Partial<MailMessageDetail>) => {
+  const text = message.text ?? message.intro;
+  const { codes, links } = extractFromMessage({ subject: message.subject, text, html: message.html });
+  return {
+    id: message.id,
+    from: message.from,
+    to: message.to,
+    subject: message.subject,
+    text,
+    hasAttachments: message.hasAttachments,
+    createdAt: message.createdAt,
+    links,
+    codes,
+  };
+};
+
+const toPublic = ({ id, url, createdAt, deliveries }: Webhook) => ({
+  id,
+  url,
+  createdAt,
+  lastDelivery: deliveries[0] ? { status: deliveries[0].status, createdAt: deliveries[0].createdAt } : null,
+});
+
+export const createWebhooks = (provider: MailProvider, events: InboxEvents, options: WebhookOptions = {}) => {
+  const { allowPrivate = false, retryDelayMs = 5000, maxAttempts = 5, timeoutMs = 10000 } = options;
+  const webhooks = new Map<string, Webhook>();
+
+  const accountHooks = (accountId: string) => [...webhooks.values()].filter((webhook) => webhook.accountId === accountId);
+
+  const ownWebhook = async (token: string, id: string) => {
+    const account = await provider.getAccount(token);
+    const webhook = webhooks.get(id);
+    if (!webhook || webhook.accountId !== account.id) throw new ProviderError(404, "Webhook not found");
+    return webhook;
+  };
+
+  // Sends one attempt and schedules the next one on failure; resolves once this attempt is logged
+  const attempt = async (webhook: Webhook, delivery: WebhookDelivery, payload: object): Promise<void> => {
+    if (!webhooks.has(webhook.id)) return;
+    const body = JSON.stringify({ ...payload, deliveryId: delivery.id });
+    const started = Date.now();
+    const result: DeliveryAttempt = { at: new Date(started).toISOString(), durationMs: 0 };
+    let retryable = true;
+    try {
+      const target = await checkTarget(webhook.url, allowPrivate);
+      // Redirects are not followed
+      const status = await post(target, {
+        "Content-Type": "application/json",
+        "User-Agent": "KAS-Temp-Mail-Webhooks/1.0",
+        "X-Kasmail-Event": delivery.event,
+        "X-Kasmail-Delivery": delivery.id,
+        [SIGNATURE_HEADER]: signPayload(webhook.secret, body, Math.floor(started / 1000)),
+      }, body, timeoutMs);
+      result.statusCode = status;
+      if (status < 200 || status >= 300) {
+        result.error = `Receiver answered ${status}`;
+        // Other 4xx (and redirects) mean the receiver rejects it; trying again won't help
+        retryable = status >= 500 || status === 408 || status === 429;
+      }
+    } catch (error: any) {
+      result.error = error.name === "AbortError" ? `No response within ${timeoutMs}ms` : error.message;
+      retryable = !(error instanceof ProviderError);
+    }
+    result.durationMs = Date.now() - started;
+    delivery.attempts.push(result);
+
+    if (!result.error) {
+      delivery.status = "succeeded";
+      delivery.nextAttemptAt = undefined;
+      return;
+    }
+    if (!retryable || delivery.attempts.length >= maxAttempts) {
+      delivery.status = "failed";
+      delivery.nextAttemptAt = undefined;
+      logger.warn("Webhook delivery failed", { webhookId: webhook.id, deliveryId: delivery.id, attempts: delivery.attempts.length, error: result.error });
+      return;
+    }
+    const delay = Math.round(retryDelayMs * 2 ** (delivery.attempts.length - 1) * (0.5 + Math.random() / 2));
+    delivery.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+    detached(() => setTimeout(() => attempt(webhook, delivery, payload), delay).unref());
+  };
+
+  const dispatch = (webhook: Webhook, event: WebhookDelivery["event"], payload: object, messageId?: string) => {
+    const delivery: WebhookDelivery = {
+      id: randomUUID(),
+      event,
+      messageId,
+      status: "pending",
+      attempts: [],
+      createdAt: new Date().toISOString(),
+    };
+    webhook.deliveries.unshift(delivery);
+    webhook.deliveries.length = Math.min(webhook.deliveries.length, MAX_LOGGED_DELIVERIES);
+    return { delivery, sent: attempt(webhook, delivery, payload) };
+  };
+
+  const onNewMessage = async (accountId: string, watch: AccountWatch, message: MailMessage) => {
+    const hooks = accountHooks(accountId);
+    if (hooks.length === 0) return;
+    // Events only carry the list row; the full text gives better links and codes. Peeking
+    // keeps the message unread for the owner.
+    const detail = await provider.peekMessage(watch.token, message.id).catch((error) => {
+      logger.warn("Webhook message lookup failed", { messageId: message.id, error: error.message });
+      return message;
+    });
+    const payload = {
+      event: "message.received",
+      inbox: { id: accountId, address: watch.address },
+      message: messagePayload(detail),
+    };
+    hooks.forEach((webhook) => dispatch(webhook, "message.received", payload, message.id));
+  };
+
+  // One inbox subscription per account, shared by all of its webhooks
+  const watches = createAccountWatches(events, {
+    inUse: (accountId) => accountHooks(accountId).length > 0,
+    onNewMessage,
+    failure: "Webhook dispatch failed",
+  });
+
+  return {
+    // The secret is only ever returned here
+    async create(token: string, { url, secret }: { url?: unknown; secret?: unknown }) {
+      const account = await provider.getAccount(token);
+      const { url: target } = await checkTarget(url, allowPrivate);
+      if (secret !== undefined && (typeof secret !== "string" || secret.length < 16 || secret.length > 256)) {
+        throw new ProviderError(400, "The secret must be a string of 16 to 256 characters");
+      }
+      if (accountHooks(account.id).length >= MAX_WEBHOOKS_PER_ACCOUNT) {
+        throw new ProviderError(409, `An inbox can have at most ${MAX_WEBHOOKS_PER_ACCOUNT} webhooks`);
+      }
+      const webhook: Webhook = {
+        id: randomUUID(),
+        accountId: account.id,
+        url: target,
+        secret: (secret as string | undefined) || `whsec_${randomBytes(24).toString("hex")}`,
+        createdAt: new Date().toISOString(),
+        deliveries: [],
+      };
+      webhooks.set(webhook.id, webhook);
+      try {
+        await watches.watch(account.id, account.address, token);
+      } catch (error) {
+        webhooks.delete(webhook.id);
+        throw error;
+      }
+      return { ...toPublic(webhook), secret: webhook.secret };
+    },
+
+    // Also renews the token the inbox is watched with, e.g. after it expired
+    async list(token: string) {
+      const account = await provider.getAccount(token);
+      const hooks = accountHooks(account.id);
+      if (hooks.length > 0) await watches.watch(account.id, account.address, token);
+      return hooks.map(toPublic);
+    },
+
+    async remove(token: string, id: string) {
+      const webhook = await ownWebhook(token, id);
+      webhooks.delete(webhook.id);
+      watches.unwatchIfUnused(webhook.accountId);
+    },
+
+    async deliveries(token: string, id: string) {
+      return (await ownWebhook(token, id)).deliveries;
+    },
+
+    // Sends a webhook.test event and resolves with its delivery after the first attempt
+    async test(token: string, id: string) {
+      const webhook = await ownWebhook(token, id);
+      const { delivery, sent } = dispatch(webhook, "webhook.test", { event: "webhook.test", webhookId: webhook.id });
+      await sent;
+      return delivery;
+    },
+
+    // Drops every webhook of a deleted account
+    forgetAccount(accountId: string) {
+      accountHooks(accountId).forEach((webhook) => webhooks.delete(webhook.id));
+      watches.unwatchIfUnused(accountId);
+    },
+  };
+};
+
+export type Webhooks = ReturnType<typeof createWebhooks>;
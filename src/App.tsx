@@ -3,7 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { 
   Mail, 
   RefreshCw, 
@@ -16,193 +16,561 @@ import {
   ExternalLink,
   CheckCircle2,
   AlertCircle,
-  Loader2
+  Loader2,
+  MailOpen,
+  Paperclip,
+  Share2,
+  Bell,
+  BellOff,
+  Reply,
+  Forward,
+  ListFilter,
+  Pin,
+  Languages,
+  X
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
-
-// --- Types ---
-
-interface Domain {
-  id: string;
-  domain: string;
-  isActive: boolean;
-}
-
-interface Account {
-  id: string;
-  address: string;
-  token: string;
-}
-
-interface Message {
-  id: string;
-  from: {
-    address: string;
-    name: string;
-  };
-  subject: string;
-  intro: string;
-  createdAt: string;
-  seen: boolean;
-}
-
-interface MessageDetail extends Message {
-  text: string;
-  html: string[];
-}
-
-// --- Constants ---
-
-const API_BASE = '/api/mail';
+import { Account, ArchiveFormat, Attachment, BulkAction, ImportedArchive, InboxEvent, InboxFilter, InboxRule, Message, MessageDetail, SavedInbox } from './types.ts';
+import { API_BASE, DEFAULT_LIFETIME, PAGE_SIZE } from './config.ts';
+import { useInboxStream } from './hooks/useInboxStream.ts';
+import EmailHtmlView from './components/EmailHtmlView.tsx';
+import AttachmentList from './components/AttachmentList.tsx';
+import MessageSourceView from './components/MessageSourceView.tsx';
+import ExtractedChips from './components/ExtractedChips.tsx';
+import AddressDialog, { CreateAccountOptions } from './components/AddressDialog.tsx';
+import InboxSidebar from './components/InboxSidebar.tsx';
+import InboxFilters, { EMPTY_FILTER, isFilterActive, toMessageOptions } from './components/InboxFilters.tsx';
+import InboxToolbar from './components/InboxToolbar.tsx';
+import ExpiryCountdown from './components/ExpiryCountdown.tsx';
+import ArchiveMenu from './components/ArchiveMenu.tsx';
+import ArchiveViewer from './components/ArchiveViewer.tsx';
+import ShareDialog from './components/ShareDialog.tsx';
+import CategoryBadge from './components/CategoryBadge.tsx';
+import AnalysisPanel from './components/AnalysisPanel.tsx';
+import ComposeDialog from './components/ComposeDialog.tsx';
+import ForwardingDialog from './components/ForwardingDialog.tsx';
+import RulesDialog, { HIGHLIGHT_CLASSES } from './components/RulesDialog.tsx';
+import RelativeTime from './components/RelativeTime.tsx';
+import { useI18n } from './components/I18nProvider.tsx';
+import { useCidImages } from './hooks/useCidImages.ts';
+import { useUnreadCounts } from './hooks/useUnreadCounts.ts';
+import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts.ts';
+import { useMessageAnalysis } from './hooks/useMessageAnalysis.ts';
+import { useUnreadBadge } from './hooks/useUnreadBadge.ts';
+import { useInboxRules } from './hooks/useInboxRules.ts';
+import { loadActiveId, loadInboxes, saveInboxes, saveRules } from './lib/inboxStore.ts';
+import { evaluateRules, orderMessages } from './lib/inboxRules.ts';
+import { describeError, Locale, LOCALES } from './lib/i18n.ts';
+import { fetchAttachment, saveBlob } from './lib/attachments.ts';
+import { loadNotifyEnabled, notificationsSupported, notifyNewMessage, OpenMessageRequest, openRequestFromUrl, purgeCachedMail, setNotifyEnabled } from './lib/pwa.ts';
+import { AuthExpiredError, MailApiError, mailClient, RateLimitError } from './lib/mailClient.ts';
 
 // --- App Component ---
 
 export default function App() {
-  const [account, setAccount] = useState<Account | null>(null);
+  const { t, locale, setLocale, formatRelative, formatDateTime, formatDuration } = useI18n();
+  const [inboxes, setInboxes] = useState<SavedInbox[]>(loadInboxes);
+  const [activeId, setActiveId] = useState<string | null>(loadActiveId);
   const [messages, setMessages] = useState<Message[]>([]);
+  const [total, setTotal] = useState(0);
+  const [filter, setFilter] = useState<InboxFilter>(EMPTY_FILTER);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [checkedIds, setCheckedIds] = useState<Set<string>>(new Set());
+  const [bulkBusy, setBulkBusy] = useState(false);
   const [selectedMessage, setSelectedMessage] = useState<MessageDetail | null>(null);
   const [loading, setLoading] = useState(false);
   const [fetchingMessages, setFetchingMessages] = useState(false);
   const [copied, setCopied] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  // The error toast's error; translated when shown, so it follows language switches
+  const [error, setError] = useState<unknown>(null);
+  const [viewerTab, setViewerTab] = useState<'message' | 'source'>('message');
+  const [showAddressDialog, setShowAddressDialog] = useState(false);
+  const [archive, setArchive] = useState<ImportedArchive | null>(null);
+  // Open share dialog: for the whole inbox, or for one message when set
+  const [sharing, setSharing] = useState<{ message?: { id: string; subject: string } } | null>(null);
+  // Whether the server has an SMTP relay for replies and forwards; null until probed
+  const [outboundEnabled, setOutboundEnabled] = useState<boolean | null>(null);
+  const [composing, setComposing] = useState<'reply' | 'forward' | null>(null);
+  const [showForwarding, setShowForwarding] = useState(false);
+  const [showRules, setShowRules] = useState(false);
+  const [notify, setNotify] = useState(loadNotifyEnabled);
+  // The latest new mail, for the screen reader announcement
+  const [liveNews, setLiveNews] = useState<{ count: number; latest: Message } | null>(null);
+  // A message to open once its inbox is active, from a notification click
+  const [openRequest, setOpenRequest] = useState<OpenMessageRequest | null>(openRequestFromUrl);
+  // Falls back to the first inbox when the stored active id no longer exists
+  const account = inboxes.find((inbox) => inbox.id === activeId) || inboxes[0] || null;
+  const [rules, setRules] = useInboxRules(account?.id || null);
+  const accountRef = useRef<SavedInbox | null>(null);
+  accountRef.current = account;
+  const filterRef = useRef(filter);
+  filterRef.current = filter;
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+  const loadMoreRef = useRef<HTMLButtonElement>(null);
+  // Inboxes whose self-destruct is under way, so it only starts once
+  const expiringRef = useRef(new Set<string>());
+  const notifyRef = useRef(notify);
+  notifyRef.current = notify;
+  const tRef = useRef(t);
+  tRef.current = t;
+  const listRef = useRef<HTMLDivElement>(null);
+  // Messages already listed once, so each one is announced at most once
+  const knownIdsRef = useRef(new Set<string>());
+  const rulesRef = useRef(rules);
+  rulesRef.current = rules;
+  // Messages an auto-delete rule has sent a DELETE for, so each is tried once
+  const autoDeletedRef = useRef(new Set<string>());
+  // The list as the rules show it: auto-deleted messages hidden, pinned ones first
+  const ruleOutcomes = useMemo(() => evaluateRules(rules, messages), [rules, messages]);
+  const listed = useMemo(() => orderMessages(messages, ruleOutcomes), [messages, ruleOutcomes]);
 
   // --- Helpers ---
 
+  // Lowercase letters and digits from the browser's CSPRNG; bytes past the last whole
+  // multiple of 36 are redrawn so every character is equally likely
   const generateRandomString = (length: number) => {
-    return Math.random().toString(36).substring(2, 2 + length);
+    const alphabet = 'abcdefghijklmnopqrstuvwxyz0123456789';
+    let result = '';
+    while (result.length < length) {
+      for (const byte of crypto.getRandomValues(new Uint8Array(length))) {
+        if (byte < 252 && result.length < length) result += alphabet[byte % alphabet.length];
+      }
+    }
+    return result;
+  };
+
+  // Shows the error toast; API failures carry the request ID users can quote to us
+  const showError = (err: unknown) => setError(err ?? tRef.current('error.generic'));
+
+  const updateInbox = (id: string, patch: Partial<SavedInbox>) => {
+    setInboxes(prev => prev.map(inbox => inbox.id === id ? { ...inbox, ...patch } : inbox));
+  };
+
+  // Adds the account to the saved inboxes (or refreshes it if already saved) and makes it active
+  const saveAccount = (next: Account & Pick<SavedInbox, 'expiresAt' | 'lifetime'>) => {
+    setInboxes(prev => prev.some(inbox => inbox.id === next.id)
+      ? prev.map(inbox => inbox.id === next.id ? { ...inbox, ...next } : inbox)
+      : [...prev, { ...next, label: '', createdAt: new Date().toISOString() }]);
+    setActiveId(next.id);
+    setMessages([]);
+    setTotal(0);
+    setSelectedMessage(null);
   };
 
-  const safeJson = async (response: Response) => {
-    const text = await response.text();
-    if (!text) return {};
+  // Asks the server to delete the account once its lifetime is over. Without the server's
+  // sweeper (e.g. on serverless deployments) only an open tab enforces the timer.
+  const startExpiry = async (token: string, id: string, lifetime: number) => {
     try {
-      return JSON.parse(text);
-    } catch (e) {
-      console.error('Failed to parse JSON:', text);
-      return {};
+      return (await mailClient.setExpiry(token, id, lifetime)).expiresAt;
+    } catch {
+      return new Date(Date.now() + lifetime * 1000).toISOString();
     }
   };
 
-  const createAccount = useCallback(async () => {
-    setLoading(true);
-    setError(null);
-    try {
-      // 1. Get domains
-      const domainsRes = await fetch(`${API_BASE}/domains`);
-      if (!domainsRes.ok) {
-        const errorText = await domainsRes.text();
-        throw new Error(`Domain fetch failed: ${domainsRes.status} ${errorText}`);
-      }
-      
-      const domainsData = await safeJson(domainsRes);
-      
-      if (domainsData.error) {
-        throw new Error(domainsData.error);
+  const createAccount = useCallback(async (options: CreateAccountOptions = {}) => {
+    // 1. Get domains
+    let domain = options.domain;
+    if (!domain) {
+      const members = await mailClient.listDomains();
+      if (members.length === 0) {
+        throw new Error(tRef.current('error.noDomains'));
       }
 
-      const members = domainsData['hydra:member'];
-      if (!members || members.length === 0) {
-        throw new Error('No email domains available at the moment. Please try again later.');
-      }
-      
-      const domain = members[0].domain;
-
-      // 2. Create account
-      const username = `${generateRandomString(10)}`;
-      const password = generateRandomString(12);
-      const address = `${username}@${domain}`;
-
-      const createRes = await fetch(`${API_BASE}/accounts`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ address, password }),
-      });
+      domain = members[0].domain;
+    }
 
-      if (!createRes.ok) {
-        const errorData = await safeJson(createRes);
-        throw new Error(errorData.message || errorData.error || 'Failed to create account');
-      }
-      const accountData = await safeJson(createRes);
+    // 2. Create account
+    const username = options.username || generateRandomString(10);
+    const password = options.password || generateRandomString(12);
+    const address = `${username}@${domain}`;
 
-      // 3. Get token
-      const tokenRes = await fetch(`${API_BASE}/token`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ address, password }),
-      });
+    let accountData;
+    try {
+      accountData = await mailClient.createAccount(address, password);
+    } catch (err: any) {
+      throw new Error(/already used/i.test(err.message) ? tRef.current('error.addressTaken', { address }) : err.message);
+    }
 
-      if (!tokenRes.ok) {
-        const errorData = await safeJson(tokenRes);
-        throw new Error(errorData.message || errorData.error || 'Failed to get token');
-      }
-      const tokenData = await safeJson(tokenRes);
-      const token = tokenData.token;
+    // 3. Get token
+    const { token } = await mailClient.getToken(address, password);
 
-      if (!token) throw new Error('Token not received from server');
+    // 4. Start the self-destruct timer
+    const lifetime = options.lifetime === undefined ? DEFAULT_LIFETIME : options.lifetime;
+    const expiresAt = lifetime ? await startExpiry(token, accountData.id, lifetime) : null;
 
-      const newAccount = { id: accountData.id, address, token };
-      setAccount(newAccount);
-      localStorage.setItem('kas_temp_mail_account', JSON.stringify(newAccount));
-      setMessages([]);
+    saveAccount({ id: accountData.id, address, token, password, expiresAt, lifetime });
+  }, []);
+
+  const loginAccount = useCallback(async (address: string, password: string) => {
+    const { id, token } = await mailClient.getToken(address, password);
+    // Picks up a timer set from another browser; a saved inbox keeps its own otherwise
+    const { expiresAt } = await mailClient.getExpiry(token, id).catch(() => ({ expiresAt: null }));
+    saveAccount({ id, address, token, password, ...(expiresAt && { expiresAt }) });
+  }, []);
+
+  const createRandomAccount = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      await createAccount();
     } catch (err: any) {
-      setError(err.message || 'An error occurred');
+      showError(err);
     } finally {
       setLoading(false);
     }
+  }, [createAccount]);
+
+  // Runs a client call with the given inbox's token (the active inbox by default),
+  // renewing an expired token from the saved password once
+  const withToken = useCallback(async <T,>(run: (token: string) => Promise<T>, current: SavedInbox | null = accountRef.current): Promise<T> => {
+    if (!current) throw new Error(tRef.current('error.noInbox'));
+    try {
+      return await run(current.token);
+    } catch (err) {
+      if (!(err instanceof AuthExpiredError) || !current.password) throw err;
+      const { token } = await mailClient.getToken(current.address, current.password);
+      updateInbox(current.id, { token });
+      // Offline copies under the old token could never be read again
+      purgeCachedMail([current.token]);
+      return run(token);
+    }
   }, []);
 
-  const fetchMessages = useCallback(async () => {
-    if (!account) return;
+  // Announces unread mail the active inbox did not list before to screen readers, and
+  // notifies about it while the user is looking elsewhere. `quietly` only records it,
+  // e.g. on an inbox's first load.
+  const announce = useCallback((items: Message[], quietly = false) => {
+    const current = accountRef.current;
+    const fresh = items.filter(m => !knownIdsRef.current.has(m.id));
+    fresh.forEach(m => knownIdsRef.current.add(m.id));
+    const unread = fresh.filter(m => !m.seen);
+    if (quietly || !current || unread.length === 0) return;
+    setLiveNews({ count: unread.length, latest: unread[0] });
+    if (!notifyRef.current) return;
+    if (document.visibilityState === 'visible' && document.hasFocus()) return;
+    unread.forEach(m => notifyNewMessage(current, m, tRef.current, setOpenRequest).catch(console.error));
+  }, []);
+
+  // Deletes the messages an auto-delete rule matches, and returns the others
+  const applyRules = useCallback((items: Message[]) => {
+    const current = accountRef.current;
+    const outcomes = evaluateRules(rulesRef.current, items);
+    const doomed = items.filter(m => outcomes.get(m.id)?.deleted);
+    for (const { id } of doomed) {
+      if (!current || autoDeletedRef.current.has(id)) continue;
+      autoDeletedRef.current.add(id);
+      withToken((token) => mailClient.deleteMessage(token, id), current)
+        .then(() => {
+          removeMessage(id);
+          setSelectedMessage(prev => prev?.id === id ? null : prev);
+        })
+        .catch(showError);
+    }
+    return items.filter(m => !outcomes.get(m.id)?.deleted);
+  }, [withToken]);
+
+  // Reloads the first page. Older pages already loaded are kept unless `reset` is set
+  // (e.g. when the filter changes), so background refreshes don't collapse the list.
+  const fetchMessages = useCallback(async (reset = false) => {
+    const current = accountRef.current;
+    if (!current) return;
     setFetchingMessages(true);
     try {
-      const res = await fetch(`${API_BASE}/messages`, {
-        headers: { Authorization: `Bearer ${account.token}` },
+      const { items, total: count } = await withToken(
+        (token) => mailClient.listMessages(token, toMessageOptions(filterRef.current, 1)),
+        current,
+      );
+      // Drop results for an inbox the user has switched away from meanwhile
+      if (accountRef.current?.id !== current.id) return;
+      announce(applyRules(items), reset);
+      setTotal(count);
+      setMessages(prev => {
+        if (reset || items.length === 0 || items.length >= count) return items;
+        const ids = new Set(items.map(m => m.id));
+        const oldest = items[items.length - 1].createdAt;
+        return [...items, ...prev.filter(m => !ids.has(m.id) && m.createdAt < oldest)];
       });
-      if (!res.ok) throw new Error('Failed to fetch messages');
-      const data = await safeJson(res);
-      setMessages(data['hydra:member'] || []);
     } catch (err: any) {
       console.error(err);
+      // Background refreshes fail quietly, but a rate limit needs the user to slow down
+      if (err instanceof RateLimitError) showError(err);
     } finally {
       setFetchingMessages(false);
     }
-  }, [account]);
+  }, [withToken, announce, applyRules]);
+
+  const loadMore = useCallback(async () => {
+    const current = accountRef.current;
+    if (!current || loadingMore) return;
+    setLoadingMore(true);
+    try {
+      const page = Math.floor(messages.length / PAGE_SIZE) + 1;
+      const { items, total: count } = await withToken(
+        (token) => mailClient.listMessages(token, toMessageOptions(filterRef.current, page)),
+        current,
+      );
+      if (accountRef.current?.id !== current.id) return;
+      applyRules(items);
+      setTotal(count);
+      setMessages(prev => [...prev, ...items.filter(m => !prev.some(p => p.id === m.id))]);
+    } catch (err: any) {
+      showError(err);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [withToken, applyRules, loadingMore, messages.length]);
+
+  // Infinite scroll: load the next page once the "load older" button scrolls into view
+  useEffect(() => {
+    const node = loadMoreRef.current;
+    if (!node) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) loadMore();
+    });
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [loadMore]);
 
   const fetchMessageDetail = async (id: string) => {
     if (!account) return;
     setLoading(true);
     try {
-      const res = await fetch(`${API_BASE}/messages/${id}`, {
-        headers: { Authorization: `Bearer ${account.token}` },
-      });
-      if (!res.ok) throw new Error('Failed to fetch message detail');
-      const data = await safeJson(res);
+      const data = await withToken((token) => mailClient.getMessage(token, id));
       setSelectedMessage(data);
-      
-      // Mark as seen locally
-      setMessages(prev => prev.map(m => m.id === id ? { ...m, seen: true } : m));
+      setViewerTab('message');
+
+      // Persist read state upstream so it survives polls and reloads
+      if (messagesRef.current.find(m => m.id === id)?.seen === false) setSeen(id, true);
     } catch (err: any) {
-      setError(err.message);
+      showError(err);
     } finally {
       setLoading(false);
     }
   };
 
-  const deleteMessage = async (id: string, e: React.MouseEvent) => {
-    e.stopPropagation();
+  const setSeen = async (id: string, seen: boolean) => {
+    const update = (value: boolean) => setMessages(prev => prev.map(m => m.id === id ? { ...m, seen: value } : m));
+    update(seen);
+    try {
+      await withToken((token) => mailClient.setSeen(token, id, seen));
+    } catch (err: any) {
+      update(!seen);
+      showError(err);
+    }
+  };
+
+  const deleteMessage = async (id: string) => {
     if (!account) return;
     try {
-      await fetch(`${API_BASE}/messages/${id}`, {
-        method: 'DELETE',
-        headers: { Authorization: `Bearer ${account.token}` },
-      });
-      setMessages(prev => prev.filter(m => m.id !== id));
+      await withToken((token) => mailClient.deleteMessage(token, id));
+      removeMessage(id);
       if (selectedMessage?.id === id) setSelectedMessage(null);
     } catch (err: any) {
       console.error(err);
     }
   };
 
+  // Applies an action to the given messages, or with no ids to every message in the inbox
+  const runBulkAction = async (action: BulkAction, ids?: string[]) => {
+    setBulkBusy(true);
+    try {
+      const data = await withToken((token) => mailClient.bulk(token, action, ids));
+      const done = new Set<string>(data.succeeded);
+      if (action === 'delete') {
+        setMessages(prev => prev.filter(m => !done.has(m.id)));
+        setSelectedMessage(prev => prev && done.has(prev.id) ? null : prev);
+      } else {
+        setMessages(prev => prev.map(m => done.has(m.id) ? { ...m, seen: action === 'seen' } : m));
+      }
+      setCheckedIds(new Set());
+      if (data.failed.length) showError(t('error.bulkFailed', { count: data.failed.length }));
+      // Resync the total (and filtered views) with the server
+      fetchMessages();
+    } catch (err: any) {
+      showError(err);
+    } finally {
+      setBulkBusy(false);
+    }
+  };
+
+  const toggleChecked = (id: string) => {
+    setCheckedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const emptyInbox = () => {
+    if (!account || !window.confirm(t('confirm.empty', { address: account.address }))) return;
+    runBulkAction('delete');
+  };
+
+  // Opens the message `offset` rows away from the one being read (j/k)
+  const openAdjacent = (offset: number) => {
+    if (listed.length === 0) return;
+    const index = listed.findIndex(m => m.id === selectedMessage?.id);
+    const next = index === -1 ? 0 : Math.min(Math.max(index + offset, 0), listed.length - 1);
+    if (next !== index) fetchMessageDetail(listed[next].id);
+  };
+
+  useKeyboardShortcuts({
+    j: () => openAdjacent(1),
+    k: () => openAdjacent(-1),
+    e: () => {
+      if (selectedMessage) deleteMessage(selectedMessage.id);
+    },
+    u: () => {
+      const current = selectedMessage && messages.find(m => m.id === selectedMessage.id);
+      if (current) setSeen(current.id, !current.seen);
+    },
+  });
+
+  const removeMessage = (id: string) => {
+    if (messagesRef.current.some(m => m.id === id)) setTotal(count => Math.max(count - 1, 0));
+    setMessages(prev => prev.filter(m => m.id !== id));
+  };
+
+  const switchInbox = (id: string) => {
+    if (id === account?.id) return;
+    setActiveId(id);
+    setMessages([]);
+    setTotal(0);
+    setSelectedMessage(null);
+    setCheckedIds(new Set());
+  };
+
+  // Deletes the account upstream and forgets it locally
+  const removeInbox = async (inbox: SavedInbox, expired = false) => {
+    try {
+      await withToken((token) => mailClient.deleteAccount(token, inbox.id), inbox);
+    } catch (err) {
+      // A 404 means the remote account is already gone, so just forget it locally. So does
+      // a 401 for an expired inbox: the server's sweeper deleted it along with its credentials.
+      const gone = err instanceof MailApiError && (err.status === 404 || (expired && err.status === 401));
+      if (!gone) throw err;
+    }
+    const remaining = inboxes.filter(i => i.id !== inbox.id);
+    saveRules(inbox.id, []);
+    // Nothing of a removed inbox stays readable offline; with none left, nothing at all
+    purgeCachedMail(remaining.length > 0 ? [inbox.token] : undefined);
+    setInboxes(remaining);
+    if (inbox.id === accountRef.current?.id) {
+      setActiveId(remaining[0]?.id || null);
+      setMessages([]);
+      setSelectedMessage(null);
+    }
+    if (remaining.length === 0) createRandomAccount();
+  };
+
+  const deleteInbox = async (inbox: SavedInbox) => {
+    if (!window.confirm(t('confirm.deleteInbox', { address: inbox.address }))) return;
+    try {
+      await removeInbox(inbox);
+    } catch (err: any) {
+      showError(err);
+    }
+  };
+
+  // Pushes the self-destruct time back by the inbox's own lifetime
+  const extendInbox = async (inbox: SavedInbox) => {
+    if (!inbox.expiresAt) return;
+    const left = Math.max(Date.parse(inbox.expiresAt) - Date.now(), 0) / 1000;
+    try {
+      const { expiresAt } = await withToken(
+        (token) => mailClient.setExpiry(token, inbox.id, Math.round(left + (inbox.lifetime || DEFAULT_LIFETIME))),
+        inbox,
+      );
+      updateInbox(inbox.id, { expiresAt });
+    } catch (err: any) {
+      showError(err);
+    }
+  };
+
+  const exportInbox = async (format: ArchiveFormat) => {
+    if (!account) return;
+    try {
+      const blob = await withToken((token) => mailClient.exportInbox(token, format));
+      saveBlob(blob, `${account.address}-${new Date().toISOString().slice(0, 10)}.${format}`);
+    } catch (err: any) {
+      showError(err);
+    }
+  };
+
+  // The archive parsers are only downloaded once someone opens an archive
+  const openArchive = async (file: File) => {
+    try {
+      const { readArchive } = await import('./lib/archive.ts');
+      setArchive(await readArchive(file, tRef.current));
+    } catch (err: any) {
+      showError(err);
+    }
+  };
+
+  const focusRow = (id: string) =>
+    listRef.current?.querySelector<HTMLElement>(`[data-message-row="${CSS.escape(id)}"]`)?.focus();
+
+  // Inbox rows: arrow keys, Home and End move between them, Enter or Space opens one and
+  // Delete removes it, focusing its neighbour
+  const onRowKeyDown = (e: React.KeyboardEvent<HTMLElement>, index: number) => {
+    if (e.target !== e.currentTarget) return;
+    const to = (i: number) => listed[Math.min(Math.max(i, 0), listed.length - 1)];
+    switch (e.key) {
+      case 'ArrowDown':
+        focusRow(to(index + 1).id);
+        break;
+      case 'ArrowUp':
+        focusRow(to(index - 1).id);
+        break;
+      case 'Home':
+        focusRow(to(0).id);
+        break;
+      case 'End':
+        focusRow(to(listed.length - 1).id);
+        break;
+      case 'Enter':
+      case ' ':
+        fetchMessageDetail(listed[index].id);
+        break;
+      case 'Delete':
+        if (listed.length > 1) focusRow(to(index === listed.length - 1 ? index - 1 : index + 1).id);
+        deleteMessage(listed[index].id);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  // Moves focus into a message as it opens, so screen readers start reading it. A stable
+  // callback ref runs once per mounted viewer rather than on every render.
+  const focusViewer = useCallback((node: HTMLElement | null) => node?.focus(), []);
+
+  // Closes the viewer and puts focus back on the message's row
+  const closeViewer = () => {
+    const id = selectedMessage?.id;
+    setSelectedMessage(null);
+    if (id) requestAnimationFrame(() => focusRow(id));
+  };
+
+  // Saves the rules and runs them on the loaded messages straight away
+  const updateRules = (next: InboxRule[]) => {
+    rulesRef.current = next;
+    setRules(next);
+    applyRules(messagesRef.current);
+  };
+
+  const toggleNotifications = async () => {
+    const enabled = await setNotifyEnabled(!notify);
+    setNotify(enabled);
+    if (!notify && !enabled) showError(t('error.notificationsBlocked'));
+  };
+
   const copyToClipboard = () => {
     if (!account) return;
     navigator.clipboard.writeText(account.address);
@@ -213,24 +581,125 @@ export default function App() {
   // --- Effects ---
 
   useEffect(() => {
-    const saved = localStorage.getItem('kas_temp_mail_account');
-    if (saved) {
-      setAccount(JSON.parse(saved));
-    } else {
-      createAccount();
+    if (!accountRef.current) createRandomAccount();
+  }, [createRandomAccount]);
+
+  useEffect(() => {
+    saveInboxes(inboxes, account?.id || null);
+  }, [inboxes, account?.id]);
+
+  // Self-destructs the inbox due first, including any that expired while the app was closed
+  useEffect(() => {
+    const due = inboxes
+      .filter(i => i.expiresAt && !expiringRef.current.has(i.id))
+      .sort((a, b) => Date.parse(a.expiresAt!) - Date.parse(b.expiresAt!))[0];
+    if (!due) return;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    // Long delays overflow setTimeout (about 24.8 days), so those wait in steps
+    const wait = () => {
+      const left = Date.parse(due.expiresAt!) - Date.now();
+      if (left > 0) {
+        timer = setTimeout(wait, Math.min(left, 2 ** 31 - 1));
+        return;
+      }
+      expiringRef.current.add(due.id);
+      removeInbox(due, true)
+        .catch(showError)
+        .finally(() => expiringRef.current.delete(due.id));
+    };
+    wait();
+    return () => clearTimeout(timer);
+  }, [inboxes]);
+
+  useEffect(() => {
+    setCheckedIds(new Set());
+    fetchMessages(true);
+  }, [account?.id, filter, fetchMessages]);
+
+  const applyInboxEvent = useCallback((event: InboxEvent) => {
+    switch (event.type) {
+      case 'new-message':
+        // The server decides what matches a search, so refetch instead of guessing
+        if (isFilterActive(filterRef.current)) {
+          fetchMessages();
+          break;
+        }
+        if (messagesRef.current.some(m => m.id === event.message.id)) break;
+        announce(applyRules([event.message]));
+        setTotal(count => count + 1);
+        setMessages(prev => [event.message, ...prev]);
+        break;
+      case 'message-deleted':
+        removeMessage(event.id);
+        setSelectedMessage(prev => prev?.id === event.id ? null : prev);
+        break;
+      case 'message-seen':
+        setMessages(prev => prev.map(m => m.id === event.id ? { ...m, seen: event.seen } : m));
+        break;
     }
-  }, [createAccount]);
+  }, [fetchMessages, announce, applyRules]);
 
+  // The relay is configured server-wide, so one answer settles it for every inbox
   useEffect(() => {
-    if (account) {
-      fetchMessages();
-      const interval = setInterval(fetchMessages, 10000); // Poll every 10s
-      return () => clearInterval(interval);
+    if (!account || outboundEnabled !== null) return;
+    withToken(token => mailClient.listSent(token))
+      .then(() => setOutboundEnabled(true))
+      .catch(err => {
+        if (err instanceof MailApiError && err.status === 501) setOutboundEnabled(false);
+      });
+  }, [account?.id, outboundEnabled, withToken]);
+
+  const loadInlineImage = useCallback(
+    (messageId: string, attachment: Attachment) => withToken((token) => fetchAttachment(messageId, attachment, token)),
+    [withToken],
+  );
+  const selectedHtml = useCidImages(selectedMessage, account?.token, loadInlineImage);
+  const analysisOf = useMessageAnalysis(messages, selectedMessage?.id || null, withToken);
+
+  // Background inboxes are polled; the active one is counted from the live message list
+  const backgroundUnread = useUnreadCounts(inboxes, account?.id || null);
+  const unreadCounts = account
+    ? { ...backgroundUnread, [account.id]: messages.filter(m => !m.seen).length }
+    : backgroundUnread;
+  useUnreadBadge(Object.values(unreadCounts).reduce((sum, count) => sum + count, 0));
+
+  // Clicks on notifications the service worker showed
+  useEffect(() => {
+    const onMessage = (event: MessageEvent) => {
+      const { type, inboxId, messageId } = event.data || {};
+      if (type === 'open-message' && inboxId && messageId) setOpenRequest({ inboxId, messageId });
+    };
+    navigator.serviceWorker?.addEventListener('message', onMessage);
+    return () => navigator.serviceWorker?.removeEventListener('message', onMessage);
+  }, []);
+
+  // Opens the message a notification was clicked for, switching to its inbox first
+  useEffect(() => {
+    if (!openRequest) return;
+    if (window.location.search) window.history.replaceState(null, '', window.location.pathname);
+    if (!inboxes.some(inbox => inbox.id === openRequest.inboxId)) {
+      setOpenRequest(null);
+    } else if (account?.id !== openRequest.inboxId) {
+      switchInbox(openRequest.inboxId);
+    } else {
+      setOpenRequest(null);
+      fetchMessageDetail(openRequest.messageId);
     }
-  }, [account, fetchMessages]);
+  }, [openRequest, account?.id]);
+
+  // Live updates over SSE, falling back to polling every 10s while the stream is down
+  const streamStatus = useInboxStream(
+    account ? `${API_BASE}/events?token=${encodeURIComponent(account.token)}` : null,
+    applyInboxEvent,
+    fetchMessages,
+  );
 
   // --- Render ---
 
+  const toast = error ? describeError(error, t) : null;
+  // The one inbox row reached with Tab; arrow keys move on from there
+  const tabbableRowId = listed.some(m => m.id === selectedMessage?.id) ? selectedMessage!.id : listed[0]?.id;
+
   return (
     <div className="min-h-screen bg-[#F8F9FA] text-[#1A1A1A] font-sans selection:bg-emerald-100 selection:text-emerald-900">
       {/* Header */}
@@ -244,15 +713,37 @@ export default function App() {
           </div>
           <div className="flex items-center gap-4">
             <div className="hidden md:flex items-center gap-6 text-sm font-medium text-gray-500">
-              <span className="flex items-center gap-1.5"><ShieldCheck size={14} className="text-emerald-600" /> Secure</span>
-              <span className="flex items-center gap-1.5"><Clock size={14} className="text-emerald-600" /> Temporary</span>
+              <span className="flex items-center gap-1.5"><ShieldCheck size={14} className="text-emerald-600" /> {t('app.secure')}</span>
+              <span className="flex items-center gap-1.5"><Clock size={14} className="text-emerald-600" /> {t('app.temporary')}</span>
             </div>
+            <label className="flex items-center gap-1 text-gray-500" title={t('app.language')}>
+              <Languages size={16} />
+              <select
+                value={locale}
+                onChange={(e) => setLocale(e.target.value as Locale)}
+                aria-label={t('app.language')}
+                className="bg-transparent text-sm font-medium outline-none cursor-pointer hover:text-emerald-600 focus-visible:ring-2 focus-visible:ring-emerald-500 rounded"
+              >
+                {LOCALES.map(({ code, name }) => <option key={code} value={code} lang={code}>{name}</option>)}
+              </select>
+            </label>
+            {notificationsSupported() && (
+              <button
+                onClick={toggleNotifications}
+                title={t(notify ? 'app.notifyOff' : 'app.notifyOn')}
+                aria-label={t('app.notifyOn')}
+                aria-pressed={notify}
+                className="p-2 text-gray-500 hover:text-emerald-600 hover:bg-emerald-50 rounded-full transition-colors"
+              >
+                {notify ? <Bell size={18} className="text-emerald-600" /> : <BellOff size={18} />}
+              </button>
+            )}
             <button 
-              onClick={createAccount}
+              onClick={() => setShowAddressDialog(true)}
               disabled={loading}
               className="px-4 py-2 bg-black text-white rounded-full text-sm font-semibold hover:bg-gray-800 transition-all active:scale-95 disabled:opacity-50"
             >
-              New Address
+              {t('app.newAddress')}
             </button>
           </div>
         </div>
@@ -270,60 +761,140 @@ export default function App() {
           </div>
 
           <div className="relative z-10">
-            <h2 className="text-sm font-bold uppercase tracking-widest text-emerald-600 mb-4">Your Temporary Email</h2>
+            <h2 id="address-heading" className="text-sm font-bold uppercase tracking-widest text-emerald-600 mb-4">{t('address.heading')}</h2>
             <div className="flex flex-col md:flex-row items-center gap-4">
               <div className="flex-1 w-full relative group">
                 <input 
                   type="text" 
                   readOnly 
-                  value={account?.address || 'Generating...'} 
+                  value={account?.address || t('address.generating')}
+                  aria-labelledby="address-heading"
                   className="w-full bg-gray-50 border-2 border-transparent group-hover:border-emerald-100 focus:border-emerald-500 rounded-2xl px-6 py-4 text-lg md:text-2xl font-mono font-medium transition-all outline-none"
                 />
-                <button 
+                <button
                   onClick={copyToClipboard}
+                  title={t('address.copy')}
+                  aria-label={t('address.copy')}
                   className="absolute right-3 top-1/2 -translate-y-1/2 p-3 bg-white shadow-sm border border-black/5 rounded-xl hover:bg-emerald-50 hover:text-emerald-600 transition-colors"
                 >
                   {copied ? <CheckCircle2 size={20} className="text-emerald-600" /> : <Copy size={20} />}
                 </button>
               </div>
               <button 
-                onClick={fetchMessages}
+                onClick={() => fetchMessages()}
                 disabled={fetchingMessages}
                 className="w-full md:w-auto px-8 py-4 bg-emerald-600 text-white rounded-2xl font-bold flex items-center justify-center gap-2 hover:bg-emerald-700 transition-all active:scale-95 shadow-lg shadow-emerald-200 disabled:opacity-50"
               >
                 <RefreshCw size={20} className={fetchingMessages ? 'animate-spin' : ''} />
-                Refresh
+                {t('address.refresh')}
               </button>
-            </div>
-            {copied && (
-              <motion.p 
-                initial={{ opacity: 0, y: 5 }}
-                animate={{ opacity: 1, y: 0 }}
-                className="text-emerald-600 text-sm font-medium mt-3 flex items-center gap-1"
+              <button
+                onClick={() => setSharing({})}
+                disabled={!account}
+                title={t('address.shareTitle')}
+                className="w-full md:w-auto px-6 py-4 bg-white text-gray-700 border border-black/5 rounded-2xl font-bold flex items-center justify-center gap-2 hover:text-emerald-600 hover:bg-emerald-50 transition-all active:scale-95 disabled:opacity-50"
               >
-                <CheckCircle2 size={14} /> Copied to clipboard!
-              </motion.p>
+                <Share2 size={20} />
+                {t('address.share')}
+              </button>
+              {outboundEnabled && (
+                <button
+                  onClick={() => setShowForwarding(true)}
+                  disabled={!account}
+                  title={t('address.forwardingTitle')}
+                  className="w-full md:w-auto px-6 py-4 bg-white text-gray-700 border border-black/5 rounded-2xl font-bold flex items-center justify-center gap-2 hover:text-emerald-600 hover:bg-emerald-50 transition-all active:scale-95 disabled:opacity-50"
+                >
+                  <Forward size={20} />
+                  {t('address.forwarding')}
+                </button>
+              )}
+            </div>
+            {account?.expiresAt && (
+              <ExpiryCountdown
+                expiresAt={account.expiresAt}
+                extendLabel={formatDuration(account.lifetime || DEFAULT_LIFETIME)}
+                onExtend={() => extendInbox(account)}
+              />
             )}
+            <div role="status">
+              {copied && (
+                <motion.p
+                  initial={{ opacity: 0, y: 5 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className="text-emerald-600 text-sm font-medium mt-3 flex items-center gap-1"
+                >
+                  <CheckCircle2 size={14} /> {t('address.copied')}
+                </motion.p>
+              )}
+            </div>
           </div>
         </motion.div>
 
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+          {/* Saved Inboxes */}
+          <div className="lg:col-span-3">
+            <InboxSidebar
+              inboxes={inboxes}
+              activeId={account?.id || null}
+              unreadCounts={unreadCounts}
+              onSelect={switchInbox}
+              onRename={(id, label) => updateInbox(id, { label })}
+              onDelete={deleteInbox}
+              onAdd={() => setShowAddressDialog(true)}
+            />
+          </div>
+
           {/* Inbox List */}
-          <div className="lg:col-span-5 space-y-4">
+          <div className="lg:col-span-4 space-y-4">
             <div className="flex items-center justify-between px-2">
               <h3 className="font-bold text-lg flex items-center gap-2">
                 <Inbox size={20} className="text-emerald-600" />
-                Inbox
+                {t('inbox.title')}
                 <span className="bg-emerald-100 text-emerald-700 text-xs px-2 py-0.5 rounded-full">
-                  {messages.length}
+                  <span aria-hidden="true">{total}</span>
+                  <span className="sr-only">{t('inbox.total', { count: total })}</span>
                 </span>
               </h3>
-              {fetchingMessages && <Loader2 size={16} className="animate-spin text-gray-400" />}
+              <div className="flex items-center gap-2">
+                {fetchingMessages && <Loader2 size={16} className="animate-spin text-gray-400" />}
+                <button
+                  onClick={() => setShowRules(true)}
+                  disabled={!account}
+                  title={t('inbox.rulesTitle')}
+                  className="px-2.5 py-1.5 rounded-lg text-xs font-bold text-gray-500 hover:text-emerald-600 hover:bg-emerald-50 transition-colors flex items-center gap-1 disabled:opacity-50"
+                >
+                  <ListFilter size={12} /> {t('inbox.rules')}{rules.length > 0 && ` (${rules.filter(r => r.enabled).length})`}
+                </button>
+                <ArchiveMenu canExport={total > 0} onExport={exportInbox} onOpen={openArchive} />
+              </div>
             </div>
 
-            <div className="space-y-3">
+            <InboxFilters filter={filter} onChange={setFilter} />
+
+            {listed.length > 0 && (
+              <InboxToolbar
+                checkedCount={checkedIds.size}
+                allChecked={listed.every(m => checkedIds.has(m.id))}
+                busy={bulkBusy}
+                onToggleAll={() => setCheckedIds(listed.every(m => checkedIds.has(m.id)) ? new Set() : new Set(listed.map(m => m.id)))}
+                onMarkRead={() => runBulkAction('seen', [...checkedIds])}
+                onMarkUnread={() => runBulkAction('unseen', [...checkedIds])}
+                onDelete={() => runBulkAction('delete', [...checkedIds])}
+                onMarkAllRead={() => runBulkAction('seen')}
+                onEmpty={emptyInbox}
+              />
+            )}
+
+            <p id="inbox-keys" className="sr-only">{t('inbox.keys')}</p>
+            <div
+              ref={listRef}
+              className="space-y-3"
+              role={listed.length > 0 ? 'list' : undefined}
+              aria-label={t('inbox.list')}
+              aria-describedby="inbox-keys"
+            >
               <AnimatePresence mode="popLayout">
-                {messages.length === 0 ? (
+                {listed.length === 0 ? (
                   <motion.div 
                     initial={{ opacity: 0 }}
                     animate={{ opacity: 1 }}
@@ -332,11 +903,19 @@ export default function App() {
                     <div className="w-16 h-16 bg-gray-50 rounded-full flex items-center justify-center mx-auto mb-4 text-gray-300">
                       <Inbox size={32} />
                     </div>
-                    <p className="text-gray-500 font-medium">Waiting for incoming emails...</p>
-                    <p className="text-xs text-gray-400 mt-1">Updates automatically every 10 seconds</p>
+                    {isFilterActive(filter) ? (
+                      <p className="text-gray-500 font-medium">{t('inbox.noMatches')}</p>
+                    ) : (
+                      <>
+                        <p className="text-gray-500 font-medium">{t('inbox.waiting')}</p>
+                        <p className="text-xs text-gray-400 mt-1">
+                          {t(streamStatus === 'live' ? 'inbox.live' : 'inbox.polling')}
+                        </p>
+                      </>
+                    )}
                   </motion.div>
                 ) : (
-                  messages.map((msg) => (
+                  listed.map((msg, index) => (
                     <motion.div
                       key={msg.id}
                       layout
@@ -344,24 +923,55 @@ export default function App() {
                       animate={{ opacity: 1, x: 0 }}
                       exit={{ opacity: 0, scale: 0.95 }}
                       onClick={() => fetchMessageDetail(msg.id)}
-                      className={`group relative bg-white border ${selectedMessage?.id === msg.id ? 'border-emerald-500 ring-1 ring-emerald-500' : 'border-black/5'} rounded-2xl p-4 cursor-pointer hover:shadow-md transition-all`}
+                      onKeyDown={(e) => onRowKeyDown(e, index)}
+                      role="listitem"
+                      data-message-row={msg.id}
+                      tabIndex={msg.id === tabbableRowId ? 0 : -1}
+                      aria-current={selectedMessage?.id === msg.id || undefined}
+                      aria-label={t(msg.seen ? 'inbox.row' : 'inbox.rowUnread', {
+                        from: msg.from.name || msg.from.address,
+                        subject: msg.subject || t('inbox.noSubject'),
+                        time: formatRelative(msg.createdAt),
+                      })}
+                      className={`group relative outline-none focus-visible:ring-2 focus-visible:ring-emerald-500 border ${ruleOutcomes.get(msg.id)?.highlight ? HIGHLIGHT_CLASSES[ruleOutcomes.get(msg.id)!.highlight!] : 'bg-white border-black/5'} ${selectedMessage?.id === msg.id ? '!border-emerald-500 ring-1 ring-emerald-500' : ''} rounded-2xl p-4 cursor-pointer hover:shadow-md transition-all`}
                     >
                       <div className="flex items-start justify-between gap-3">
+                        <input
+                          type="checkbox"
+                          checked={checkedIds.has(msg.id)}
+                          onClick={(e) => e.stopPropagation()}
+                          onChange={() => toggleChecked(msg.id)}
+                          className="mt-1 w-4 h-4 accent-emerald-600 cursor-pointer shrink-0"
+                          aria-label={t('inbox.select', { from: msg.from.name || msg.from.address })}
+                        />
                         <div className="flex-1 min-w-0">
                           <div className="flex items-center gap-2 mb-1">
                             {!msg.seen && <div className="w-2 h-2 bg-emerald-500 rounded-full shrink-0" />}
+                            {ruleOutcomes.get(msg.id)?.pinned && <Pin size={12} className="shrink-0 text-sky-600" role="img" aria-label={t('inbox.pinned')} />}
                             <span className="text-sm font-bold text-gray-900 truncate">{msg.from.name || msg.from.address}</span>
+                            <CategoryBadge analysis={analysisOf(msg)} />
+                            {ruleOutcomes.get(msg.id)?.labels.map(label => (
+                              <span key={label} className="shrink-0 px-1.5 py-0.5 rounded-md bg-gray-100 text-gray-600 text-[10px] font-bold">{label}</span>
+                            ))}
                           </div>
-                          <h4 className="text-sm font-medium text-gray-700 truncate mb-1">{msg.subject || '(No Subject)'}</h4>
+                          <h4 className="text-sm font-medium text-gray-700 truncate mb-1 flex items-center gap-1.5">
+                            {msg.hasAttachments && <Paperclip size={12} className="shrink-0 text-gray-400" role="img" aria-label={t('inbox.attachments')} />}
+                            <span className="truncate">{msg.subject || t('inbox.noSubject')}</span>
+                          </h4>
                           <p className="text-xs text-gray-400 line-clamp-1">{msg.intro}</p>
+                          {msg.extracted && (
+                            <div className="mt-2">
+                              <ExtractedChips extracted={msg.extracted} />
+                            </div>
+                          )}
                         </div>
                         <div className="flex flex-col items-end gap-2">
-                          <span className="text-[10px] font-medium text-gray-400 uppercase">
-                            {new Date(msg.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                          </span>
-                          <button 
-                            onClick={(e) => deleteMessage(msg.id, e)}
-                            className="p-2 text-gray-300 hover:text-red-500 hover:bg-red-50 rounded-lg transition-all opacity-0 group-hover:opacity-100"
+                          <RelativeTime date={msg.createdAt} className="text-[10px] font-medium text-gray-400 whitespace-nowrap" />
+                          <button
+                            onClick={(e) => { e.stopPropagation(); deleteMessage(msg.id); }}
+                            aria-label={t('inbox.delete', { from: msg.from.name || msg.from.address })}
+                            title={t('inbox.delete', { from: msg.from.name || msg.from.address })}
+                            className="p-2 text-gray-300 hover:text-red-500 hover:bg-red-50 rounded-lg transition-all opacity-0 group-hover:opacity-100 group-focus-within:opacity-100"
                           >
                             <Trash2 size={14} />
                           </button>
@@ -371,31 +981,87 @@ export default function App() {
                   ))
                 )}
               </AnimatePresence>
+              {messages.length < total && (
+                <button
+                  ref={loadMoreRef}
+                  onClick={loadMore}
+                  disabled={loadingMore}
+                  className="w-full py-3 text-sm font-bold text-gray-500 bg-white border border-black/5 rounded-2xl hover:text-emerald-600 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+                >
+                  {loadingMore && <Loader2 size={14} className="animate-spin" />}
+                  {t('inbox.loadOlder', { count: total - messages.length })}
+                </button>
+              )}
             </div>
           </div>
 
           {/* Message Viewer */}
-          <div className="lg:col-span-7">
+          <div className="lg:col-span-5">
             <AnimatePresence mode="wait">
               {selectedMessage ? (
-                <motion.div 
+                <motion.article
                   key={selectedMessage.id}
                   initial={{ opacity: 0, y: 10 }}
                   animate={{ opacity: 1, y: 0 }}
                   exit={{ opacity: 0, y: -10 }}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Escape') closeViewer();
+                  }}
+                  aria-labelledby="viewer-subject"
                   className="bg-white border border-black/5 rounded-3xl shadow-sm overflow-hidden min-h-[500px] flex flex-col"
                 >
                   <div className="p-6 border-b border-black/5 bg-gray-50/50">
                     <div className="flex justify-between items-start mb-6">
-                      <button 
-                        onClick={() => setSelectedMessage(null)}
+                      <button
+                        onClick={closeViewer}
+                        aria-label={t('viewer.back')}
                         className="lg:hidden p-2 -ml-2 text-gray-500 hover:bg-gray-100 rounded-full"
                       >
                         <ChevronRight className="rotate-180" size={20} />
                       </button>
                       <div className="flex gap-2">
-                        <button 
-                          onClick={(e) => deleteMessage(selectedMessage.id, e as any)}
+                        {outboundEnabled && (
+                          <>
+                            <button
+                              onClick={() => setComposing('reply')}
+                              title={t('viewer.reply')}
+                              aria-label={t('viewer.reply')}
+                              className="p-2.5 text-gray-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-xl transition-all"
+                            >
+                              <Reply size={18} />
+                            </button>
+                            <button
+                              onClick={() => setComposing('forward')}
+                              title={t('viewer.forward')}
+                              aria-label={t('viewer.forward')}
+                              className="p-2.5 text-gray-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-xl transition-all"
+                            >
+                              <Forward size={18} />
+                            </button>
+                          </>
+                        )}
+                        <button
+                          onClick={() => setSharing({ message: { id: selectedMessage.id, subject: selectedMessage.subject } })}
+                          title={t('viewer.share')}
+                          aria-label={t('viewer.share')}
+                          className="p-2.5 text-gray-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-xl transition-all"
+                        >
+                          <Share2 size={18} />
+                        </button>
+                        <button
+                          onClick={() => setSeen(selectedMessage.id, false)}
+                          title={t('viewer.markUnread')}
+                          aria-label={t('viewer.markUnread')}
+                          aria-keyshortcuts="u"
+                          className="p-2.5 text-gray-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-xl transition-all"
+                        >
+                          <MailOpen size={18} />
+                        </button>
+                        <button
+                          onClick={() => deleteMessage(selectedMessage.id)}
+                          title={t('viewer.delete')}
+                          aria-label={t('viewer.delete')}
+                          aria-keyshortcuts="e"
                           className="p-2.5 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-xl transition-all"
                         >
                           <Trash2 size={18} />
@@ -403,44 +1069,85 @@ export default function App() {
                       </div>
                     </div>
                     
-                    <h2 className="text-2xl font-bold text-gray-900 mb-4">{selectedMessage.subject || '(No Subject)'}</h2>
+                    <h2
+                      id="viewer-subject"
+                      ref={focusViewer}
+                      tabIndex={-1}
+                      className="text-2xl font-bold text-gray-900 mb-4 outline-none focus-visible:ring-2 focus-visible:ring-emerald-500 rounded-lg"
+                    >
+                      {selectedMessage.subject || t('inbox.noSubject')}
+                    </h2>
                     
                     <div className="flex items-center gap-3">
-                      <div className="w-10 h-10 bg-emerald-100 rounded-full flex items-center justify-center text-emerald-700 font-bold">
+                      <div aria-hidden="true" className="w-10 h-10 bg-emerald-100 rounded-full flex items-center justify-center text-emerald-700 font-bold">
                         {selectedMessage.from.name?.[0] || (selectedMessage.from.address?.[0] || '?').toUpperCase()}
                       </div>
                       <div>
-                        <p className="text-sm font-bold text-gray-900">{selectedMessage.from.name || 'Unknown'}</p>
+                        <p className="text-sm font-bold text-gray-900">{selectedMessage.from.name || t('viewer.unknownSender')}</p>
                         <p className="text-xs text-gray-500">{selectedMessage.from.address}</p>
                       </div>
-                      <div className="ml-auto text-xs text-gray-400 font-medium">
-                        {new Date(selectedMessage.createdAt).toLocaleString()}
-                      </div>
+                      <time dateTime={selectedMessage.createdAt} className="ml-auto text-xs text-gray-400 font-medium">
+                        {formatDateTime(selectedMessage.createdAt)}
+                      </time>
                     </div>
+
+                    <AnalysisPanel analysis={analysisOf(selectedMessage)} />
+
+                    {selectedMessage.extracted && (
+                      <div className="mt-4">
+                        <ExtractedChips extracted={selectedMessage.extracted} size="md" />
+                      </div>
+                    )}
+                  </div>
+
+                  <div role="tablist" aria-label={t('viewer.tabs')} className="flex gap-1 px-6 pt-3 border-b border-black/5">
+                    {(['message', 'source'] as const).map((tab) => (
+                      <button
+                        key={tab}
+                        onClick={() => setViewerTab(tab)}
+                        role="tab"
+                        aria-selected={viewerTab === tab}
+                        className={`px-3 py-2 text-xs font-bold uppercase tracking-widest border-b-2 -mb-px transition-colors ${viewerTab === tab ? 'border-emerald-500 text-emerald-600' : 'border-transparent text-gray-400 hover:text-gray-600'}`}
+                      >
+                        {t(tab === 'message' ? 'viewer.message' : 'viewer.source')}
+                      </button>
+                    ))}
                   </div>
 
-                  <div className="p-6 flex-1 overflow-auto">
-                    {selectedMessage.html && selectedMessage.html.length > 0 ? (
-                      <div 
-                        className="prose prose-sm max-w-none"
-                        dangerouslySetInnerHTML={{ __html: selectedMessage.html[0] }} 
+                  {viewerTab === 'message' && account && (
+                    <AttachmentList
+                      key={selectedMessage.id}
+                      attachments={selectedMessage.attachments || []}
+                      load={(attachment) => withToken((token) => fetchAttachment(selectedMessage.id, attachment, token))}
+                      onError={showError}
+                    />
+                  )}
+
+                  <div role="tabpanel" className="p-6 flex-1 overflow-auto">
+                    {viewerTab === 'source' && account ? (
+                      <MessageSourceView
+                        key={selectedMessage.id}
+                        messageId={selectedMessage.id}
+                        subject={selectedMessage.subject}
+                        load={(signal) => withToken((token) => mailClient.getSource(token, selectedMessage.id, { signal }))}
+                        onError={showError}
                       />
+                    ) : selectedMessage.html && selectedMessage.html.length > 0 ? (
+                      <EmailHtmlView key={selectedMessage.id} html={selectedHtml} />
                     ) : (
                       <div className="whitespace-pre-wrap text-gray-700 font-sans leading-relaxed">
                         {selectedMessage.text}
                       </div>
                     )}
                   </div>
-                </motion.div>
+                </motion.article>
               ) : (
                 <div className="h-full min-h-[500px] bg-white/50 border border-dashed border-gray-200 rounded-3xl flex flex-col items-center justify-center text-center p-8">
                   <div className="w-20 h-20 bg-white rounded-2xl shadow-sm border border-black/5 flex items-center justify-center mb-6 text-gray-300">
                     <Mail size={40} />
                   </div>
-                  <h3 className="text-xl font-bold text-gray-900 mb-2">Select an email to read</h3>
-                  <p className="text-gray-500 max-w-xs">
-                    Click on any message from the inbox on the left to view its full content here.
-                  </p>
+                  <h3 className="text-xl font-bold text-gray-900 mb-2">{t('viewer.emptyTitle')}</h3>
+                  <p className="text-gray-500 max-w-xs">{t('viewer.emptyBody')}</p>
                 </div>
               )}
             </AnimatePresence>
@@ -458,37 +1165,107 @@ export default function App() {
             <span className="font-bold text-sm tracking-tight">KASMAIL</span>
           </div>
           <p className="text-xs text-gray-400 font-medium">
-            &copy; {new Date().getFullYear()} KAS Temp Mail. All rights reserved. 
-            <span className="mx-2">|</span> 
-            Protecting your digital identity.
+            &copy; {new Date().getFullYear()} KAS Temp Mail. {t('app.rights')}
+            <span className="mx-2">|</span>
+            {t('app.tagline')}
           </p>
           <div className="flex items-center gap-4 text-xs font-bold text-gray-400 uppercase tracking-widest">
-            <a href="#" className="hover:text-emerald-600 transition-colors">Privacy</a>
-            <a href="#" className="hover:text-emerald-600 transition-colors">Terms</a>
+            <a href="#" className="hover:text-emerald-600 transition-colors">{t('app.privacy')}</a>
+            <a href="#" className="hover:text-emerald-600 transition-colors">{t('app.terms')}</a>
             <a href="https://mail.tm" target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 hover:text-emerald-600 transition-colors">
-              API <ExternalLink size={12} />
+              {t('app.api')} <ExternalLink size={12} />
             </a>
           </div>
         </div>
       </footer>
 
-      {/* Error Toast */}
-      <AnimatePresence>
-        {error && (
-          <motion.div 
-            initial={{ opacity: 0, y: 50 }}
-            animate={{ opacity: 1, y: 0 }}
-            exit={{ opacity: 0, y: 50 }}
-            className="fixed bottom-8 left-1/2 -translate-x-1/2 z-[100] bg-red-600 text-white px-6 py-3 rounded-2xl shadow-2xl flex items-center gap-3"
-          >
-            <AlertCircle size={20} />
-            <span className="font-medium">{error}</span>
-            <button onClick={() => setError(null)} className="ml-2 hover:opacity-70">
-              <Trash2 size={16} />
-            </button>
-          </motion.div>
-        )}
-      </AnimatePresence>
+      {sharing && account && (
+        <ShareDialog
+          key={account.id}
+          address={account.address}
+          message={sharing.message}
+          withToken={withToken}
+          onClose={() => setSharing(null)}
+          onError={showError}
+        />
+      )}
+
+      {composing && selectedMessage && account && (
+        <ComposeDialog
+          key={`${composing}:${selectedMessage.id}`}
+          mode={composing}
+          message={selectedMessage}
+          address={account.address}
+          withToken={withToken}
+          onClose={() => setComposing(null)}
+        />
+      )}
+
+      {showForwarding && account && (
+        <ForwardingDialog
+          key={account.id}
+          address={account.address}
+          withToken={withToken}
+          onClose={() => setShowForwarding(false)}
+          onError={showError}
+        />
+      )}
+
+      {showRules && account && (
+        <RulesDialog
+          key={account.id}
+          address={account.address}
+          rules={rules}
+          messages={messages}
+          onChange={updateRules}
+          onClose={() => setShowRules(false)}
+          onError={showError}
+        />
+      )}
+
+      {archive && <ArchiveViewer archive={archive} onClose={() => setArchive(null)} onError={showError} />}
+
+      {showAddressDialog && (
+        <AddressDialog
+          onClose={() => setShowAddressDialog(false)}
+          onCreate={createAccount}
+          onLogin={loginAccount}
+        />
+      )}
+
+      {/* New mail, read out by screen readers */}
+      <div role="status" className="sr-only">
+        {liveNews && t('live.newMail', {
+          count: liveNews.count,
+          from: liveNews.latest.from.name || liveNews.latest.from.address,
+          subject: liveNews.latest.subject || t('inbox.noSubject'),
+        })}
+      </div>
+
+      {/* Error Toast; the alert role has it read out as soon as it appears */}
+      <div role="alert">
+        <AnimatePresence>
+          {toast && (
+            <motion.div
+              initial={{ opacity: 0, y: 50 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: 50 }}
+              className="fixed bottom-8 left-1/2 -translate-x-1/2 z-[100] bg-red-600 text-white px-6 py-3 rounded-2xl shadow-2xl flex items-center gap-3"
+            >
+              <AlertCircle size={20} />
+              <span className="flex flex-col">
+                <span className="font-medium">{toast.message}</span>
+                {toast.requestId && (
+                  <span className="text-xs opacity-80 font-mono select-all">{t('error.requestId', { id: toast.requestId })}</span>
+                )}
+              </span>
+              <button onClick={() => setError(null)} aria-label={t('error.dismiss')} title={t('error.dismiss')} className="ml-2 hover:opacity-70">
+                <X size={16} />
+              </button>
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
     </div>
   );
 }
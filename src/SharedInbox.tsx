@@ -0,0 +1,221 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, Clock, Inbox, Loader2, Lock, Mail, Paperclip } from 'lucide-react';
+import { motion } from 'motion/react';
+import { Message, MessageDetail, SharedInbox as SharedInboxInfo } from './types.ts';
+import EmailHtmlView from './components/EmailHtmlView.tsx';
+import AttachmentList from './components/AttachmentList.tsx';
+import ExtractedChips from './components/ExtractedChips.tsx';
+import RelativeTime from './components/RelativeTime.tsx';
+import { useCidImages } from './hooks/useCidImages.ts';
+import { fetchSharedAttachment } from './lib/attachments.ts';
+import { MailApiError, mailClient } from './lib/mailClient.ts';
+import { describeError, Translate } from './lib/i18n.ts';
+import { useI18n } from './components/I18nProvider.tsx';
+
+// Shared links see new mail by polling: the live stream needs the owner's token
+const POLL_INTERVAL_MS = 15000;
+
+const describeShareError = (err: unknown, t: Translate) =>
+  err instanceof MailApiError && (err.status === 404 || err.status === 410)
+    ? t('shared.invalid')
+    : describeError(err, t).message;
+
+/** The read-only page served at /share/:token. It never marks, deletes or changes anything. */
+export default function SharedInbox({ token }: { token: string }) {
+  const { t, formatDateTime } = useI18n();
+  const [info, setInfo] = useState<SharedInboxInfo | null>(null);
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [selected, setSelected] = useState<MessageDetail | null>(null);
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+  const [error, setError] = useState<unknown>(null);
+
+  const selectedHtml = useCidImages(selected, token, fetchSharedAttachment);
+
+  const openMessage = useCallback(async (id: string) => {
+    setLoadingId(id);
+    try {
+      setSelected(await mailClient.getSharedMessage(token, id));
+    } catch (err) {
+      setError(err);
+    } finally {
+      setLoadingId(null);
+    }
+  }, [token]);
+
+  // Adds mail that arrived since the last look; pages already loaded stay as they are
+  const refresh = useCallback(async () => {
+    try {
+      const list = await mailClient.listSharedMessages(token);
+      setMessages(prev => [...list.items.filter(m => !prev.some(p => p.id === m.id)), ...prev]);
+      setTotal(list.total);
+    } catch (err) {
+      setError(err);
+    }
+  }, [token]);
+
+  const loadMore = async () => {
+    try {
+      const list = await mailClient.listSharedMessages(token, { page: page + 1 });
+      setMessages(prev => [...prev, ...list.items.filter(m => !prev.some(p => p.id === m.id))]);
+      setPage(page + 1);
+    } catch (err) {
+      setError(err);
+    }
+  };
+
+  useEffect(() => {
+    mailClient.getShared(token)
+      .then((shared) => {
+        setInfo(shared);
+        if (shared.scope === 'message' && shared.messageId) openMessage(shared.messageId);
+      })
+      .catch(setError);
+  }, [token, openMessage]);
+
+  useEffect(() => {
+    if (info?.scope !== 'inbox') return;
+    refresh();
+    const timer = setInterval(refresh, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [info?.scope, refresh]);
+
+  const viewer = selected ? (
+    <motion.div
+      key={selected.id}
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white border border-black/5 rounded-3xl shadow-sm overflow-hidden min-h-[500px] flex flex-col"
+    >
+      <div className="p-6 border-b border-black/5 bg-gray-50/50">
+        <h2 className="text-2xl font-bold text-gray-900 mb-4">{selected.subject || t('inbox.noSubject')}</h2>
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-emerald-100 rounded-full flex items-center justify-center text-emerald-700 font-bold">
+            {selected.from.name?.[0] || (selected.from.address?.[0] || '?').toUpperCase()}
+          </div>
+          <div>
+            <p className="text-sm font-bold text-gray-900">{selected.from.name || t('viewer.unknownSender')}</p>
+            <p className="text-xs text-gray-500">{selected.from.address}</p>
+          </div>
+          <div className="ml-auto text-xs text-gray-400 font-medium">{formatDateTime(selected.createdAt)}</div>
+        </div>
+        {selected.extracted && (
+          <div className="mt-4">
+            <ExtractedChips extracted={selected.extracted} size="md" />
+          </div>
+        )}
+      </div>
+      <AttachmentList
+        key={selected.id}
+        attachments={selected.attachments || []}
+        load={(attachment) => fetchSharedAttachment(selected.id, attachment, token)}
+        onError={setError}
+      />
+      <div className="p-6 flex-1 overflow-auto">
+        {selected.html && selected.html.length > 0 ? (
+          <EmailHtmlView key={selected.id} html={selectedHtml} />
+        ) : (
+          <div className="whitespace-pre-wrap text-gray-700 font-sans leading-relaxed">{selected.text}</div>
+        )}
+      </div>
+    </motion.div>
+  ) : (
+    <div className="h-full min-h-[500px] bg-white/50 border border-dashed border-gray-200 rounded-3xl flex flex-col items-center justify-center text-center p-8">
+      {loadingId ? <Loader2 size={32} className="animate-spin text-gray-300" /> : <Mail size={40} className="text-gray-300" />}
+      <p className="text-gray-500 mt-4">{t(info?.scope === 'inbox' ? 'viewer.emptyTitle' : 'shared.loadingMessage')}</p>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-[#F8F9FA] text-[#1A1A1A] font-sans">
+      <header className="sticky top-0 z-50 bg-white/80 backdrop-blur-md border-b border-black/5">
+        <div className="max-w-6xl mx-auto px-4 h-16 flex items-center justify-between">
+          <a href="/" className="flex items-center gap-2">
+            <div className="w-8 h-8 bg-emerald-600 rounded-lg flex items-center justify-center text-white shadow-lg shadow-emerald-200">
+              <Mail size={18} />
+            </div>
+            <span className="font-bold text-xl tracking-tight">KAS<span className="text-emerald-600">MAIL</span></span>
+          </a>
+          <span className="flex items-center gap-1.5 text-xs font-bold uppercase tracking-widest text-gray-500 bg-gray-100 rounded-full px-3 py-1.5">
+            <Lock size={12} /> {t('common.readOnly')}
+          </span>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-4 py-8 md:py-12 space-y-8">
+        {error != null && (
+          <div className="bg-red-50 border border-red-100 text-red-700 rounded-2xl px-5 py-4 flex items-center gap-3">
+            <AlertCircle size={18} className="shrink-0" />
+            <p className="text-sm font-medium">{describeShareError(error, t)}</p>
+          </div>
+        )}
+
+        {info && (
+          <div className="bg-white rounded-3xl p-6 md:p-8 shadow-xl shadow-black/5 border border-black/5">
+            <h2 className="text-sm font-bold uppercase tracking-widest text-emerald-600 mb-2">
+              {t(info.scope === 'inbox' ? 'shared.inbox' : 'shared.message')}
+            </h2>
+            <p className="text-lg md:text-2xl font-mono font-medium break-all">{info.address}</p>
+            <p className="text-xs text-gray-400 mt-2 flex items-center gap-1.5">
+              <Clock size={12} /> {t('shared.expires', { date: formatDateTime(info.expiresAt) })}
+            </p>
+          </div>
+        )}
+
+        {info?.scope === 'inbox' ? (
+          <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+            <div className="lg:col-span-5 space-y-3">
+              <h3 className="font-bold text-lg flex items-center gap-2 px-2">
+                <Inbox size={20} className="text-emerald-600" />
+                {t('inbox.title')}
+                <span className="bg-emerald-100 text-emerald-700 text-xs px-2 py-0.5 rounded-full">{total}</span>
+              </h3>
+              {messages.length === 0 ? (
+                <div className="bg-white border border-dashed border-gray-200 rounded-2xl p-12 text-center text-gray-500 font-medium">
+                  {t('shared.empty')}
+                </div>
+              ) : messages.map((msg) => (
+                <button
+                  key={msg.id}
+                  onClick={() => openMessage(msg.id)}
+                  className={`w-full text-left bg-white border ${selected?.id === msg.id ? 'border-emerald-500 ring-1 ring-emerald-500' : 'border-black/5'} rounded-2xl p-4 hover:shadow-md transition-all`}
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="flex-1 min-w-0">
+                      <span className="text-sm font-bold text-gray-900 truncate block">{msg.from.name || msg.from.address}</span>
+                      <h4 className="text-sm font-medium text-gray-700 truncate flex items-center gap-1.5">
+                        {msg.hasAttachments && <Paperclip size={12} className="shrink-0 text-gray-400" />}
+                        <span className="truncate">{msg.subject || t('inbox.noSubject')}</span>
+                      </h4>
+                      <p className="text-xs text-gray-400 line-clamp-1">{msg.intro}</p>
+                    </div>
+                    {loadingId === msg.id ? (
+                      <Loader2 size={14} className="animate-spin text-gray-400" />
+                    ) : (
+                      <RelativeTime date={msg.createdAt} className="text-[10px] font-medium text-gray-400 uppercase" />
+                    )}
+                  </div>
+                </button>
+              ))}
+              {messages.length < total && (
+                <button
+                  onClick={loadMore}
+                  className="w-full py-3 text-sm font-bold text-gray-500 bg-white border border-black/5 rounded-2xl hover:text-emerald-600 transition-colors"
+                >
+                  {t('inbox.loadOlder', { count: total - messages.length })}
+                </button>
+              )}
+            </div>
+            <div className="lg:col-span-7">{viewer}</div>
+          </div>
+        ) : info && viewer}
+      </main>
+    </div>
+  );
+}
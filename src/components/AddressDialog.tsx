@@ -0,0 +1,260 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useId, useState } from 'react';
+import { CheckCircle2, Loader2, X, XCircle } from 'lucide-react';
+import { motion } from 'motion/react';
+import { DEFAULT_LIFETIME, LIFETIMES } from '../config.ts';
+import { Domain } from '../types.ts';
+import { mailClient } from '../lib/mailClient.ts';
+import { describeError, Translate } from '../lib/i18n.ts';
+import { useI18n } from './I18nProvider.tsx';
+import { useDialog } from '../hooks/useDialog.ts';
+
+export interface CreateAccountOptions {
+  domain?: string;
+  username?: string;
+  password?: string;
+  /** Seconds until the inbox self-destructs, or null to keep it. */
+  lifetime?: number | null;
+}
+
+interface AddressDialogProps {
+  onClose: () => void;
+  onCreate: (options: CreateAccountOptions) => Promise<void>;
+  onLogin: (address: string, password: string) => Promise<void>;
+}
+
+type Availability = 'idle' | 'checking' | 'available' | 'taken' | 'unknown';
+
+const USERNAME_PATTERN = /^[a-z0-9](?:[a-z0-9._-]{1,62}[a-z0-9])?$/;
+const MIN_PASSWORD_LENGTH = 6;
+
+const validateUsername = (username: string, t: Translate) => {
+  if (!username) return null;
+  if (username.length < 3) return t('addressDialog.usernameShort');
+  if (username.length > 64) return t('addressDialog.usernameLong');
+  if (!USERNAME_PATTERN.test(username)) return t('addressDialog.usernameChars');
+  return null;
+};
+
+const validatePassword = (password: string, t: Translate) =>
+  password && password.length < MIN_PASSWORD_LENGTH ? t('addressDialog.passwordShort', { count: MIN_PASSWORD_LENGTH }) : null;
+
+const inputClass = 'w-full bg-gray-50 border-2 border-transparent focus:border-emerald-500 rounded-xl px-4 py-2.5 text-sm font-medium outline-none transition-all';
+
+export default function AddressDialog({ onClose, onCreate, onLogin }: AddressDialogProps) {
+  const { t, formatDuration } = useI18n();
+  const { titleId, dialogProps } = useDialog<HTMLFormElement>(onClose);
+  const fieldId = useId();
+  const [mode, setMode] = useState<'create' | 'login'>('create');
+  const [domains, setDomains] = useState<Domain[]>([]);
+  const [domain, setDomain] = useState('');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [lifetime, setLifetime] = useState<number | null>(DEFAULT_LIFETIME);
+  const [address, setAddress] = useState('');
+  const [availability, setAvailability] = useState<Availability>('idle');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+
+  const usernameError = validateUsername(username, t);
+  const passwordError = validatePassword(password, t);
+
+  useEffect(() => {
+    mailClient.listDomains()
+      .then((items) => {
+        const active = items.filter((d) => d.isActive);
+        setDomains(active);
+        setDomain((current) => current || active[0]?.domain || '');
+      })
+      .catch(setError);
+  }, []);
+
+  // Debounced availability check while a custom username is typed
+  useEffect(() => {
+    if (!username || usernameError || !domain) {
+      setAvailability('idle');
+      return;
+    }
+    setAvailability('checking');
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      mailClient.isAddressAvailable(`${username}@${domain}`, { signal: controller.signal })
+        .then((available) => setAvailability(available === true ? 'available' : available === false ? 'taken' : 'unknown'))
+        .catch(() => {
+          if (!controller.signal.aborted) setAvailability('unknown');
+        });
+    }, 400);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [username, domain, usernameError]);
+
+  const canSubmit = mode === 'create'
+    ? Boolean(domain) && !usernameError && !passwordError && availability !== 'taken' && availability !== 'checking'
+    : address.includes('@') && Boolean(password);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      if (mode === 'create') {
+        await onCreate({ domain, username: username || undefined, password: password || undefined, lifetime });
+      } else {
+        await onLogin(address.trim().toLowerCase(), password);
+      }
+      onClose();
+    } catch (err) {
+      setError(err);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-black/30 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <motion.form
+        {...dialogProps}
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        onClick={(e) => e.stopPropagation()}
+        onSubmit={submit}
+        className="w-full max-w-md bg-white rounded-3xl shadow-2xl border border-black/5 p-6 space-y-5"
+      >
+        <h2 id={titleId} className="sr-only">{t('sidebar.add')}</h2>
+        <div className="flex items-center justify-between">
+          <div className="flex gap-1 bg-gray-100 rounded-full p-1">
+            {(['create', 'login'] as const).map((m) => (
+              <button
+                key={m}
+                type="button"
+                onClick={() => { setMode(m); setError(null); setPassword(''); }}
+                className={`px-4 py-1.5 rounded-full text-xs font-bold transition-all ${mode === m ? 'bg-white shadow-sm text-gray-900' : 'text-gray-500'}`}
+              >
+                {t(m === 'create' ? 'addressDialog.create' : 'addressDialog.login')}
+              </button>
+            ))}
+          </div>
+          <button type="button" onClick={onClose} aria-label={t('common.close')} className="p-2 text-gray-400 hover:bg-gray-100 rounded-full">
+            <X size={18} />
+          </button>
+        </div>
+
+        {mode === 'create' ? (
+          <>
+            <div className="space-y-1.5">
+              <label htmlFor={`${fieldId}-username`} className="text-xs font-bold uppercase tracking-widest text-gray-400">{t('addressDialog.address')}</label>
+              <div className="flex items-center gap-2">
+                <input
+                  id={`${fieldId}-username`}
+                  aria-describedby={`${fieldId}-username-hint`}
+                  aria-invalid={Boolean(usernameError) || availability === 'taken'}
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value.toLowerCase())}
+                  placeholder={t('addressDialog.usernamePlaceholder')}
+                  autoFocus
+                  className={`${inputClass} font-mono`}
+                />
+                <span className="text-gray-400 font-bold">@</span>
+                <select value={domain} onChange={(e) => setDomain(e.target.value)} aria-label={t('addressDialog.domain')} className={`${inputClass} font-mono`}>
+                  {domains.map((d) => <option key={d.id} value={d.domain}>{d.domain}</option>)}
+                </select>
+              </div>
+              <div id={`${fieldId}-username-hint`} aria-live="polite">
+                {usernameError ? (
+                  <p className="text-xs text-red-600">{usernameError}</p>
+                ) : availability === 'checking' ? (
+                  <p className="text-xs text-gray-400 flex items-center gap-1"><Loader2 size={12} className="animate-spin" /> {t('addressDialog.checking')}</p>
+                ) : availability === 'available' ? (
+                  <p className="text-xs text-emerald-600 flex items-center gap-1"><CheckCircle2 size={12} /> {t('addressDialog.available')}</p>
+                ) : availability === 'taken' ? (
+                  <p className="text-xs text-red-600 flex items-center gap-1"><XCircle size={12} /> {t('addressDialog.taken')}</p>
+                ) : (
+                  <p className="text-xs text-gray-400">{t('addressDialog.randomHint')}</p>
+                )}
+              </div>
+            </div>
+            <div className="space-y-1.5">
+              <label htmlFor={`${fieldId}-new-password`} className="text-xs font-bold uppercase tracking-widest text-gray-400">{t('addressDialog.password')}</label>
+              <input
+                id={`${fieldId}-new-password`}
+                aria-describedby={`${fieldId}-new-password-hint`}
+                aria-invalid={Boolean(passwordError)}
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder={t('addressDialog.passwordPlaceholder')}
+                autoComplete="new-password"
+                className={inputClass}
+              />
+              {passwordError
+                ? <p id={`${fieldId}-new-password-hint`} className="text-xs text-red-600">{passwordError}</p>
+                : <p id={`${fieldId}-new-password-hint`} className="text-xs text-gray-400">{t('addressDialog.passwordHint')}</p>}
+            </div>
+            <div className="space-y-1.5">
+              <label htmlFor={`${fieldId}-lifetime`} className="text-xs font-bold uppercase tracking-widest text-gray-400">{t('addressDialog.lifetime')}</label>
+              <select
+                id={`${fieldId}-lifetime`}
+                aria-describedby={`${fieldId}-lifetime-hint`}
+                value={lifetime ?? ''}
+                onChange={(e) => setLifetime(e.target.value ? Number(e.target.value) : null)}
+                className={inputClass}
+              >
+                {LIFETIMES.map((seconds) => (
+                  <option key={seconds ?? 'forever'} value={seconds ?? ''}>
+                    {seconds ? formatDuration(seconds) : t('addressDialog.forever')}
+                  </option>
+                ))}
+              </select>
+              <p id={`${fieldId}-lifetime-hint`} className="text-xs text-gray-400">{t('addressDialog.lifetimeHint')}</p>
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="space-y-1.5">
+              <label htmlFor={`${fieldId}-address`} className="text-xs font-bold uppercase tracking-widest text-gray-400">{t('addressDialog.address')}</label>
+              <input
+                id={`${fieldId}-address`}
+                type="email"
+                value={address}
+                onChange={(e) => setAddress(e.target.value)}
+                placeholder="name@domain.com"
+                autoFocus
+                autoComplete="username"
+                className={`${inputClass} font-mono`}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <label htmlFor={`${fieldId}-password`} className="text-xs font-bold uppercase tracking-widest text-gray-400">{t('addressDialog.password')}</label>
+              <input
+                id={`${fieldId}-password`}
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="current-password"
+                className={inputClass}
+              />
+            </div>
+          </>
+        )}
+
+        {error != null && <p role="alert" className="text-sm text-red-600 bg-red-50 rounded-xl px-4 py-2">{describeError(error, t).message}</p>}
+
+        <button
+          type="submit"
+          disabled={!canSubmit || submitting}
+          className="w-full py-3 bg-emerald-600 text-white rounded-2xl font-bold flex items-center justify-center gap-2 hover:bg-emerald-700 transition-all active:scale-95 disabled:opacity-50"
+        >
+          {submitting && <Loader2 size={16} className="animate-spin" />}
+          {t(mode === 'create' ? 'addressDialog.submitCreate' : 'addressDialog.submitLogin')}
+        </button>
+      </motion.form>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { ShieldAlert, Sparkles } from 'lucide-react';
+import { MessageAnalysis } from '../types.ts';
+import CategoryBadge from './CategoryBadge.tsx';
+import { useI18n } from './I18nProvider.tsx';
+
+/** The AI summary of the open message, with a warning when it looks like phishing or spam. */
+export default function AnalysisPanel({ analysis }: { analysis?: MessageAnalysis }) {
+  const { t } = useI18n();
+  if (!analysis) return null;
+  const { risk } = analysis;
+
+  return (
+    <div className="mt-4 space-y-2">
+      {risk.level !== 'low' && (
+        <div role="note" className={`rounded-2xl border px-4 py-3 ${risk.level === 'high' ? 'bg-red-50 border-red-100 text-red-700' : 'bg-amber-50 border-amber-100 text-amber-800'}`}>
+          <p className="text-sm font-bold flex items-center gap-2">
+            <ShieldAlert size={16} className="shrink-0" />
+            {t(risk.level === 'high' ? 'analysis.high' : 'analysis.medium')}
+            <span className="ml-auto text-xs font-medium opacity-70">{t('analysis.score', { score: risk.score })}</span>
+          </p>
+          {risk.reasons.length > 0 && (
+            <ul className="mt-2 ml-6 list-disc text-xs space-y-0.5">
+              {risk.reasons.map((reason) => <li key={reason}>{reason}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+      <div className="flex items-start gap-2 text-sm text-gray-600">
+        <Sparkles size={14} className="shrink-0 mt-1 text-emerald-600" />
+        <span className="sr-only">{t('analysis.summary')}</span>
+        <p className="flex-1">{analysis.summary}</p>
+        <CategoryBadge analysis={analysis} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useRef, useState } from 'react';
+import { Download, FolderOpen, Loader2 } from 'lucide-react';
+import { ArchiveFormat } from '../types.ts';
+import { useI18n } from './I18nProvider.tsx';
+
+interface ArchiveMenuProps {
+  canExport: boolean;
+  onExport: (format: ArchiveFormat) => Promise<void>;
+  onOpen: (file: File) => Promise<void>;
+}
+
+const buttonClass = 'px-2.5 py-1.5 rounded-lg text-xs font-bold text-gray-500 hover:text-emerald-600 hover:bg-emerald-50 transition-colors flex items-center gap-1 disabled:opacity-50';
+
+/** Downloads the inbox as an archive, or opens one exported earlier. */
+export default function ArchiveMenu({ canExport, onExport, onOpen }: ArchiveMenuProps) {
+  const { t } = useI18n();
+  const [busy, setBusy] = useState<ArchiveFormat | 'open' | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const run = async (action: ArchiveFormat | 'open', task: () => Promise<void>) => {
+    setBusy(action);
+    try {
+      await task();
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const icon = (action: ArchiveFormat | 'open') => busy === action
+    ? <Loader2 size={12} className="animate-spin" />
+    : action === 'open' ? <FolderOpen size={12} /> : <Download size={12} />;
+
+  return (
+    <div className="flex items-center gap-1">
+      {(['zip', 'mbox'] as const).map((format) => (
+        <button
+          key={format}
+          onClick={() => run(format, () => onExport(format))}
+          disabled={!canExport || busy !== null}
+          title={t(format === 'zip' ? 'archive.zip' : 'archive.mbox')}
+          className={buttonClass}
+        >
+          {icon(format)} .{format}
+        </button>
+      ))}
+      <button
+        onClick={() => fileRef.current?.click()}
+        disabled={busy !== null}
+        title={t('archive.openTitle')}
+        className={buttonClass}
+      >
+        {icon('open')} {t('archive.open')}
+      </button>
+      <input
+        ref={fileRef}
+        type="file"
+        accept=".zip,.mbox,application/zip,application/mbox"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) run('open', () => onOpen(file));
+        }}
+      />
+    </div>
+  );
+}
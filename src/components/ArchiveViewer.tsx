@@ -0,0 +1,141 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Archive, Lock, Paperclip, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import { ArchivedMessage, ImportedArchive } from '../types.ts';
+import { resolveCidImages } from '../lib/attachments.ts';
+import AttachmentList from './AttachmentList.tsx';
+import EmailHtmlView from './EmailHtmlView.tsx';
+import RelativeTime from './RelativeTime.tsx';
+import { useI18n } from './I18nProvider.tsx';
+import { useDialog } from '../hooks/useDialog.ts';
+
+interface ArchiveViewerProps {
+  archive: ImportedArchive;
+  onClose: () => void;
+  onError: (error: unknown) => void;
+}
+
+const loadFile = (message: ArchivedMessage) => async (attachment: { id: string }) => message.files[attachment.id];
+
+/** Browses an exported archive read-only: nothing here talks to the server. */
+export default function ArchiveViewer({ archive, onClose, onError }: ArchiveViewerProps) {
+  const { t, formatDateTime } = useI18n();
+  const { titleId, dialogProps } = useDialog<HTMLDivElement>(onClose);
+  const [selected, setSelected] = useState<ArchivedMessage>(archive.messages[0]);
+  const [tab, setTab] = useState<'message' | 'headers'>('message');
+  const [html, setHtml] = useState('');
+
+  useEffect(() => {
+    const body = selected.html.join('');
+    setHtml(body);
+    if (!body.includes('cid:')) return;
+    let cancelled = false;
+    resolveCidImages(body, selected.attachments, loadFile(selected)).then((result) => {
+      if (!cancelled) setHtml(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selected]);
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-black/30 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <motion.div
+        {...dialogProps}
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-5xl h-[85vh] bg-white rounded-3xl shadow-2xl border border-black/5 flex flex-col overflow-hidden"
+      >
+        <div className="flex items-center gap-3 px-6 py-4 border-b border-black/5">
+          <div className="w-9 h-9 bg-emerald-100 text-emerald-700 rounded-xl flex items-center justify-center shrink-0">
+            <Archive size={18} />
+          </div>
+          <div className="min-w-0">
+            <h2 id={titleId} className="font-bold text-gray-900 truncate">{archive.filename}</h2>
+            <p className="text-xs text-gray-500 truncate">
+              {archive.address ? `${archive.address} · ` : ''}{t('inbox.total', { count: archive.messages.length })}
+            </p>
+          </div>
+          <span className="ml-auto flex items-center gap-1 text-[10px] font-bold uppercase tracking-widest text-gray-400 bg-gray-100 rounded-full px-2.5 py-1">
+            <Lock size={10} /> {t('common.readOnly')}
+          </span>
+          <button onClick={onClose} aria-label={t('common.close')} className="p-2 text-gray-400 hover:bg-gray-100 rounded-full">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 grid grid-cols-1 md:grid-cols-12">
+          <ul className="md:col-span-4 border-r border-black/5 overflow-auto">
+            {archive.messages.map((message) => (
+              <li key={message.id}>
+                <button
+                  onClick={() => { setSelected(message); setTab('message'); }}
+                  className={`w-full text-left px-5 py-3 border-b border-black/5 transition-colors ${selected.id === message.id ? 'bg-emerald-50' : 'hover:bg-gray-50'}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-bold text-gray-900 truncate">{message.from.name || message.from.address}</span>
+                    <RelativeTime date={message.createdAt} className="text-[10px] font-medium text-gray-400 shrink-0" />
+                  </div>
+                  <p className="text-sm text-gray-700 truncate flex items-center gap-1.5">
+                    {message.hasAttachments && <Paperclip size={12} className="shrink-0 text-gray-400" />}
+                    <span className="truncate">{message.subject || t('inbox.noSubject')}</span>
+                  </p>
+                  <p className="text-xs text-gray-400 line-clamp-1">{message.intro}</p>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="md:col-span-8 flex flex-col min-h-0">
+            <div className="px-6 pt-5 pb-3 border-b border-black/5 bg-gray-50/50">
+              <h2 className="text-xl font-bold text-gray-900 mb-2">{selected.subject || t('inbox.noSubject')}</h2>
+              <div className="flex items-center gap-2 text-xs text-gray-500">
+                <span className="font-bold text-gray-900">{selected.from.name || selected.from.address}</span>
+                {selected.from.name && <span>{selected.from.address}</span>}
+                <span className="ml-auto">{formatDateTime(selected.createdAt)}</span>
+              </div>
+              <div className="flex gap-1 mt-3 -mb-3">
+                {(['message', 'headers'] as const).map((name) => (
+                  <button
+                    key={name}
+                    onClick={() => setTab(name)}
+                    className={`px-3 py-2 text-xs font-bold uppercase tracking-widest border-b-2 transition-colors ${tab === name ? 'border-emerald-500 text-emerald-600' : 'border-transparent text-gray-400 hover:text-gray-600'}`}
+                  >
+                    {t(name === 'message' ? 'viewer.message' : 'archiveViewer.headers')}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {tab === 'message' && (
+              <AttachmentList key={selected.id} attachments={selected.attachments} load={loadFile(selected)} onError={onError} />
+            )}
+
+            <div className="p-6 flex-1 overflow-auto">
+              {tab === 'headers' ? (
+                <dl className="text-xs font-mono space-y-1">
+                  {selected.headers.map((header, index) => (
+                    <div key={index} className="flex gap-2">
+                      <dt className="font-bold text-gray-500 shrink-0">{header.name}:</dt>
+                      <dd className="text-gray-800 break-all">{header.value}</dd>
+                    </div>
+                  ))}
+                </dl>
+              ) : selected.html.length > 0 ? (
+                <EmailHtmlView key={selected.id} html={html} />
+              ) : (
+                <div className="whitespace-pre-wrap text-gray-700 font-sans leading-relaxed">{selected.text}</div>
+              )}
+            </div>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
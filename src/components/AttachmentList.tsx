@@ -0,0 +1,119 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Download, Eye, EyeOff, FileText, Image as ImageIcon, Loader2, Paperclip } from 'lucide-react';
+import { Attachment } from '../types.ts';
+import { formatBytes, isPreviewable, saveBlob } from '../lib/attachments.ts';
+import { useI18n } from './I18nProvider.tsx';
+
+interface AttachmentListProps {
+  attachments: Attachment[];
+  /** Fetches the attachment's bytes, from the server or from an opened archive. */
+  load: (attachment: Attachment) => Promise<Blob>;
+  onError: (error: unknown) => void;
+}
+
+interface Preview {
+  attachment: Attachment;
+  url: string;
+}
+
+export default function AttachmentList({ attachments, load, onError }: AttachmentListProps) {
+  const { t } = useI18n();
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => () => {
+    if (preview) URL.revokeObjectURL(preview.url);
+  }, [preview]);
+
+  const download = async (attachment: Attachment) => {
+    setBusyId(attachment.id);
+    try {
+      saveBlob(await load(attachment), attachment.filename);
+    } catch (err: any) {
+      onError(err);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const togglePreview = async (attachment: Attachment) => {
+    if (preview?.attachment.id === attachment.id) {
+      setPreview(null);
+      return;
+    }
+    setBusyId(attachment.id);
+    try {
+      const blob = await load(attachment);
+      setPreview({ attachment, url: URL.createObjectURL(blob) });
+    } catch (err: any) {
+      onError(err);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="px-6 py-4 border-b border-black/5 space-y-3">
+      <p className="text-xs font-bold uppercase tracking-widest text-gray-400 flex items-center gap-1.5">
+        <Paperclip size={12} /> {t('attachments.count', { count: attachments.length })}
+      </p>
+      <ul className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {attachments.map((attachment) => (
+          <li
+            key={attachment.id}
+            className={`flex items-center gap-3 bg-gray-50 border rounded-xl px-3 py-2 ${preview?.attachment.id === attachment.id ? 'border-emerald-500' : 'border-black/5'}`}
+          >
+            <div className="w-8 h-8 bg-white rounded-lg border border-black/5 flex items-center justify-center text-emerald-600 shrink-0">
+              {attachment.contentType.startsWith('image/') ? <ImageIcon size={16} /> : <FileText size={16} />}
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-gray-900 truncate" title={attachment.filename}>{attachment.filename}</p>
+              <p className="text-[10px] text-gray-400 truncate">{formatBytes(attachment.size)} · {attachment.contentType}</p>
+            </div>
+            {busyId === attachment.id ? (
+              <Loader2 size={16} className="animate-spin text-gray-400" />
+            ) : (
+              <div className="flex gap-1">
+                {isPreviewable(attachment) && (
+                  <button
+                    onClick={() => togglePreview(attachment)}
+                    title={t(preview?.attachment.id === attachment.id ? 'attachments.hidePreview' : 'attachments.preview', { name: attachment.filename })}
+                    aria-label={t(preview?.attachment.id === attachment.id ? 'attachments.hidePreview' : 'attachments.preview', { name: attachment.filename })}
+                    aria-pressed={preview?.attachment.id === attachment.id}
+                    className="p-1.5 text-gray-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-colors"
+                  >
+                    {preview?.attachment.id === attachment.id ? <EyeOff size={14} /> : <Eye size={14} />}
+                  </button>
+                )}
+                <button
+                  onClick={() => download(attachment)}
+                  title={t('attachments.download', { name: attachment.filename })}
+                  aria-label={t('attachments.download', { name: attachment.filename })}
+                  className="p-1.5 text-gray-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-colors"
+                >
+                  <Download size={14} />
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+      {preview && (
+        <div className="bg-gray-50 border border-black/5 rounded-2xl overflow-hidden">
+          {preview.attachment.contentType === 'application/pdf' ? (
+            <iframe title={preview.attachment.filename} src={preview.url} className="w-full h-[500px] border-0" />
+          ) : (
+            <img src={preview.url} alt={preview.attachment.filename} className="max-w-full max-h-[500px] mx-auto" />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
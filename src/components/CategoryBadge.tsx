@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { MessageAnalysis, MessageCategory } from '../types.ts';
+import { useI18n } from './I18nProvider.tsx';
+
+const STYLES: Record<MessageCategory, string> = {
+  verification: 'bg-emerald-50 border-emerald-200 text-emerald-700',
+  newsletter: 'bg-sky-50 border-sky-200 text-sky-700',
+  receipt: 'bg-violet-50 border-violet-200 text-violet-700',
+  marketing: 'bg-amber-50 border-amber-200 text-amber-700',
+  suspicious: 'bg-red-50 border-red-200 text-red-700',
+  other: 'bg-gray-50 border-gray-200 text-gray-500',
+};
+
+/** The AI category of a message as a small pill; risky mail is flagged whatever its category. */
+export default function CategoryBadge({ analysis }: { analysis?: MessageAnalysis }) {
+  const { t } = useI18n();
+  if (!analysis) return null;
+  const category = STYLES[analysis.category] ? analysis.category : 'other';
+  const label = t(`category.${category}`);
+  const risky = analysis.risk.level === 'high' && analysis.category !== 'suspicious';
+
+  return (
+    <span
+      title={analysis.summary}
+      className={`text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 border rounded-full shrink-0 ${risky ? STYLES.suspicious : STYLES[category]}`}
+    >
+      {risky ? t('category.risky', { category: label }) : label}
+    </span>
+  );
+}
@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { Forward, Loader2, Reply, Send, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import { MessageDetail } from '../types.ts';
+import { mailClient } from '../lib/mailClient.ts';
+import { describeError } from '../lib/i18n.ts';
+import { useI18n } from './I18nProvider.tsx';
+import { useDialog } from '../hooks/useDialog.ts';
+
+interface ComposeDialogProps {
+  mode: 'reply' | 'forward';
+  message: MessageDetail;
+  /** The temp address the mail is sent from. */
+  address: string;
+  withToken: <T>(run: (token: string) => Promise<T>) => Promise<T>;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-gray-50 border-2 border-transparent focus:border-emerald-500 rounded-xl px-4 py-2.5 text-sm font-medium outline-none transition-all';
+
+/** Replies to or forwards a message from the temp address; the server quotes the original. */
+export default function ComposeDialog({ mode, message, address, withToken, onClose }: ComposeDialogProps) {
+  const { t } = useI18n();
+  const { titleId, dialogProps } = useDialog<HTMLFormElement>(onClose);
+  const [to, setTo] = useState('');
+  const [replyAll, setReplyAll] = useState(false);
+  const [text, setText] = useState('');
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+
+  const recipients = to.split(/[\s,;]+/).filter(Boolean);
+  const canSend = mode === 'reply' ? Boolean(text.trim()) : recipients.length > 0;
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSend) return;
+    setSending(true);
+    setError(null);
+    try {
+      await withToken((token) => mode === 'reply'
+        ? mailClient.replyToMessage(token, message.id, text, { all: replyAll })
+        : mailClient.forwardMessage(token, message.id, recipients, text || undefined));
+      onClose();
+    } catch (err) {
+      setError(err);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-black/30 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <motion.form
+        {...dialogProps}
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        onClick={(e) => e.stopPropagation()}
+        onSubmit={submit}
+        className="w-full max-w-lg bg-white rounded-3xl shadow-2xl border border-black/5 p-6 space-y-4"
+      >
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <h2 id={titleId} className="font-bold text-lg text-gray-900 flex items-center gap-2">
+              {mode === 'reply' ? <Reply size={18} /> : <Forward size={18} />}
+              {t(mode === 'reply' ? 'compose.reply' : 'compose.forward')}
+            </h2>
+            <p className="text-xs text-gray-500 truncate">{message.subject || t('inbox.noSubject')}</p>
+          </div>
+          <button type="button" onClick={onClose} aria-label={t('common.close')} className="p-2 text-gray-400 hover:bg-gray-100 rounded-full">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="text-xs text-gray-500 space-y-1">
+          <p>{t('compose.from')} <span className="font-mono font-medium text-gray-700">{address}</span></p>
+          {mode === 'reply' && (
+            <p>{t('compose.to')} <span className="font-mono font-medium text-gray-700">{message.from.address}</span></p>
+          )}
+        </div>
+
+        {mode === 'forward' ? (
+          <input
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            placeholder={t('compose.forwardTo')}
+            aria-label={t('compose.forwardTo')}
+            className={inputClass}
+            autoFocus
+          />
+        ) : (
+          <label className="flex items-center gap-2 text-xs font-medium text-gray-600">
+            <input
+              type="checkbox"
+              checked={replyAll}
+              onChange={(e) => setReplyAll(e.target.checked)}
+              className="w-4 h-4 accent-emerald-600"
+            />
+            {t('compose.replyAll')}
+          </label>
+        )}
+
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={t(mode === 'reply' ? 'compose.replyPlaceholder' : 'compose.notePlaceholder')}
+          aria-label={t(mode === 'reply' ? 'compose.replyPlaceholder' : 'compose.notePlaceholder')}
+          rows={6}
+          className={`${inputClass} resize-y`}
+          autoFocus={mode === 'reply'}
+        />
+        <p className="text-[10px] text-gray-400">
+          {t(mode === 'reply' ? 'compose.replyHint' : 'compose.forwardHint')}
+        </p>
+
+        {error != null && <p role="alert" className="text-xs font-medium text-red-600">{describeError(error, t).message}</p>}
+
+        <button
+          type="submit"
+          disabled={!canSend || sending}
+          className="w-full py-3 bg-emerald-600 text-white rounded-xl text-sm font-bold flex items-center justify-center gap-2 hover:bg-emerald-700 transition-all active:scale-95 disabled:opacity-50"
+        >
+          {sending ? <Loader2 size={16} className="animate-spin" /> : <Send size={16} />}
+          {t('compose.send')}
+        </button>
+      </motion.form>
+    </div>
+  );
+}
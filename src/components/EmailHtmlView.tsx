@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useMemo, useRef, useState } from 'react';
+import { ImageOff, ShieldAlert } from 'lucide-react';
+import { sanitizeEmailHtml, StrippedContent } from '../lib/sanitizeEmail.ts';
+import { Translate } from '../lib/i18n.ts';
+import { useI18n } from './I18nProvider.tsx';
+
+interface EmailHtmlViewProps {
+  html: string;
+}
+
+const describeStripped = ({ kind, tag, count }: StrippedContent, t: Translate) =>
+  kind === 'element' ? t('html.element', { count, tag: tag! }) : t(kind === 'handler' ? 'html.handler' : 'html.pixel', { count });
+
+/**
+ * Renders an untrusted HTML body inside a sandboxed iframe. Remote content stays blocked
+ * until the user opts in; mount with `key={messageId}` so the choice is per message.
+ */
+export default function EmailHtmlView({ html }: EmailHtmlViewProps) {
+  const { t } = useI18n();
+  const [allowRemote, setAllowRemote] = useState(false);
+  const [height, setHeight] = useState(400);
+  const frameRef = useRef<HTMLIFrameElement>(null);
+
+  const sanitized = useMemo(() => sanitizeEmailHtml(html, allowRemote), [html, allowRemote]);
+
+  const fitToContent = () => {
+    const doc = frameRef.current?.contentDocument;
+    if (doc) setHeight(Math.max(200, doc.documentElement.scrollHeight));
+  };
+
+  return (
+    <div className="space-y-3">
+      {(sanitized.stripped.length > 0 || sanitized.blockedRemote > 0 || allowRemote) && (
+        <div className="flex flex-wrap items-start gap-3 bg-amber-50 border border-amber-200 text-amber-800 rounded-2xl px-4 py-3 text-xs">
+          <ShieldAlert size={16} className="shrink-0 mt-0.5" />
+          <div className="flex-1 min-w-0 space-y-1">
+            {sanitized.stripped.length > 0 && (
+              <p>
+                <span className="font-bold">{t('html.removed')}</span>{' '}
+                {sanitized.stripped.map((entry) => describeStripped(entry, t)).join(', ')}
+              </p>
+            )}
+            {!allowRemote && sanitized.blockedRemote > 0 && (
+              <p>
+                <span className="font-bold">{t('html.blocked')}</span>{' '}
+                {t('html.blockedItems', { count: sanitized.blockedRemote })}
+              </p>
+            )}
+            {allowRemote && <p>{t('html.loaded')}</p>}
+          </div>
+          {(sanitized.blockedRemote > 0 || allowRemote) && (
+            <button
+              onClick={() => setAllowRemote(!allowRemote)}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-white border border-amber-200 rounded-xl font-bold hover:bg-amber-100 transition-colors"
+            >
+              <ImageOff size={14} />
+              {t(allowRemote ? 'html.block' : 'html.load')}
+            </button>
+          )}
+        </div>
+      )}
+      {/* No allow-scripts: allow-same-origin only lets us measure the content height */}
+      <iframe
+        ref={frameRef}
+        title={t('html.frameTitle')}
+        sandbox="allow-same-origin allow-popups allow-popups-to-escape-sandbox"
+        referrerPolicy="no-referrer"
+        srcDoc={sanitized.document}
+        onLoad={fitToContent}
+        style={{ height }}
+        className="w-full border-0 bg-white"
+      />
+    </div>
+  );
+}
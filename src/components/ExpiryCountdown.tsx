@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Loader2, Timer } from 'lucide-react';
+import { useI18n } from './I18nProvider.tsx';
+
+interface ExpiryCountdownProps {
+  expiresAt: string;
+  /** Shown on the extend button, e.g. "1 hour". */
+  extendLabel: string;
+  onExtend: () => Promise<void>;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const formatRemaining = (ms: number) => {
+  const seconds = Math.max(Math.ceil(ms / 1000), 0);
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${pad(minutes)}m`;
+  return `${pad(minutes)}:${pad(seconds % 60)}`;
+};
+
+export default function ExpiryCountdown({ expiresAt, extendLabel, onExtend }: ExpiryCountdownProps) {
+  const { t } = useI18n();
+  const [now, setNow] = useState(Date.now);
+  const [extending, setExtending] = useState(false);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const remaining = Date.parse(expiresAt) - now;
+  const urgent = remaining < 60 * 1000;
+
+  const extend = async () => {
+    setExtending(true);
+    try {
+      await onExtend();
+    } finally {
+      setExtending(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 flex flex-wrap items-center gap-3 text-sm">
+      <span className={`flex items-center gap-1.5 font-medium ${urgent ? 'text-red-600' : 'text-gray-500'}`}>
+        <Timer size={16} />
+        {t('expiry.selfDestructs')} <span className="font-mono font-bold tabular-nums">{formatRemaining(remaining)}</span>
+      </span>
+      <button
+        onClick={extend}
+        disabled={extending}
+        className="px-3 py-1 rounded-full text-xs font-bold bg-emerald-50 text-emerald-700 hover:bg-emerald-100 transition-colors flex items-center gap-1 disabled:opacity-50"
+      >
+        {extending && <Loader2 size={12} className="animate-spin" />}
+        {t('expiry.extend', { duration: extendLabel })}
+      </button>
+    </div>
+  );
+}
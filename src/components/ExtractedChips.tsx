@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { CheckCircle2, KeyRound, Link2 } from 'lucide-react';
+import { Extracted } from '../types.ts';
+import { useI18n } from './I18nProvider.tsx';
+
+interface ExtractedChipsProps {
+  extracted?: Extracted;
+  size?: 'sm' | 'md';
+}
+
+const shortenUrl = (url: string) => {
+  try {
+    const { hostname, pathname } = new URL(url);
+    return `${hostname}${pathname.length > 16 ? `${pathname.slice(0, 16)}…` : pathname}`;
+  } catch (e) {
+    return url;
+  }
+};
+
+/** One-click copy chips for extracted verification codes and links. */
+export default function ExtractedChips({ extracted, size = 'sm' }: ExtractedChipsProps) {
+  const { t } = useI18n();
+  const [copied, setCopied] = useState<string | null>(null);
+
+  if (!extracted || (extracted.codes.length === 0 && extracted.links.length === 0)) return null;
+
+  const copy = (value: string, e: React.MouseEvent) => {
+    // Chips sit inside clickable inbox rows
+    e.stopPropagation();
+    navigator.clipboard.writeText(value);
+    setCopied(value);
+    setTimeout(() => setCopied(null), 2000);
+  };
+
+  const chip = size === 'sm' ? 'text-[10px] px-2 py-0.5 gap-1' : 'text-xs px-3 py-1.5 gap-1.5';
+  const icon = size === 'sm' ? 10 : 14;
+
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      <span className="sr-only" aria-live="polite">{copied && t('chips.copied', { value: copied })}</span>
+      {extracted.codes.map((code) => (
+        <button
+          key={code}
+          onClick={(e) => copy(code, e)}
+          title={t('chips.copyCode', { code })}
+          className={`flex items-center ${chip} bg-emerald-50 border border-emerald-200 text-emerald-700 rounded-full font-mono font-bold hover:bg-emerald-100 transition-colors`}
+        >
+          {copied === code ? <CheckCircle2 size={icon} /> : <KeyRound size={icon} />}
+          {code}
+        </button>
+      ))}
+      {extracted.links.map((link) => (
+        <button
+          key={link}
+          onClick={(e) => copy(link, e)}
+          title={t('chips.copyLink', { link })}
+          aria-label={t('chips.copyLink', { link })}
+          className={`flex items-center ${chip} bg-sky-50 border border-sky-200 text-sky-700 rounded-full font-medium max-w-full hover:bg-sky-100 transition-colors`}
+        >
+          {copied === link ? <CheckCircle2 size={icon} className="shrink-0" /> : <Link2 size={icon} className="shrink-0" />}
+          <span className="truncate">{shortenUrl(link)}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
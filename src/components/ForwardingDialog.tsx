@@ -0,0 +1,191 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, CheckCircle2, Forward, Loader2, Plus, Trash2, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import { ForwardingRule, SentItem } from '../types.ts';
+import { mailClient } from '../lib/mailClient.ts';
+import { MessageKey } from '../lib/i18n.ts';
+import { useI18n } from './I18nProvider.tsx';
+import { useDialog } from '../hooks/useDialog.ts';
+
+interface ForwardingDialogProps {
+  address: string;
+  withToken: <T>(run: (token: string) => Promise<T>) => Promise<T>;
+  onClose: () => void;
+  onError: (error: unknown) => void;
+}
+
+const KIND_LABELS: Record<SentItem['kind'], MessageKey> = {
+  reply: 'forwarding.kind.reply',
+  forward: 'forwarding.kind.forward',
+  'auto-forward': 'forwarding.kind.autoForward',
+};
+
+const inputClass = 'w-full bg-gray-50 border-2 border-transparent focus:border-emerald-500 rounded-xl px-3 py-2 text-xs font-medium outline-none transition-all';
+
+/** Manages the inbox's auto-forwarding rules and shows what it has sent. */
+export default function ForwardingDialog({ address, withToken, onClose, onError }: ForwardingDialogProps) {
+  const { t, formatDateTime } = useI18n();
+  const { titleId, dialogProps } = useDialog<HTMLDivElement>(onClose);
+  const [rules, setRules] = useState<ForwardingRule[] | null>(null);
+  const [sent, setSent] = useState<SentItem[] | null>(null);
+  const [draft, setDraft] = useState({ to: '', from: '', subject: '' });
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    withToken((token) => Promise.all([mailClient.listForwardingRules(token), mailClient.listSent(token)]))
+      .then(([ruleList, sentList]) => {
+        setRules(ruleList);
+        setSent(sentList);
+      })
+      .catch((err) => {
+        setRules([]);
+        setSent([]);
+        onError(err);
+      });
+  }, []);
+
+  const create = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.to.trim()) return;
+    setCreating(true);
+    try {
+      const rule = await withToken((token) => mailClient.createForwardingRule(token, {
+        to: draft.to.trim(),
+        from: draft.from.trim() || undefined,
+        subject: draft.subject.trim() || undefined,
+      }));
+      setRules((prev) => [...(prev || []), rule]);
+      setDraft({ to: '', from: '', subject: '' });
+    } catch (err) {
+      onError(err);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const remove = async (rule: ForwardingRule) => {
+    try {
+      await withToken((token) => mailClient.deleteForwardingRule(token, rule.id));
+      setRules((prev) => (prev || []).filter((r) => r.id !== rule.id));
+    } catch (err) {
+      onError(err);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-black/30 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <motion.div
+        {...dialogProps}
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-lg bg-white rounded-3xl shadow-2xl border border-black/5 p-6 space-y-5 max-h-[90vh] overflow-auto"
+      >
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <h2 id={titleId} className="font-bold text-lg text-gray-900">{t('forwarding.title')}</h2>
+            <p className="text-xs text-gray-500 truncate">{address}</p>
+          </div>
+          <button onClick={onClose} aria-label={t('common.close')} className="p-2 text-gray-400 hover:bg-gray-100 rounded-full">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-xs font-bold uppercase tracking-widest text-gray-400">{t('forwarding.rules')}</p>
+          <p className="text-xs text-gray-500">
+            {t('forwarding.intro')}
+          </p>
+          {rules === null ? (
+            <p className="text-xs text-gray-400 flex items-center gap-1"><Loader2 size={12} className="animate-spin" /> {t('common.loading')}</p>
+          ) : rules.length === 0 ? (
+            <p className="text-xs text-gray-400">{t('forwarding.none')}</p>
+          ) : (
+            <ul className="space-y-2">
+              {rules.map((rule) => (
+                <li key={rule.id} className="flex items-center gap-2 bg-gray-50 border border-black/5 rounded-xl px-3 py-2">
+                  <Forward size={14} className="text-emerald-600 shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs font-bold text-gray-900 truncate">{rule.to}</p>
+                    <p className="text-[10px] text-gray-400 truncate">
+                      {[
+                        rule.from && t('forwarding.from', { pattern: rule.from }),
+                        rule.subject && t('forwarding.subject', { pattern: rule.subject }),
+                      ].filter(Boolean).join(', ') || t('forwarding.all')}
+                      {rule.lastForwardedAt && ` · ${t('forwarding.last', { date: formatDateTime(rule.lastForwardedAt) })}`}
+                    </p>
+                  </div>
+                  <button onClick={() => remove(rule)} title={t('forwarding.delete')} className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg">
+                    <Trash2 size={14} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <form onSubmit={create} className="grid grid-cols-2 gap-2 pt-1">
+            <input
+              value={draft.to}
+              onChange={(e) => setDraft({ ...draft, to: e.target.value })}
+              placeholder={t('compose.forwardTo')}
+              aria-label={t('compose.forwardTo')}
+              className={`${inputClass} col-span-2`}
+            />
+            <input
+              value={draft.from}
+              onChange={(e) => setDraft({ ...draft, from: e.target.value })}
+              placeholder={t('forwarding.fromPlaceholder')}
+              aria-label={t('forwarding.fromPlaceholder')}
+              className={inputClass}
+            />
+            <input
+              value={draft.subject}
+              onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+              placeholder={t('forwarding.subjectPlaceholder')}
+              aria-label={t('forwarding.subjectPlaceholder')}
+              className={inputClass}
+            />
+            <button
+              type="submit"
+              disabled={creating || !draft.to.trim()}
+              className="col-span-2 py-2 bg-emerald-600 text-white rounded-xl text-xs font-bold flex items-center justify-center gap-2 hover:bg-emerald-700 transition-all active:scale-95 disabled:opacity-50"
+            >
+              {creating ? <Loader2 size={14} className="animate-spin" /> : <Plus size={14} />}
+              {t('forwarding.add')}
+            </button>
+          </form>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-xs font-bold uppercase tracking-widest text-gray-400">{t('forwarding.sent')}</p>
+          {sent === null ? (
+            <p className="text-xs text-gray-400 flex items-center gap-1"><Loader2 size={12} className="animate-spin" /> {t('common.loading')}</p>
+          ) : sent.length === 0 ? (
+            <p className="text-xs text-gray-400">{t('forwarding.noneSent')}</p>
+          ) : (
+            <ul className="space-y-2">
+              {sent.map((item) => (
+                <li key={item.id} className="flex items-start gap-2 bg-gray-50 border border-black/5 rounded-xl px-3 py-2">
+                  {item.status === 'sent'
+                    ? <CheckCircle2 size={14} className="text-emerald-600 shrink-0 mt-0.5" />
+                    : <AlertCircle size={14} className="text-red-500 shrink-0 mt-0.5" />}
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs font-bold text-gray-900 truncate">{item.subject || t('inbox.noSubject')}</p>
+                    <p className="text-[10px] text-gray-400 truncate">
+                      {t('forwarding.sentTo', { kind: t(KIND_LABELS[item.kind]), to: item.to.join(', '), date: formatDateTime(item.createdAt) })}
+                    </p>
+                    {item.error && <p className="text-[10px] text-red-600">{item.error}</p>}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import {
+  createTranslator,
+  formatDateTime,
+  formatDuration,
+  formatRelativeTime,
+  loadLocale,
+  Locale,
+  saveLocale,
+  Translate,
+} from '../lib/i18n.ts';
+
+interface I18nValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: Translate;
+  formatRelative: (date: string) => string;
+  formatDateTime: (date: string) => string;
+  formatDuration: (seconds: number, narrow?: boolean) => string;
+}
+
+const I18nContext = createContext<I18nValue | null>(null);
+
+/** Holds the UI language; switching it re-renders every translated component at once. */
+export default function I18nProvider({ children }: { children: React.ReactNode }) {
+  const [locale, setLocaleState] = useState(loadLocale);
+
+  // Screen readers pick their pronunciation from the page language
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const value = useMemo<I18nValue>(() => ({
+    locale,
+    setLocale: (next) => {
+      saveLocale(next);
+      setLocaleState(next);
+    },
+    t: createTranslator(locale),
+    formatRelative: (date) => formatRelativeTime(locale, date),
+    formatDateTime: (date) => formatDateTime(locale, date),
+    formatDuration: (seconds, narrow) => formatDuration(locale, seconds, narrow),
+  }), [locale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n() {
+  const value = useContext(I18nContext);
+  if (!value) throw new Error('useI18n must be used inside an I18nProvider');
+  return value;
+}
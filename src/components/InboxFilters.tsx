@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Paperclip, Search, X } from 'lucide-react';
+import { InboxFilter, ReceivedWithin } from '../types.ts';
+import { ListMessagesOptions } from '../lib/mailClient.ts';
+import { useI18n } from './I18nProvider.tsx';
+
+interface InboxFiltersProps {
+  filter: InboxFilter;
+  onChange: (filter: InboxFilter) => void;
+}
+
+export const EMPTY_FILTER: InboxFilter = { q: '', unread: false, hasAttachments: false, within: '' };
+
+const WITHIN_OPTIONS: Exclude<ReceivedWithin, ''>[] = ['1h', '24h', '7d'];
+
+const WITHIN_MS: Record<Exclude<ReceivedWithin, ''>, number> = {
+  '1h': 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+};
+
+export const isFilterActive = (filter: InboxFilter) =>
+  Boolean(filter.q || filter.unread || filter.hasAttachments || filter.within);
+
+// Options for listMessages; `since` is resolved at request time so polling keeps the window sliding
+export const toMessageOptions = (filter: InboxFilter, page: number): ListMessagesOptions => ({
+  page,
+  q: filter.q || undefined,
+  unread: filter.unread,
+  hasAttachments: filter.hasAttachments,
+  since: filter.within ? new Date(Date.now() - WITHIN_MS[filter.within]).toISOString() : undefined,
+});
+
+const chipClass = (active: boolean) =>
+  `px-3 py-1 rounded-full text-xs font-bold border transition-colors flex items-center gap-1 ${active ? 'bg-emerald-600 border-emerald-600 text-white' : 'bg-white border-black/5 text-gray-500 hover:border-emerald-200'}`;
+
+/** Search box and quick filters above the inbox list. */
+export default function InboxFilters({ filter, onChange }: InboxFiltersProps) {
+  const { t, formatDuration } = useI18n();
+  const [query, setQuery] = useState(filter.q);
+
+  // Debounce typing so every keystroke doesn't hit the server
+  useEffect(() => {
+    if (query.trim() === filter.q) return;
+    const timer = setTimeout(() => onChange({ ...filter, q: query.trim() }), 300);
+    return () => clearTimeout(timer);
+  }, [query, filter, onChange]);
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={t('filters.search')}
+          aria-label={t('filters.search')}
+          className="w-full bg-white border border-black/5 focus:border-emerald-500 rounded-xl pl-9 pr-9 py-2 text-sm outline-none transition-all"
+        />
+        {query && (
+          <button
+            onClick={() => setQuery('')}
+            aria-label={t('filters.clear')}
+            className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-gray-400 hover:text-gray-600"
+          >
+            <X size={14} />
+          </button>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-1.5">
+        <button onClick={() => onChange({ ...filter, unread: !filter.unread })} aria-pressed={filter.unread} className={chipClass(filter.unread)}>
+          {t('filters.unread')}
+        </button>
+        <button onClick={() => onChange({ ...filter, hasAttachments: !filter.hasAttachments })} aria-pressed={filter.hasAttachments} className={chipClass(filter.hasAttachments)}>
+          <Paperclip size={10} /> {t('filters.attachments')}
+        </button>
+        {WITHIN_OPTIONS.map((within) => (
+          <button
+            key={within}
+            onClick={() => onChange({ ...filter, within: filter.within === within ? '' : within })}
+            aria-pressed={filter.within === within}
+            aria-label={t('filters.within', { duration: formatDuration(WITHIN_MS[within] / 1000) })}
+            className={chipClass(filter.within === within)}
+          >
+            {formatDuration(WITHIN_MS[within] / 1000, true)}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
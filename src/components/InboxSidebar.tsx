@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { Check, Inbox, Pencil, Plus, Trash2 } from 'lucide-react';
+import { SavedInbox } from '../types.ts';
+import { useI18n } from './I18nProvider.tsx';
+
+interface InboxSidebarProps {
+  inboxes: SavedInbox[];
+  activeId: string | null;
+  unreadCounts: Record<string, number>;
+  onSelect: (id: string) => void;
+  onRename: (id: string, label: string) => void;
+  onDelete: (inbox: SavedInbox) => void;
+  onAdd: () => void;
+}
+
+export default function InboxSidebar({ inboxes, activeId, unreadCounts, onSelect, onRename, onDelete, onAdd }: InboxSidebarProps) {
+  const { t, formatDateTime } = useI18n();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+
+  const startEditing = (inbox: SavedInbox, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setEditingId(inbox.id);
+    setDraft(inbox.label);
+  };
+
+  const commit = () => {
+    if (editingId) onRename(editingId, draft.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between px-2">
+        <h3 className="font-bold text-lg flex items-center gap-2">
+          <Inbox size={20} className="text-emerald-600" />
+          {t('sidebar.title')}
+        </h3>
+        <button
+          onClick={onAdd}
+          title={t('sidebar.add')}
+          aria-label={t('sidebar.add')}
+          className="p-1.5 text-gray-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-colors"
+        >
+          <Plus size={16} />
+        </button>
+      </div>
+
+      <ul className="space-y-2">
+        {inboxes.map((inbox) => {
+          const unread = unreadCounts[inbox.id] || 0;
+          const active = inbox.id === activeId;
+          const name = inbox.label || inbox.address.split('@')[0];
+          return (
+            <li
+              key={inbox.id}
+              onClick={() => onSelect(inbox.id)}
+              onKeyDown={(e) => {
+                if (e.target === e.currentTarget && (e.key === 'Enter' || e.key === ' ')) {
+                  e.preventDefault();
+                  onSelect(inbox.id);
+                }
+              }}
+              tabIndex={0}
+              aria-current={active || undefined}
+              className={`group bg-white border rounded-2xl p-3 cursor-pointer hover:shadow-md transition-all outline-none focus-visible:ring-2 focus-visible:ring-emerald-500 ${active ? 'border-emerald-500 ring-1 ring-emerald-500' : 'border-black/5'}`}
+            >
+              <div className="flex items-center gap-2">
+                {editingId === inbox.id ? (
+                  <form
+                    className="flex-1 flex items-center gap-1"
+                    onClick={(e) => e.stopPropagation()}
+                    onSubmit={(e) => { e.preventDefault(); commit(); }}
+                  >
+                    <input
+                      value={draft}
+                      onChange={(e) => setDraft(e.target.value)}
+                      onBlur={commit}
+                      placeholder={t('sidebar.label')}
+                      aria-label={t('sidebar.label')}
+                      autoFocus
+                      className="flex-1 min-w-0 bg-gray-50 rounded-lg px-2 py-1 text-sm font-bold outline-none focus:ring-1 focus:ring-emerald-500"
+                    />
+                    <button type="submit" aria-label={t('sidebar.saveLabel')} className="p-1 text-emerald-600"><Check size={14} /></button>
+                  </form>
+                ) : (
+                  <span className="flex-1 text-sm font-bold text-gray-900 truncate">{name}</span>
+                )}
+                {unread > 0 && (
+                  <span className="bg-emerald-600 text-white text-[10px] font-bold px-1.5 py-0.5 rounded-full">
+                    <span aria-hidden="true">{unread}</span>
+                    <span className="sr-only">{t('sidebar.unread', { count: unread })}</span>
+                  </span>
+                )}
+              </div>
+              <p className="text-xs font-mono text-gray-500 truncate mt-0.5">{inbox.address}</p>
+              <div className="flex items-center justify-between mt-1">
+                <span className="text-[10px] text-gray-400">{formatDateTime(inbox.createdAt)}</span>
+                <div className="flex gap-1 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity">
+                  <button
+                    onClick={(e) => startEditing(inbox, e)}
+                    title={t('sidebar.rename', { name })}
+                    aria-label={t('sidebar.rename', { name })}
+                    className="p-1 text-gray-300 hover:text-emerald-600 rounded"
+                  >
+                    <Pencil size={12} />
+                  </button>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onDelete(inbox); }}
+                    title={t('sidebar.delete', { name })}
+                    aria-label={t('sidebar.delete', { name })}
+                    className="p-1 text-gray-300 hover:text-red-500 rounded"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { CheckCheck, Loader2, Mail, MailOpen, Trash2 } from 'lucide-react';
+import { useI18n } from './I18nProvider.tsx';
+
+interface InboxToolbarProps {
+  checkedCount: number;
+  allChecked: boolean;
+  busy: boolean;
+  onToggleAll: () => void;
+  onMarkRead: () => void;
+  onMarkUnread: () => void;
+  onDelete: () => void;
+  onMarkAllRead: () => void;
+  onEmpty: () => void;
+}
+
+const actionClass = 'flex items-center gap-1 px-2 py-1 rounded-lg text-xs font-bold text-gray-500 hover:text-emerald-600 hover:bg-emerald-50 transition-colors disabled:opacity-50';
+
+/** Select-all checkbox with bulk actions for the checked messages, or for the whole inbox. */
+export default function InboxToolbar({
+  checkedCount,
+  allChecked,
+  busy,
+  onToggleAll,
+  onMarkRead,
+  onMarkUnread,
+  onDelete,
+  onMarkAllRead,
+  onEmpty,
+}: InboxToolbarProps) {
+  const { t } = useI18n();
+  return (
+    <div className="flex items-center gap-2 px-2" title={t('toolbar.shortcuts')}>
+      <input
+        type="checkbox"
+        checked={allChecked}
+        onChange={onToggleAll}
+        className="w-4 h-4 accent-emerald-600 cursor-pointer"
+        aria-label={t('toolbar.selectAll')}
+      />
+      {checkedCount > 0 ? (
+        <>
+          <span className="text-xs font-bold text-gray-700 mr-auto" aria-live="polite">{t('toolbar.selected', { count: checkedCount })}</span>
+          <button onClick={onMarkRead} disabled={busy} className={actionClass}><MailOpen size={12} /> {t('toolbar.read')}</button>
+          <button onClick={onMarkUnread} disabled={busy} className={actionClass}><Mail size={12} /> {t('toolbar.unread')}</button>
+          <button onClick={onDelete} disabled={busy} className={`${actionClass} hover:!text-red-500 hover:!bg-red-50`}><Trash2 size={12} /> {t('toolbar.delete')}</button>
+        </>
+      ) : (
+        <>
+          <span className="mr-auto" />
+          <button onClick={onMarkAllRead} disabled={busy} className={actionClass}><CheckCheck size={12} /> {t('toolbar.markAllRead')}</button>
+          <button onClick={onEmpty} disabled={busy} className={`${actionClass} hover:!text-red-500 hover:!bg-red-50`}><Trash2 size={12} /> {t('toolbar.empty')}</button>
+        </>
+      )}
+      {busy && <Loader2 size={12} className="animate-spin text-gray-400" />}
+    </div>
+  );
+}
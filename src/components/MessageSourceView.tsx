@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { MessageSource } from '../types.ts';
+import { saveBlob } from '../lib/attachments.ts';
+import { useI18n } from './I18nProvider.tsx';
+
+interface MessageSourceViewProps {
+  messageId: string;
+  subject: string;
+  /** Reads the source, e.g. through the app's token renewal */
+  load: (signal: AbortSignal) => Promise<MessageSource>;
+  onError: (error: unknown) => void;
+}
+
+// Headers worth spotting at a glance when debugging deliverability
+const NOTABLE_HEADERS = ['dkim-signature', 'received', 'authentication-results', 'list-unsubscribe', 'content-type', 'return-path'];
+
+const emlFilename = (subject: string, id: string) =>
+  `${(subject || id).replace(/[^\w\- ]+/g, '').trim().slice(0, 60) || id}.eml`;
+
+export default function MessageSourceView({ messageId, subject, load, onError }: MessageSourceViewProps) {
+  const { t } = useI18n();
+  const [source, setSource] = useState<MessageSource | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    load(controller.signal)
+      .then(setSource)
+      .catch((err) => {
+        if (!controller.signal.aborted) onError(err);
+      });
+    return () => controller.abort();
+    // `load` is a fresh closure on every render of the parent; the message is what counts
+  }, [messageId]);
+
+  if (!source) {
+    return (
+      <div className="flex justify-center py-12 text-gray-400">
+        <Loader2 size={20} className="animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-bold uppercase tracking-widest text-gray-400">{t('source.headers', { count: source.headers.length })}</p>
+        <button
+          onClick={() => saveBlob(new Blob([source.raw], { type: 'message/rfc822' }), emlFilename(subject, messageId))}
+          className="flex items-center gap-1.5 px-3 py-1.5 bg-gray-50 border border-black/5 rounded-xl text-xs font-bold text-gray-600 hover:bg-emerald-50 hover:text-emerald-600 transition-colors"
+        >
+          <Download size={14} /> {t('source.download')}
+        </button>
+      </div>
+
+      <div className="border border-black/5 rounded-2xl overflow-hidden">
+        <table className="w-full text-xs">
+          <tbody>
+            {source.headers.map((header, index) => (
+              <tr
+                key={index}
+                className={`border-b border-black/5 last:border-0 align-top ${NOTABLE_HEADERS.includes(header.name.toLowerCase()) ? 'bg-emerald-50/50' : ''}`}
+              >
+                <th className="text-left font-bold text-gray-700 px-3 py-2 whitespace-nowrap">{header.name}</th>
+                <td className="px-3 py-2 font-mono text-gray-600 break-all">{header.value}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div>
+        <p className="text-xs font-bold uppercase tracking-widest text-gray-400 mb-2">{t('source.raw')}</p>
+        <pre className="bg-gray-900 text-gray-100 text-xs font-mono rounded-2xl p-4 overflow-auto max-h-[600px] whitespace-pre-wrap break-all">
+          {source.raw}
+        </pre>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useI18n } from './I18nProvider.tsx';
+
+interface RelativeTimeProps {
+  date: string;
+  className?: string;
+}
+
+/** "5 min ago" in the UI language, kept current; the full date shows on hover. */
+export default function RelativeTime({ date, className }: RelativeTimeProps) {
+  const { formatRelative, formatDateTime } = useI18n();
+  const [, setTick] = useState(0);
+
+  useEffect(() => {
+    const timer = setInterval(() => setTick((tick) => tick + 1), 30 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  return (
+    <time dateTime={date} title={formatDateTime(date)} className={className}>
+      {formatRelative(date)}
+    </time>
+  );
+}
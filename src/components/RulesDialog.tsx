@@ -0,0 +1,272 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useRef, useState } from 'react';
+import { Download, Highlighter, Pin, Plus, Tag, Trash2, Upload, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import { HighlightColor, InboxRule, Message, RuleAction, RuleField, RuleOperator } from '../types.ts';
+import { exportRuleSet, HIGHLIGHT_COLORS, importRuleSet, matchesRule, newRuleId, RULE_ACTIONS, RULE_FIELDS, RULE_OPERATORS, ruleError } from '../lib/inboxRules.ts';
+import { saveBlob } from '../lib/attachments.ts';
+import { MessageKey } from '../lib/i18n.ts';
+import { useI18n } from './I18nProvider.tsx';
+import { useDialog } from '../hooks/useDialog.ts';
+
+interface RulesDialogProps {
+  address: string;
+  rules: InboxRule[];
+  /** The loaded messages, to show how many each rule matches. */
+  messages: Message[];
+  onChange: (rules: InboxRule[]) => void;
+  onClose: () => void;
+  onError: (error: unknown) => void;
+}
+
+const FIELD_LABELS: Record<RuleField, MessageKey> = { from: 'rules.field.from', subject: 'rules.field.subject', intro: 'rules.field.intro' };
+const OPERATOR_LABELS: Record<RuleOperator, MessageKey> = { contains: 'rules.operator.contains', regex: 'rules.operator.regex', domain: 'rules.operator.domain' };
+const ACTION_LABELS: Record<RuleAction, MessageKey> = { label: 'rules.action.label', highlight: 'rules.action.highlight', pin: 'rules.action.pin', delete: 'rules.action.delete' };
+const COLOR_LABELS: Record<HighlightColor, MessageKey> = { amber: 'rules.color.amber', sky: 'rules.color.sky', rose: 'rules.color.rose', violet: 'rules.color.violet' };
+const PLACEHOLDERS: Record<RuleOperator, MessageKey> = { contains: 'rules.placeholder.contains', regex: 'rules.placeholder.regex', domain: 'rules.placeholder.domain' };
+
+export const HIGHLIGHT_CLASSES: Record<HighlightColor, string> = {
+  amber: 'bg-amber-50 border-amber-200',
+  sky: 'bg-sky-50 border-sky-200',
+  rose: 'bg-rose-50 border-rose-200',
+  violet: 'bg-violet-50 border-violet-200',
+};
+
+const SWATCH_CLASSES: Record<HighlightColor, string> = {
+  amber: 'bg-amber-300',
+  sky: 'bg-sky-300',
+  rose: 'bg-rose-300',
+  violet: 'bg-violet-300',
+};
+
+const EMPTY_DRAFT: Omit<InboxRule, 'id'> = { field: 'from', operator: 'contains', value: '', action: 'label', label: '', color: 'amber', enabled: true };
+
+const inputClass = 'bg-gray-50 border-2 border-transparent focus:border-emerald-500 rounded-xl px-3 py-2 text-xs font-medium outline-none transition-all';
+
+// Two rules are the same when they only differ in their local ID and switch
+const sameRule = (a: Omit<InboxRule, 'id'>, b: Omit<InboxRule, 'id'>) =>
+  a.field === b.field && a.operator === b.operator && a.value === b.value && a.action === b.action &&
+  (a.action !== 'label' || a.label === b.label) && (a.action !== 'highlight' || a.color === b.color);
+
+const ActionIcon = ({ action }: { action: RuleAction }) => {
+  if (action === 'label') return <Tag size={14} className="text-emerald-600 shrink-0" />;
+  if (action === 'highlight') return <Highlighter size={14} className="text-amber-500 shrink-0" />;
+  if (action === 'pin') return <Pin size={14} className="text-sky-600 shrink-0" />;
+  return <Trash2 size={14} className="text-red-500 shrink-0" />;
+};
+
+/** Edits the active inbox's client-side rules, and imports or exports them as JSON. */
+export default function RulesDialog({ address, rules, messages, onChange, onClose, onError }: RulesDialogProps) {
+  const { t } = useI18n();
+  const { titleId, dialogProps } = useDialog<HTMLDivElement>(onClose);
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const draftError = draft.value.trim() ? ruleError(draft, t) : null;
+
+  const add = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.value.trim() || draftError) return;
+    const { label, color, ...rest } = draft;
+    onChange([...rules, {
+      id: newRuleId(),
+      ...rest,
+      value: draft.value.trim(),
+      ...(draft.action === 'label' && { label: label!.trim() }),
+      ...(draft.action === 'highlight' && { color }),
+    }]);
+    setDraft({ ...EMPTY_DRAFT, field: draft.field, operator: draft.operator, action: draft.action, color: draft.color });
+  };
+
+  const update = (id: string, patch: Partial<InboxRule>) => onChange(rules.map((rule) => rule.id === id ? { ...rule, ...patch } : rule));
+
+  const exportRules = () => {
+    const blob = new Blob([exportRuleSet(rules)], { type: 'application/json' });
+    saveBlob(blob, `${address}-rules.json`);
+  };
+
+  const describe = (rule: Omit<InboxRule, 'id'>) =>
+    t('rules.condition', { field: t(FIELD_LABELS[rule.field]), operator: t(OPERATOR_LABELS[rule.operator]), value: rule.value });
+
+  // Imported rules are added after the existing ones, skipping any the inbox already has.
+  // Auto-delete rules remove mail from the server, so they stay off unless the user agrees.
+  const importRules = async (file: File) => {
+    try {
+      const added = importRuleSet(await file.text(), t).filter((rule) => !rules.some((existing) => sameRule(existing, rule)));
+      const deletes = added.filter((rule) => rule.action === 'delete' && rule.enabled);
+      const confirmed = deletes.length === 0 || window.confirm(t('rules.confirmImportDeletes', {
+        count: deletes.length,
+        rules: deletes.map((rule) => `• ${describe(rule)}`).join('\n'),
+      }));
+      onChange([...rules, ...added.map((rule) => confirmed || !deletes.includes(rule) ? rule : { ...rule, enabled: false })]);
+    } catch (err) {
+      onError(err);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-black/30 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <motion.div
+        {...dialogProps}
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-lg bg-white rounded-3xl shadow-2xl border border-black/5 p-6 space-y-5 max-h-[90vh] overflow-auto"
+      >
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <h2 id={titleId} className="font-bold text-lg text-gray-900">{t('rules.title')}</h2>
+            <p className="text-xs text-gray-500 truncate">{address}</p>
+          </div>
+          <button onClick={onClose} aria-label={t('common.close')} className="p-2 text-gray-400 hover:bg-gray-100 rounded-full">
+            <X size={18} />
+          </button>
+        </div>
+
+        <p className="text-xs text-gray-500">
+          {t('rules.intro')}
+        </p>
+
+        {rules.length === 0 ? (
+          <p className="text-xs text-gray-400">{t('rules.none')}</p>
+        ) : (
+          <ul className="space-y-2">
+            {rules.map((rule) => {
+              const matched = messages.filter((message) => matchesRule(rule, message)).length;
+              return (
+                <li key={rule.id} className={`flex items-center gap-2 bg-gray-50 border border-black/5 rounded-xl px-3 py-2 ${rule.enabled ? '' : 'opacity-50'}`}>
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={(e) => update(rule.id, { enabled: e.target.checked })}
+                    className="w-4 h-4 accent-emerald-600 cursor-pointer shrink-0"
+                    aria-label={t('rules.enable')}
+                  />
+                  <ActionIcon action={rule.action} />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs font-bold text-gray-900 truncate">
+                      {t(ACTION_LABELS[rule.action])}
+                      {rule.action === 'label' && ` "${rule.label}"`}
+                      {rule.action === 'highlight' && <span className={`inline-block w-2.5 h-2.5 rounded-full ml-1.5 ${SWATCH_CLASSES[rule.color!]}`} />}
+                    </p>
+                    <p className="text-[10px] text-gray-400 truncate">
+                      {describe(rule)} · {t('rules.matched', { count: matched })}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => onChange(rules.filter((r) => r.id !== rule.id))}
+                    title={t('rules.delete')}
+                    className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <form onSubmit={add} className="space-y-2">
+          <p className="text-xs font-bold uppercase tracking-widest text-gray-400">{t('rules.new')}</p>
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={draft.field}
+              onChange={(e) => {
+                const field = e.target.value as RuleField;
+                setDraft({ ...draft, field, operator: field !== 'from' && draft.operator === 'domain' ? 'contains' : draft.operator });
+              }}
+              className={inputClass}
+            >
+              {RULE_FIELDS.map((field) => <option key={field} value={field}>{t(FIELD_LABELS[field])}</option>)}
+            </select>
+            <select
+              value={draft.operator}
+              onChange={(e) => setDraft({ ...draft, operator: e.target.value as RuleOperator })}
+              className={inputClass}
+            >
+              {RULE_OPERATORS
+                .filter((operator) => operator !== 'domain' || draft.field === 'from')
+                .map((operator) => <option key={operator} value={operator}>{t(OPERATOR_LABELS[operator])}</option>)}
+            </select>
+            <input
+              value={draft.value}
+              onChange={(e) => setDraft({ ...draft, value: e.target.value })}
+              placeholder={t(PLACEHOLDERS[draft.operator])}
+              aria-label={t(PLACEHOLDERS[draft.operator])}
+              className={`${inputClass} col-span-2`}
+            />
+            <select
+              value={draft.action}
+              onChange={(e) => setDraft({ ...draft, action: e.target.value as RuleAction })}
+              className={inputClass}
+            >
+              {RULE_ACTIONS.map((action) => <option key={action} value={action}>{t(ACTION_LABELS[action])}</option>)}
+            </select>
+            {draft.action === 'label' && (
+              <input
+                value={draft.label}
+                onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+                placeholder={t('rules.labelPlaceholder')}
+                aria-label={t('rules.labelPlaceholder')}
+                className={inputClass}
+              />
+            )}
+            {draft.action === 'highlight' && (
+              <div className="flex items-center gap-2 px-1">
+                {HIGHLIGHT_COLORS.map((color) => (
+                  <button
+                    key={color}
+                    type="button"
+                    onClick={() => setDraft({ ...draft, color })}
+                    title={t(COLOR_LABELS[color])}
+                    className={`w-6 h-6 rounded-full ${SWATCH_CLASSES[color]} ${draft.color === color ? 'ring-2 ring-offset-2 ring-gray-400' : ''}`}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+          {draftError && <p className="text-xs font-medium text-red-600">{draftError}</p>}
+          <button
+            type="submit"
+            disabled={!draft.value.trim() || Boolean(draftError) || (draft.action === 'label' && !draft.label?.trim())}
+            className="w-full py-2 bg-emerald-600 text-white rounded-xl text-xs font-bold flex items-center justify-center gap-2 hover:bg-emerald-700 transition-all active:scale-95 disabled:opacity-50"
+          >
+            <Plus size={14} />
+            {t('rules.add')}
+          </button>
+        </form>
+
+        <div className="flex items-center gap-2 pt-4 border-t border-black/5">
+          <span className="text-xs text-gray-400 mr-auto">{t('rules.shareHint')}</span>
+          <button
+            onClick={() => fileRef.current?.click()}
+            className="px-2.5 py-1.5 rounded-lg text-xs font-bold text-gray-500 hover:text-emerald-600 hover:bg-emerald-50 transition-colors flex items-center gap-1"
+          >
+            <Upload size={12} /> {t('rules.import')}
+          </button>
+          <button
+            onClick={exportRules}
+            disabled={rules.length === 0}
+            className="px-2.5 py-1.5 rounded-lg text-xs font-bold text-gray-500 hover:text-emerald-600 hover:bg-emerald-50 transition-colors flex items-center gap-1 disabled:opacity-50"
+          >
+            <Download size={12} /> {t('rules.export')}
+          </button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) importRules(file);
+            }}
+          />
+        </div>
+      </motion.div>
+    </div>
+  );
+}
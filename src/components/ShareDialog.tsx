@@ -0,0 +1,152 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { CheckCircle2, Copy, Link2, Loader2, Trash2, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import { SHARE_EXPIRIES } from '../config.ts';
+import { mailClient } from '../lib/mailClient.ts';
+import { Share } from '../types.ts';
+import { useI18n } from './I18nProvider.tsx';
+import { useDialog } from '../hooks/useDialog.ts';
+
+interface ShareDialogProps {
+  address: string;
+  /** Shares just this message instead of the whole inbox. */
+  message?: { id: string; subject: string };
+  /** Runs a client call with the inbox's token, renewing it when needed. */
+  withToken: <T>(run: (token: string) => Promise<T>) => Promise<T>;
+  onClose: () => void;
+  onError: (error: unknown) => void;
+}
+
+const shareUrl = (share: Share) => `${window.location.origin}/share/${share.token}`;
+
+/** Creates, copies and revokes read-only links to the inbox or one of its messages. */
+export default function ShareDialog({ address, message, withToken, onClose, onError }: ShareDialogProps) {
+  const { t, formatDateTime, formatDuration } = useI18n();
+  const { titleId, dialogProps } = useDialog<HTMLDivElement>(onClose);
+  const [shares, setShares] = useState<Share[] | null>(null);
+  const [expiresIn, setExpiresIn] = useState(SHARE_EXPIRIES[1]);
+  const [creating, setCreating] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    withToken((token) => mailClient.listShares(token))
+      .then(setShares)
+      .catch((err) => {
+        setShares([]);
+        onError(err);
+      });
+  }, []);
+
+  const copy = (share: Share) => {
+    navigator.clipboard.writeText(shareUrl(share));
+    setCopiedId(share.id);
+    setTimeout(() => setCopiedId((current) => current === share.id ? null : current), 2000);
+  };
+
+  const create = async () => {
+    setCreating(true);
+    try {
+      const share = await withToken((token) => mailClient.createShare(token, {
+        scope: message ? 'message' : 'inbox',
+        messageId: message?.id,
+        expiresIn,
+      }));
+      setShares((prev) => [share, ...(prev || [])]);
+      copy(share);
+    } catch (err) {
+      onError(err);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const revoke = async (share: Share) => {
+    try {
+      await withToken((token) => mailClient.deleteShare(token, share.id));
+      setShares((prev) => (prev || []).filter((s) => s.id !== share.id));
+    } catch (err) {
+      onError(err);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-black/30 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <motion.div
+        {...dialogProps}
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-md bg-white rounded-3xl shadow-2xl border border-black/5 p-6 space-y-5"
+      >
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <h2 id={titleId} className="font-bold text-lg text-gray-900">{t(message ? 'share.titleMessage' : 'share.titleInbox')}</h2>
+            <p className="text-xs text-gray-500 truncate">
+              {message ? message.subject || t('inbox.noSubject') : address}
+            </p>
+          </div>
+          <button onClick={onClose} aria-label={t('common.close')} className="p-2 text-gray-400 hover:bg-gray-100 rounded-full">
+            <X size={18} />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600">
+          {t(message ? 'share.explainMessage' : 'share.explainInbox')}
+        </p>
+
+        <div className="flex gap-2">
+          <select
+            value={expiresIn}
+            onChange={(e) => setExpiresIn(Number(e.target.value))}
+            className="flex-1 bg-gray-50 border-2 border-transparent focus:border-emerald-500 rounded-xl px-4 py-2.5 text-sm font-medium outline-none"
+          >
+            {SHARE_EXPIRIES.map((seconds) => (
+              <option key={seconds} value={seconds}>{t('share.expiresIn', { duration: formatDuration(seconds) })}</option>
+            ))}
+          </select>
+          <button
+            onClick={create}
+            disabled={creating}
+            className="px-4 py-2.5 bg-emerald-600 text-white rounded-xl text-sm font-bold flex items-center gap-2 hover:bg-emerald-700 transition-all active:scale-95 disabled:opacity-50"
+          >
+            {creating ? <Loader2 size={16} className="animate-spin" /> : <Link2 size={16} />}
+            {t('share.create')}
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-xs font-bold uppercase tracking-widest text-gray-400">{t('share.active')}</p>
+          {shares === null ? (
+            <p className="text-xs text-gray-400 flex items-center gap-1"><Loader2 size={12} className="animate-spin" /> {t('common.loading')}</p>
+          ) : shares.length === 0 ? (
+            <p className="text-xs text-gray-400">{t('share.none')}</p>
+          ) : (
+            <ul className="space-y-2 max-h-56 overflow-auto">
+              {shares.map((share) => (
+                <li key={share.id} className="flex items-center gap-2 bg-gray-50 border border-black/5 rounded-xl px-3 py-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs font-bold text-gray-900">
+                      {t(share.scope === 'inbox' ? 'share.wholeInbox' : share.messageId === message?.id ? 'share.thisMessage' : 'share.oneMessage')}
+                    </p>
+                    <p className="text-[10px] text-gray-400">{t('share.expires', { date: formatDateTime(share.expiresAt) })}</p>
+                  </div>
+                  <button onClick={() => copy(share)} title={t('share.copy')} className="p-2 text-gray-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg">
+                    {copiedId === share.id ? <CheckCircle2 size={14} className="text-emerald-600" /> : <Copy size={14} />}
+                  </button>
+                  <button onClick={() => revoke(share)} title={t('share.revoke')} className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg">
+                    <Trash2 size={14} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export const API_BASE = '/api/mail';
+
+// Messages per page served by /messages
+export const PAGE_SIZE = 30;
+
+// Self-destruct choices for new inboxes, in seconds; null keeps the inbox until deleted
+export const LIFETIMES: (number | null)[] = [10 * 60, 60 * 60, 24 * 60 * 60, null];
+
+// Also used for the random inboxes the app creates on its own
+export const DEFAULT_LIFETIME = 60 * 60;
+
+// How long a new share link stays valid, in seconds
+export const SHARE_EXPIRIES = [60 * 60, 24 * 60 * 60, 7 * 24 * 60 * 60];
+
+// How many of the newest messages get an AI category in the background; others are analyzed when opened
+export const ANALYZE_NEWEST = 10;
@@ -0,0 +1,33 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useState } from 'react';
+import { MessageDetail } from '../types.ts';
+import { fetchAttachment, resolveCidImages } from '../lib/attachments.ts';
+
+/**
+ * Returns the message's HTML body with cid: inline images swapped for data: URLs.
+ * Pass fetchSharedAttachment and a share link's token to read through a share link.
+ */
+export function useCidImages(message: MessageDetail | null, token: string | undefined, load = fetchAttachment): string {
+  const html = message?.html?.join('') || '';
+  const [resolved, setResolved] = useState(html);
+
+  useEffect(() => {
+    setResolved(html);
+    if (!message || !token || !html.includes('cid:') || !message.attachments?.length) return;
+
+    let cancelled = false;
+    resolveCidImages(html, message.attachments, (attachment) => load(message.id, attachment, token))
+      .then((result) => {
+        if (!cancelled) setResolved(result);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [message, token, html, load]);
+
+  return resolved;
+}
@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useId, useRef, useState } from 'react';
+
+const FOCUSABLE = [
+  'a[href]',
+  'button:not([disabled])',
+  'input:not([disabled]):not([type="hidden"])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  'iframe',
+  '[tabindex]:not([tabindex="-1"])',
+].join(', ');
+
+// Hidden elements, e.g. a file input behind its button, cannot take focus
+const focusableIn = (root: HTMLElement) =>
+  Array.from(root.querySelectorAll<HTMLElement>(FOCUSABLE)).filter((el) => el.getClientRects().length > 0);
+
+/**
+ * Makes a card behave as a modal dialog: focus moves into it when it opens and back to
+ * whatever had it when it closes, Tab cycles inside it and Escape closes it. Spread
+ * `dialogProps` on the card and put `id={titleId}` on its heading.
+ */
+export function useDialog<T extends HTMLElement>(onClose: () => void) {
+  const ref = useRef<T>(null);
+  const titleId = useId();
+  // Read while rendering, before autoFocus fields inside the dialog take focus
+  const [opener] = useState(() => document.activeElement);
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  useEffect(() => {
+    const dialog = ref.current;
+    if (dialog && !dialog.contains(document.activeElement)) focusableIn(dialog)[0]?.focus();
+    return () => {
+      if (opener instanceof HTMLElement && opener.isConnected) opener.focus();
+    };
+  }, [opener]);
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    // Keys pressed in a dialog are not inbox shortcuts
+    e.stopPropagation();
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onCloseRef.current();
+      return;
+    }
+    const dialog = ref.current;
+    if (e.key !== 'Tab' || !dialog) return;
+    const items = focusableIn(dialog);
+    if (items.length === 0) {
+      e.preventDefault();
+      return;
+    }
+    const first = items[0];
+    const last = items[items.length - 1];
+    if (e.shiftKey && document.activeElement === first) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && document.activeElement === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  };
+
+  return {
+    titleId,
+    dialogProps: { ref, role: 'dialog', 'aria-modal': true, 'aria-labelledby': titleId, onKeyDown } as const,
+  };
+}
@@ -0,0 +1,25 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { InboxRule } from '../types.ts';
+import { loadRules, saveRules } from '../lib/inboxStore.ts';
+
+/** The active inbox's rules, kept in localStorage per inbox. */
+export function useInboxRules(inboxId: string | null) {
+  const [rules, setRulesState] = useState<InboxRule[]>(() => (inboxId ? loadRules(inboxId) : []));
+
+  useEffect(() => {
+    setRulesState(inboxId ? loadRules(inboxId) : []);
+  }, [inboxId]);
+
+  const setRules = useCallback((next: InboxRule[]) => {
+    if (!inboxId) return;
+    saveRules(inboxId, next);
+    setRulesState(next);
+  }, [inboxId]);
+
+  return [rules, setRules] as const;
+}
@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { InboxEvent } from '../types.ts';
+
+export type StreamStatus = 'idle' | 'connecting' | 'live' | 'polling';
+
+const EVENT_TYPES: InboxEvent['type'][] = ['new-message', 'message-deleted', 'message-seen'];
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 60000;
+
+/**
+ * Subscribes to the /mail/events SSE stream. While the stream is down it falls back
+ * to calling `poll` every `pollInterval` ms, and reconnects with jittered backoff.
+ */
+export function useInboxStream(
+  url: string | null,
+  onEvent: (event: InboxEvent) => void,
+  poll: () => void,
+  pollInterval = 10000,
+): StreamStatus {
+  const [status, setStatus] = useState<StreamStatus>('idle');
+  const onEventRef = useRef(onEvent);
+  const pollRef = useRef(poll);
+  onEventRef.current = onEvent;
+  pollRef.current = poll;
+
+  useEffect(() => {
+    if (!url) {
+      setStatus('idle');
+      return;
+    }
+
+    let source: EventSource | null = null;
+    let pollTimer: ReturnType<typeof setInterval> | undefined;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempt = 0;
+    let wasLive = false;
+
+    const startPolling = () => {
+      if (!pollTimer) pollTimer = setInterval(() => pollRef.current(), pollInterval);
+    };
+    const stopPolling = () => {
+      clearInterval(pollTimer);
+      pollTimer = undefined;
+    };
+
+    const connect = () => {
+      source = new EventSource(url);
+
+      source.addEventListener('ready', () => {
+        attempt = 0;
+        stopPolling();
+        setStatus('live');
+        // Catch up on anything that arrived while we were disconnected
+        if (wasLive) pollRef.current();
+        wasLive = true;
+      });
+
+      EVENT_TYPES.forEach((type) => {
+        source!.addEventListener(type, (e) => {
+          try {
+            onEventRef.current(JSON.parse((e as MessageEvent).data));
+          } catch (err) {
+            console.error('Invalid inbox event:', err);
+          }
+        });
+      });
+
+      source.onerror = () => {
+        source?.close();
+        startPolling();
+        setStatus('polling');
+        const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempt);
+        attempt++;
+        retryTimer = setTimeout(connect, delay / 2 + Math.random() * (delay / 2));
+      };
+    };
+
+    if (typeof EventSource === 'undefined') {
+      startPolling();
+      setStatus('polling');
+    } else {
+      setStatus('connecting');
+      connect();
+    }
+
+    return () => {
+      source?.close();
+      stopPolling();
+      clearTimeout(retryTimer);
+    };
+  }, [url, pollInterval]);
+
+  return status;
+}
@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { ANALYZE_NEWEST } from '../config.ts';
+import { Message, MessageAnalysis } from '../types.ts';
+import { MailApiError, mailClient, RateLimitError } from '../lib/mailClient.ts';
+
+/**
+ * Analyzes the open message, then the newest listed ones, one request at a time, and
+ * returns a lookup of a message's analysis. Turns itself off when the server has no AI
+ * model configured (501), so the app simply shows no badges.
+ */
+export function useMessageAnalysis(
+  messages: Message[],
+  selectedId: string | null,
+  withToken: <T>(run: (token: string) => Promise<T>) => Promise<T>,
+) {
+  const [analyses, setAnalyses] = useState<Record<string, MessageAnalysis>>({});
+  const [enabled, setEnabled] = useState(true);
+  const [busy, setBusy] = useState(false);
+  // Messages that could not be analyzed are not retried until the page reloads
+  const failedRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (!enabled || busy) return;
+    const pending = (id: string) => !analyses[id] && !failedRef.current.has(id) && !messages.find((m) => m.id === id)?.analysis;
+    const next = selectedId && pending(selectedId)
+      ? selectedId
+      : messages.slice(0, ANALYZE_NEWEST).find((m) => pending(m.id))?.id;
+    if (!next) return;
+
+    setBusy(true);
+    withToken((token) => mailClient.analyzeMessage(token, next))
+      .then((analysis) => {
+        setAnalyses((prev) => ({ ...prev, [next]: analysis }));
+        setBusy(false);
+      })
+      .catch((err) => {
+        if (err instanceof MailApiError && err.status === 501) return setEnabled(false);
+        // A rate limit only postpones the message; the inbox itself needs the quota more
+        if (err instanceof RateLimitError) {
+          setTimeout(() => setBusy(false), (err.retryAfter || 60) * 1000);
+          return;
+        }
+        failedRef.current.add(next);
+        setBusy(false);
+      });
+  }, [enabled, busy, analyses, messages, selectedId, withToken]);
+
+  // Falls back to the analysis the server sent along with the message, e.g. from an earlier visit
+  return (message: Message): MessageAnalysis | undefined => analyses[message.id] || message.analysis;
+}
@@ -0,0 +1,19 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect } from 'react';
+
+const TITLE = 'KAS Temp Mail';
+
+/** Shows the unread count in the document title and, where supported, on the installed app's icon. */
+export function useUnreadBadge(count: number) {
+  useEffect(() => {
+    document.title = count > 0 ? `(${count}) ${TITLE}` : TITLE;
+    if (!('setAppBadge' in navigator)) return;
+    (count > 0 ? navigator.setAppBadge(count) : navigator.clearAppBadge()).catch(() => {
+      // Badges are cosmetic; browsers refuse them e.g. when the app is not installed
+    });
+  }, [count]);
+}
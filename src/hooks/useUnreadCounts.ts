@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { SavedInbox } from '../types.ts';
+import { mailClient } from '../lib/mailClient.ts';
+
+/**
+ * Polls the first page of every saved inbox except the active one (which the app
+ * already keeps live) and returns unread counts keyed by inbox id.
+ */
+export function useUnreadCounts(inboxes: SavedInbox[], activeId: string | null, interval = 30000) {
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const inboxesRef = useRef(inboxes);
+  inboxesRef.current = inboxes;
+  const inboxIds = inboxes.map((inbox) => inbox.id).join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const poll = async () => {
+      const background = inboxesRef.current.filter((inbox) => inbox.id !== activeId);
+      const results = await Promise.all(background.map(async (inbox) => {
+        try {
+          const { items } = await mailClient.listMessages(inbox.token);
+          return [inbox.id, items.filter((m) => !m.seen).length] as const;
+        } catch (e) {
+          return null;
+        }
+      }));
+      if (cancelled) return;
+      setCounts((prev) => {
+        const next = { ...prev };
+        results.forEach((result) => {
+          if (result) next[result[0]] = result[1];
+        });
+        return next;
+      });
+    };
+
+    poll();
+    const timer = setInterval(poll, interval);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [activeId, inboxIds, interval]);
+
+  return counts;
+}
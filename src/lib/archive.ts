@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { strFromU8, strToU8, unzipSync } from 'fflate';
+import PostalMime, { Address } from 'postal-mime';
+import { ArchivedMessage, Attachment, ImportedArchive } from '../types.ts';
+import { createTranslator, Translate } from './i18n.ts';
+
+// Reads back the archives /messages/export produces, entirely in the browser
+
+const isZip = (bytes: Uint8Array) => bytes[0] === 0x50 && bytes[1] === 0x4b && (bytes[2] === 0x03 || bytes[2] === 0x05);
+
+/**
+ * Splits an mbox into raw messages, undoing the mboxrd ">From " quoting. Bytes are
+ * mapped one to one through latin1 so 8-bit bodies reach the MIME parser untouched.
+ */
+export const splitMbox = (bytes: Uint8Array): Uint8Array[] =>
+  strFromU8(bytes, true)
+    .split(/(?:^|\n)From [^\n]*\n/)
+    .filter((part) => part.trim())
+    .map((part) => strToU8(part.replace(/^>(>*From )/gm, '$1'), true));
+
+const toMailbox = (address?: Address) => {
+  const mailbox = address?.group ? address.group[0] : address;
+  return { address: mailbox?.address || '', name: mailbox?.name || '' };
+};
+
+const parseMessage = async (raw: Uint8Array, index: number, fallbackDate: string): Promise<ArchivedMessage> => {
+  const email = await PostalMime.parse(raw);
+  const id = `archived-${index + 1}`;
+  const files: Record<string, Blob> = {};
+  const attachments: Attachment[] = email.attachments.map((attachment, n) => {
+    const attachmentId = `${id}-${n + 1}`;
+    files[attachmentId] = new Blob([attachment.content], { type: attachment.mimeType });
+    return {
+      id: attachmentId,
+      filename: attachment.filename || 'attachment',
+      contentType: attachment.mimeType,
+      size: files[attachmentId].size,
+      disposition: attachment.disposition === 'inline' ? 'inline' : 'attachment',
+      contentId: attachment.contentId?.replace(/^<|>$/g, ''),
+    };
+  });
+  const date = new Date(email.date || '');
+  const text = email.text || '';
+
+  return {
+    id,
+    from: toMailbox(email.from),
+    subject: email.subject || '',
+    intro: text.replace(/\s+/g, ' ').trim().slice(0, 120),
+    createdAt: Number.isNaN(date.getTime()) ? fallbackDate : date.toISOString(),
+    seen: true,
+    hasAttachments: attachments.length > 0,
+    text,
+    html: email.html ? [email.html] : [],
+    attachments,
+    headers: email.headers.map((header) => ({ name: header.originalKey, value: header.value })),
+    files,
+  };
+};
+
+/** Parses an exported .zip or .mbox file; messages come back newest first, like the inbox. */
+export async function readArchive(file: File, t: Translate = createTranslator('en')): Promise<ImportedArchive> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let raws: Uint8Array[];
+  let address: string | undefined;
+
+  if (isZip(bytes)) {
+    const entries = unzipSync(bytes, { filter: (entry) => entry.name.endsWith('.eml') || entry.name === 'manifest.json' });
+    raws = Object.keys(entries)
+      .filter((name) => name.endsWith('.eml'))
+      .sort()
+      .map((name) => entries[name]);
+    if (entries['manifest.json']) {
+      try {
+        address = JSON.parse(strFromU8(entries['manifest.json'])).inbox?.address;
+      } catch {
+        // The messages are what matters; a damaged manifest only loses the address
+      }
+    }
+  } else {
+    raws = splitMbox(bytes);
+  }
+  if (raws.length === 0) throw new Error(t('archive.empty', { name: file.name }));
+
+  const fallbackDate = new Date(file.lastModified).toISOString();
+  const messages = await Promise.all(raws.map((raw, index) => parseMessage(raw, index, fallbackDate)));
+  messages.sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt));
+  return { filename: file.name, address, messages };
+}
@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { API_BASE } from '../config.ts';
+import { Attachment } from '../types.ts';
+import { toError } from './mailClient.ts';
+
+const CID_REFERENCE = /cid:([^"'\s)>]+)/gi;
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Only formats the browser renders without running the attachment's own code
+export const isPreviewable = (attachment: Attachment) =>
+  /^image\/(png|jpe?g|gif|webp|bmp|avif)$/i.test(attachment.contentType) || attachment.contentType === 'application/pdf';
+
+export async function fetchAttachment(messageId: string, attachment: Attachment, token: string): Promise<Blob> {
+  const res = await fetch(
+    `${API_BASE}/messages/${encodeURIComponent(messageId)}/attachments/${encodeURIComponent(attachment.id)}`,
+    { headers: { Authorization: `Bearer ${token}` } },
+  );
+  if (!res.ok) throw await toError(res, `Failed to download ${attachment.filename}`);
+  // Re-type the bytes ourselves rather than trusting whatever the response sniffed as
+  return new Blob([await res.arrayBuffer()], { type: attachment.contentType });
+}
+
+/** Same as fetchAttachment, through a share link's token. */
+export async function fetchSharedAttachment(messageId: string, attachment: Attachment, shareToken: string): Promise<Blob> {
+  const res = await fetch(
+    `${API_BASE}/shared/${encodeURIComponent(shareToken)}/messages/${encodeURIComponent(messageId)}/attachments/${encodeURIComponent(attachment.id)}`,
+  );
+  if (!res.ok) throw await toError(res, `Failed to download ${attachment.filename}`);
+  return new Blob([await res.arrayBuffer()], { type: attachment.contentType });
+}
+
+export const saveBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const findByCid = (attachments: Attachment[], cid: string) => {
+  const wanted = decodeURIComponent(cid).toLowerCase();
+  return attachments.find((a) => a.contentId?.toLowerCase() === wanted)
+    // Some providers drop Content-ID; senders usually derive it from the file name
+    || attachments.find((a) => a.disposition === 'inline' && wanted.startsWith(a.filename.toLowerCase()));
+};
+
+/**
+ * Replaces cid: references in an HTML body with data: URLs of the matching inline
+ * images. Data URLs survive the sandboxed iframe's opaque origin and CSP.
+ */
+export async function resolveCidImages(
+  html: string,
+  attachments: Attachment[],
+  load: (attachment: Attachment) => Promise<Blob>,
+): Promise<string> {
+  const cids = Array.from(new Set(Array.from(html.matchAll(CID_REFERENCE), (match) => match[1])));
+  const resolved = new Map<string, string>();
+
+  await Promise.all(cids.map(async (cid) => {
+    const attachment = findByCid(attachments, cid);
+    if (!attachment || !isPreviewable(attachment) || attachment.contentType === 'application/pdf') return;
+    try {
+      resolved.set(cid, await blobToDataUrl(await load(attachment)));
+    } catch (err) {
+      console.error(err);
+    }
+  }));
+
+  return html.replace(CID_REFERENCE, (match, cid) => resolved.get(cid) ?? match);
+}
@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import en from '../locales/en.ts';
+import fr from '../locales/fr.ts';
+import { AuthExpiredError, MailApiError, RateLimitError, UpstreamError } from './mailClient.ts';
+
+// Message catalogs and locale-aware formatting for the UI; components get them from useI18n()
+
+/** A translated string, or its plural forms when it takes a `{count}`. */
+export type CatalogEntry = string | { one: string; other: string };
+
+export type MessageKey = keyof typeof en;
+
+export type Catalog = Record<MessageKey, CatalogEntry>;
+
+export type Locale = 'en' | 'fr';
+
+export type TranslateParams = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, params?: TranslateParams) => string;
+
+/** The languages offered in the header, each named in its own language. */
+export const LOCALES: { code: Locale; name: string }[] = [
+  { code: 'en', name: 'English' },
+  { code: 'fr', name: 'Français' },
+];
+
+const CATALOGS: Record<Locale, Catalog> = { en, fr };
+
+const LOCALE_KEY = 'kas_temp_mail_locale';
+
+const isLocale = (value: string | null | undefined): value is Locale => LOCALES.some((locale) => locale.code === value);
+
+/** The language picked earlier, else the browser's first supported one, else English. */
+export function loadLocale(): Locale {
+  const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(LOCALE_KEY) : null;
+  if (isLocale(saved)) return saved;
+  const preferred = typeof navigator !== 'undefined' ? navigator.languages || [navigator.language] : [];
+  return preferred.map((tag) => tag.split('-')[0].toLowerCase()).find(isLocale) || 'en';
+}
+
+export function saveLocale(locale: Locale) {
+  localStorage.setItem(LOCALE_KEY, locale);
+}
+
+/** Looks keys up in the locale's catalog, picking plural forms by `count` and filling in `{name}` params. */
+export function createTranslator(locale: Locale): Translate {
+  const plurals = new Intl.PluralRules(locale);
+  return (key, params = {}) => {
+    const entry = CATALOGS[locale][key] ?? en[key];
+    const text = typeof entry === 'string' ? entry : plurals.select(Number(params.count)) === 'one' ? entry.one : entry.other;
+    return text.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+  };
+}
+
+/** "now", "5 min ago", "yesterday"; older dates are shown as a date. */
+export function formatRelativeTime(locale: Locale, date: string, now = Date.now()) {
+  const seconds = Math.round((Date.parse(date) - now) / 1000);
+  const elapsed = Math.abs(seconds);
+  const relative = new Intl.RelativeTimeFormat(locale, { numeric: 'auto', style: 'short' });
+  if (elapsed < 45) return relative.format(0, 'second');
+  if (elapsed < 45 * 60) return relative.format(Math.round(seconds / 60), 'minute');
+  if (elapsed < 22 * 60 * 60) return relative.format(Math.round(seconds / 3600), 'hour');
+  if (elapsed < 6 * 24 * 60 * 60) return relative.format(Math.round(seconds / 86400), 'day');
+  return new Intl.DateTimeFormat(locale, { dateStyle: 'medium' }).format(new Date(date));
+}
+
+export const formatDateTime = (locale: Locale, date: string) =>
+  new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'short' }).format(new Date(date));
+
+const DURATION_UNITS: [Intl.NumberFormatOptions['unit'], number][] = [
+  ['day', 24 * 60 * 60],
+  ['hour', 60 * 60],
+  ['minute', 60],
+  ['second', 1],
+];
+
+/** A whole number of days, hours, minutes or seconds: "1 hour", or "1h" when `narrow`. */
+export function formatDuration(locale: Locale, seconds: number, narrow = false) {
+  const [unit, size] = DURATION_UNITS.find(([, size]) => seconds % size === 0) || DURATION_UNITS[3];
+  return new Intl.NumberFormat(locale, { style: 'unit', unit, unitDisplay: narrow ? 'narrow' : 'long' }).format(seconds / size);
+}
+
+/**
+ * The text of the error toast. Failures the client can classify get a translated message;
+ * other API errors keep the server's own message.
+ */
+export function describeError(error: unknown, t: Translate): { message: string; requestId?: string } {
+  if (typeof error === 'string') return { message: error };
+  const requestId = error instanceof MailApiError ? error.requestId : undefined;
+  if (error instanceof RateLimitError) {
+    return { message: error.retryAfter ? t('error.rateLimited', { count: error.retryAfter }) : t('error.rateLimitedNow'), requestId };
+  }
+  if (error instanceof UpstreamError) return { message: t(error.status === 0 ? 'error.offline' : 'error.upstream'), requestId };
+  if (error instanceof AuthExpiredError) return { message: t('error.authExpired'), requestId };
+  return { message: (error as Error)?.message || t('error.generic'), requestId };
+}
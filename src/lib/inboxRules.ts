@@ -0,0 +1,141 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { HighlightColor, InboxRule, Message, RuleAction, RuleField, RuleOperator, RuleOutcome } from '../types.ts';
+import { createTranslator, Translate } from './i18n.ts';
+
+// Client-side inbox rules: matching, ordering, and the JSON rule sets teams share
+
+export const RULE_FIELDS: RuleField[] = ['from', 'subject', 'intro'];
+export const RULE_OPERATORS: RuleOperator[] = ['contains', 'regex', 'domain'];
+export const RULE_ACTIONS: RuleAction[] = ['label', 'highlight', 'pin', 'delete'];
+export const HIGHLIGHT_COLORS: HighlightColor[] = ['amber', 'sky', 'rose', 'violet'];
+
+const RULE_SET_VERSION = 1;
+const MAX_RULES = 50;
+const MAX_VALUE_LENGTH = 200;
+const MAX_LABEL_LENGTH = 30;
+
+const fieldValue = (message: Message, field: RuleField) =>
+  field === 'from' ? message.from.address : field === 'subject' ? message.subject : message.intro;
+
+// Problems are worded in English unless the caller passes the UI's translator
+const english = createTranslator('en');
+
+const normalizeDomain = (value: string) => value.trim().toLowerCase().replace(/^@/, '');
+
+/** Why the rule cannot be used, or null when it is valid. */
+export function ruleError(rule: Omit<InboxRule, 'id'>, t: Translate = english): string | null {
+  if (!RULE_FIELDS.includes(rule.field)) return t('rules.error.field');
+  if (!RULE_OPERATORS.includes(rule.operator)) return t('rules.error.operator');
+  if (!RULE_ACTIONS.includes(rule.action)) return t('rules.error.action');
+  if (typeof rule.value !== 'string' || !rule.value.trim()) return t('rules.error.value');
+  if (rule.value.length > MAX_VALUE_LENGTH) return t('rules.error.valueLength', { max: MAX_VALUE_LENGTH });
+  if (rule.operator === 'domain' && rule.field !== 'from') return t('rules.error.domainField');
+  if (rule.operator === 'regex') {
+    try {
+      new RegExp(rule.value, 'i');
+    } catch {
+      return t('rules.error.regex');
+    }
+  }
+  if (rule.action === 'label' && (typeof rule.label !== 'string' || !rule.label.trim())) return t('rules.error.label');
+  if (rule.action === 'label' && rule.label!.length > MAX_LABEL_LENGTH) return t('rules.error.labelLength', { max: MAX_LABEL_LENGTH });
+  if (rule.action === 'highlight' && !HIGHLIGHT_COLORS.includes(rule.color!)) return t('rules.error.color');
+  return null;
+}
+
+/** Returns a test for the rule's condition; invalid rules never match. */
+const compile = (rule: InboxRule): ((message: Message) => boolean) => {
+  if (ruleError(rule)) return () => false;
+  if (rule.operator === 'regex') {
+    const pattern = new RegExp(rule.value, 'i');
+    return (message) => pattern.test(fieldValue(message, rule.field));
+  }
+  if (rule.operator === 'domain') {
+    const domain = normalizeDomain(rule.value);
+    return (message) => {
+      const host = message.from.address.toLowerCase().split('@').pop() || '';
+      return host === domain || host.endsWith(`.${domain}`);
+    };
+  }
+  const needle = rule.value.toLowerCase();
+  return (message) => fieldValue(message, rule.field).toLowerCase().includes(needle);
+};
+
+export const matchesRule = (rule: InboxRule, message: Message) => compile(rule)(message);
+
+/** The outcome of the enabled rules for each message that at least one of them matches. */
+export function evaluateRules(rules: InboxRule[], messages: Message[]): Map<string, RuleOutcome> {
+  const active = rules.filter((rule) => rule.enabled).map((rule) => ({ rule, test: compile(rule) }));
+  const outcomes = new Map<string, RuleOutcome>();
+  if (active.length === 0) return outcomes;
+
+  for (const message of messages) {
+    const outcome: RuleOutcome = { labels: [], highlight: null, pinned: false, deleted: false };
+    let matched = false;
+    for (const { rule, test } of active) {
+      if (!test(message)) continue;
+      matched = true;
+      if (rule.action === 'label' && !outcome.labels.includes(rule.label!.trim())) outcome.labels.push(rule.label!.trim());
+      // The first matching highlight wins, so rule order sets the priority
+      if (rule.action === 'highlight') outcome.highlight ??= rule.color!;
+      if (rule.action === 'pin') outcome.pinned = true;
+      if (rule.action === 'delete') outcome.deleted = true;
+    }
+    if (matched) outcomes.set(message.id, outcome);
+  }
+  return outcomes;
+}
+
+/** The list as shown: auto-deleted messages dropped, pinned ones first, otherwise newest first as listed. */
+export const orderMessages = (messages: Message[], outcomes: Map<string, RuleOutcome>) => {
+  const kept = messages.filter((message) => !outcomes.get(message.id)?.deleted);
+  return [
+    ...kept.filter((message) => outcomes.get(message.id)?.pinned),
+    ...kept.filter((message) => !outcomes.get(message.id)?.pinned),
+  ];
+};
+
+export const newRuleId = () => `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** A rule set file, without the rule IDs, which are local to the browser. */
+export function exportRuleSet(rules: InboxRule[]): string {
+  return JSON.stringify({
+    version: RULE_SET_VERSION,
+    exportedAt: new Date().toISOString(),
+    rules: rules.map(({ id, ...rule }) => rule),
+  }, null, 2);
+}
+
+/** Reads a rule set file, throwing an error that names the first problem found. */
+export function importRuleSet(text: string, t: Translate = english): InboxRule[] {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error(t('rules.error.json'));
+  }
+  if (data?.version !== RULE_SET_VERSION || !Array.isArray(data.rules)) {
+    throw new Error(t('rules.error.version', { version: RULE_SET_VERSION }));
+  }
+  if (data.rules.length > MAX_RULES) throw new Error(t('rules.error.tooMany', { max: MAX_RULES }));
+
+  return data.rules.map((entry: any, index: number): InboxRule => {
+    const rule: InboxRule = {
+      id: newRuleId(),
+      field: entry?.field,
+      operator: entry?.operator,
+      value: entry?.value,
+      action: entry?.action,
+      ...(entry?.action === 'label' && { label: entry.label }),
+      ...(entry?.action === 'highlight' && { color: entry.color }),
+      enabled: entry?.enabled !== false,
+    };
+    const error = ruleError(rule, t);
+    if (error) throw new Error(t('rules.error.rule', { index: index + 1, error }));
+    return rule;
+  });
+}
@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { InboxRule, SavedInbox } from '../types.ts';
+
+const INBOXES_KEY = 'kas_temp_mail_inboxes';
+const ACTIVE_KEY = 'kas_temp_mail_active';
+// Inbox rules of every saved inbox, by inbox id
+const RULES_KEY = 'kas_temp_mail_rules';
+// Single-inbox key used before the inbox manager existed
+const LEGACY_ACCOUNT_KEY = 'kas_temp_mail_account';
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : fallback;
+  } catch (e) {
+    console.error(`Ignoring corrupt ${key} in localStorage`);
+    return fallback;
+  }
+};
+
+export function loadInboxes(): SavedInbox[] {
+  const inboxes = readJson<SavedInbox[]>(INBOXES_KEY, []);
+  if (inboxes.length > 0) return inboxes;
+
+  const legacy = readJson<SavedInbox | null>(LEGACY_ACCOUNT_KEY, null);
+  if (!legacy) return [];
+  const migrated = [{ ...legacy, label: '', createdAt: new Date().toISOString() }];
+  localStorage.setItem(INBOXES_KEY, JSON.stringify(migrated));
+  localStorage.setItem(ACTIVE_KEY, legacy.id);
+  localStorage.removeItem(LEGACY_ACCOUNT_KEY);
+  return migrated;
+}
+
+export function loadActiveId(): string | null {
+  return localStorage.getItem(ACTIVE_KEY);
+}
+
+export function saveInboxes(inboxes: SavedInbox[], activeId: string | null) {
+  localStorage.setItem(INBOXES_KEY, JSON.stringify(inboxes));
+  if (activeId) {
+    localStorage.setItem(ACTIVE_KEY, activeId);
+  } else {
+    localStorage.removeItem(ACTIVE_KEY);
+  }
+}
+
+export function loadRules(inboxId: string): InboxRule[] {
+  return readJson<Record<string, InboxRule[]>>(RULES_KEY, {})[inboxId] || [];
+}
+
+/** Stores the inbox's rules; an empty list forgets the inbox. */
+export function saveRules(inboxId: string, rules: InboxRule[]) {
+  const { [inboxId]: _, ...others } = readJson<Record<string, InboxRule[]>>(RULES_KEY, {});
+  localStorage.setItem(RULES_KEY, JSON.stringify(rules.length ? { ...others, [inboxId]: rules } : others));
+}
@@ -0,0 +1,320 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { API_BASE } from '../config.ts';
+import {
+  AccountExpiry,
+  ArchiveFormat,
+  BulkAction,
+  BulkResult,
+  CreatedInbox,
+  CreatedWebhook,
+  Domain,
+  ForwardingRule,
+  MessageAnalysis,
+  MessageDetail,
+  MessageList,
+  MessageSource,
+  SentItem,
+  Share,
+  ShareScope,
+  SharedInbox,
+  Webhook,
+  WebhookDelivery,
+} from '../types.ts';
+
+/** Any non-2xx answer from the API, with the `{ error, details }` it carried. */
+export class MailApiError extends Error {
+  status: number;
+  details?: string;
+  /** The server's X-Request-Id for the failed request, to quote when reporting it. */
+  requestId?: string;
+
+  constructor(status: number, message: string, details?: string) {
+    super(message);
+    this.name = 'MailApiError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+/** The bearer token was rejected (401): request a new one and try again. */
+export class AuthExpiredError extends MailApiError {
+  constructor(message: string, details?: string) {
+    super(401, message, details);
+    this.name = 'AuthExpiredError';
+  }
+}
+
+/** Too many requests (429), from the server's own limits or the mail service's. */
+export class RateLimitError extends MailApiError {
+  /** Seconds to wait, from the Retry-After header. */
+  retryAfter?: number;
+
+  constructor(message: string, retryAfter?: number, details?: string) {
+    super(429, message, details);
+    this.name = 'RateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/** The server or the mail service behind it failed (502-504), or could not be reached (status 0). */
+export class UpstreamError extends MailApiError {
+  constructor(status: number, message: string, details?: string) {
+    super(status, message, details);
+    this.name = 'UpstreamError';
+  }
+}
+
+export interface MailClientOptions {
+  /** Where the /mail routes live; absolute when used outside the browser. */
+  baseUrl?: string;
+  fetch?: typeof fetch;
+  /** Extra attempts for idempotent requests that fail with an UpstreamError. */
+  retries?: number;
+  /** Delay before the first retry in ms, doubled for each further attempt. */
+  retryDelay?: number;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface ListMessagesOptions extends RequestOptions {
+  page?: number;
+  q?: string;
+  unread?: boolean;
+  hasAttachments?: boolean;
+  /** ISO timestamp; only messages received at or after it. */
+  since?: string;
+}
+
+export interface WaitOptions extends RequestOptions {
+  from?: string;
+  /** Regular expressions, matched case-insensitively by the server. */
+  subject?: string;
+  body?: string;
+  since?: string;
+  /** Seconds the server waits before giving up. */
+  timeout?: number;
+}
+
+interface RequestInitOptions extends RequestOptions {
+  token?: string;
+  body?: unknown;
+  /** Resolve with the response body as a Blob instead of parsed JSON. */
+  blob?: boolean;
+}
+
+const RETRYABLE_STATUSES = [502, 503, 504];
+const IDEMPOTENT_METHODS = ['GET', 'PUT', 'PATCH', 'DELETE'];
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const errorFor = (res: Response, message: string, details?: string) => {
+  if (res.status === 401) return new AuthExpiredError(message, details);
+  if (res.status === 429) {
+    const retryAfter = Number(res.headers.get('Retry-After')) || undefined;
+    return new RateLimitError(message, retryAfter, details);
+  }
+  if (RETRYABLE_STATUSES.includes(res.status)) return new UpstreamError(res.status, message, details);
+  return new MailApiError(res.status, message, details);
+};
+
+/** Typed error for a failed response; `fallback` is used when the body has no message. */
+export const toError = async (res: Response, fallback = `Request failed with status ${res.status}`) => {
+  const data = await res.json().catch(() => ({}));
+  const error = errorFor(res, data.error || data.message || fallback, data.details);
+  error.requestId = data.requestId || res.headers.get('X-Request-Id') || undefined;
+  return error;
+};
+
+const toQuery = (params: Record<string, string | number | boolean | undefined>) => {
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value === undefined || value === '' || value === false) return;
+    query.set(key, value === true ? '1' : String(value));
+  });
+  return query.toString();
+};
+
+const id = (value: string) => encodeURIComponent(value);
+
+/**
+ * Typed client for the /mail/* routes. Methods that act on an inbox take its token;
+ * renewing an expired one (on AuthExpiredError) is left to the caller.
+ */
+export function createMailClient({
+  baseUrl = API_BASE,
+  fetch: fetchImpl = (input, init) => fetch(input, init),
+  retries = 2,
+  retryDelay = 500,
+}: MailClientOptions = {}) {
+  const request = async <T>(method: string, path: string, { token, body, signal, blob }: RequestInitOptions = {}): Promise<T> => {
+    const attempts = IDEMPOTENT_METHODS.includes(method) ? retries + 1 : 1;
+    for (let attempt = 1; ; attempt++) {
+      let error: MailApiError;
+      try {
+        const res = await fetchImpl(`${baseUrl}${path}`, {
+          method,
+          signal,
+          headers: {
+            ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+            ...(token ? { Authorization: `Bearer ${token}` } : {}),
+          },
+          body: body === undefined ? undefined : JSON.stringify(body),
+        });
+        if (res.ok) return (res.status === 204 ? undefined : blob ? await res.blob() : await res.json()) as T;
+        error = await toError(res);
+      } catch (err: any) {
+        // Cancellation surfaces as the caller's own AbortError
+        if (signal?.aborted || err instanceof MailApiError) throw err;
+        error = new UpstreamError(0, 'Could not reach the mail server', err.message);
+      }
+      if (!(error instanceof UpstreamError) || attempt >= attempts) throw error;
+      await sleep(retryDelay * 2 ** (attempt - 1), signal);
+    }
+  };
+
+  return {
+    listDomains: async ({ signal }: RequestOptions = {}) =>
+      (await request<{ items: Domain[] }>('GET', '/domains', { signal })).items,
+
+    createAccount: (address: string, password: string, { signal }: RequestOptions = {}) =>
+      request<{ id: string; address: string; createdAt: string }>('POST', '/accounts', { body: { address, password }, signal }),
+
+    /** `null` when the provider cannot tell before the account is created. */
+    isAddressAvailable: async (address: string, { signal }: RequestOptions = {}) =>
+      (await request<{ available: boolean | null }>('GET', `/accounts/availability?${toQuery({ address })}`, { signal })).available,
+
+    getToken: (address: string, password: string, { signal }: RequestOptions = {}) =>
+      request<{ id: string; token: string }>('POST', '/token', { body: { address, password }, signal }),
+
+    deleteAccount: (token: string, accountId: string, { signal }: RequestOptions = {}) =>
+      request<void>('DELETE', `/accounts/${id(accountId)}`, { token, signal }),
+
+    getExpiry: (token: string, accountId: string, { signal }: RequestOptions = {}) =>
+      request<AccountExpiry>('GET', `/accounts/${id(accountId)}/expiry`, { token, signal }),
+
+    /** Deletes the account `expiresIn` seconds from now (also to extend it), or never with `null`. */
+    setExpiry: (token: string, accountId: string, expiresIn: number | null, { signal }: RequestOptions = {}) =>
+      request<AccountExpiry>('PUT', `/accounts/${id(accountId)}/expiry`, { token, body: { expiresIn }, signal }),
+
+    createInbox: (options: { domain?: string; username?: string; password?: string } = {}, { signal }: RequestOptions = {}) =>
+      request<CreatedInbox>('POST', '/inboxes', { body: options, signal }),
+
+    listMessages: (token: string, { signal, page = 1, ...filter }: ListMessagesOptions = {}) =>
+      request<MessageList>('GET', `/messages?${toQuery({ page, ...filter })}`, { token, signal }),
+
+    getMessage: (token: string, messageId: string, { signal }: RequestOptions = {}) =>
+      request<MessageDetail>('GET', `/messages/${id(messageId)}`, { token, signal }),
+
+    /** AI summary, category and risk; fails with status 501 when the server has no model configured. */
+    analyzeMessage: (token: string, messageId: string, { signal }: RequestOptions = {}) =>
+      request<MessageAnalysis>('GET', `/messages/${id(messageId)}/analysis`, { token, signal }),
+
+    setSeen: (token: string, messageId: string, seen: boolean, { signal }: RequestOptions = {}) =>
+      request<{ id: string; seen: boolean }>('PATCH', `/messages/${id(messageId)}`, { token, body: { seen }, signal }),
+
+    deleteMessage: (token: string, messageId: string, { signal }: RequestOptions = {}) =>
+      request<void>('DELETE', `/messages/${id(messageId)}`, { token, signal }),
+
+    /** Applies the action to the given messages, or to the whole inbox when `ids` is omitted. */
+    bulk: (token: string, action: BulkAction, ids?: string[], { signal }: RequestOptions = {}) =>
+      request<BulkResult>('POST', '/messages/bulk', { token, body: ids ? { action, ids } : { action, all: true }, signal }),
+
+    getSource: (token: string, messageId: string, { signal }: RequestOptions = {}) =>
+      request<MessageSource>('GET', `/messages/${id(messageId)}/source`, { token, signal }),
+
+    /** Sends `text` from the inbox to the sender (and everyone else with `all`), quoting the message. */
+    replyToMessage: (token: string, messageId: string, text: string, { signal, all = false }: RequestOptions & { all?: boolean } = {}) =>
+      request<SentItem>('POST', `/messages/${id(messageId)}/reply`, { token, body: { text, all }, signal }),
+
+    /** Sends the message on, attachments included, below an optional note. */
+    forwardMessage: (token: string, messageId: string, to: string[], text?: string, { signal }: RequestOptions = {}) =>
+      request<SentItem>('POST', `/messages/${id(messageId)}/forward`, { token, body: { to, text }, signal }),
+
+    /** The inbox's last 50 replies and forwards, newest first. */
+    listSent: async (token: string, { signal }: RequestOptions = {}) =>
+      (await request<{ items: SentItem[] }>('GET', '/sent', { token, signal })).items,
+
+    listForwardingRules: async (token: string, { signal }: RequestOptions = {}) =>
+      (await request<{ items: ForwardingRule[] }>('GET', '/forwarding-rules', { token, signal })).items,
+
+    createForwardingRule: (token: string, rule: { to: string; from?: string; subject?: string }, { signal }: RequestOptions = {}) =>
+      request<ForwardingRule>('POST', '/forwarding-rules', { token, body: rule, signal }),
+
+    deleteForwardingRule: (token: string, ruleId: string, { signal }: RequestOptions = {}) =>
+      request<void>('DELETE', `/forwarding-rules/${id(ruleId)}`, { token, signal }),
+
+    /** Every message as one file: an mbox, or a ZIP of .eml files, attachments and manifest.json. */
+    exportInbox: (token: string, format: ArchiveFormat = 'zip', { signal }: RequestOptions = {}) =>
+      request<Blob>('GET', `/messages/export?${toQuery({ format })}`, { token, signal, blob: true }),
+
+    listWebhooks: async (token: string, { signal }: RequestOptions = {}) =>
+      (await request<{ items: Webhook[] }>('GET', '/webhooks', { token, signal })).items,
+
+    /** Omit `secret` to have one generated; either way it is only returned here. */
+    createWebhook: (token: string, url: string, secret?: string, { signal }: RequestOptions = {}) =>
+      request<CreatedWebhook>('POST', '/webhooks', { token, body: { url, secret }, signal }),
+
+    deleteWebhook: (token: string, webhookId: string, { signal }: RequestOptions = {}) =>
+      request<void>('DELETE', `/webhooks/${id(webhookId)}`, { token, signal }),
+
+    listWebhookDeliveries: async (token: string, webhookId: string, { signal }: RequestOptions = {}) =>
+      (await request<{ items: WebhookDelivery[] }>('GET', `/webhooks/${id(webhookId)}/deliveries`, { token, signal })).items,
+
+    /** Sends a test event; resolves with the delivery once its first attempt is done. */
+    testWebhook: (token: string, webhookId: string, { signal }: RequestOptions = {}) =>
+      request<WebhookDelivery>('POST', `/webhooks/${id(webhookId)}/test`, { token, signal }),
+
+    listShares: async (token: string, { signal }: RequestOptions = {}) =>
+      (await request<{ items: Share[] }>('GET', '/shares', { token, signal })).items,
+
+    /** A read-only link to the inbox, or to one message with `scope: 'message'`; `expiresIn` is in seconds. */
+    createShare: (token: string, options: { scope: ShareScope; messageId?: string; expiresIn?: number }, { signal }: RequestOptions = {}) =>
+      request<Share>('POST', '/shares', { token, body: options, signal }),
+
+    deleteShare: (token: string, shareId: string, { signal }: RequestOptions = {}) =>
+      request<void>('DELETE', `/shares/${id(shareId)}`, { token, signal }),
+
+    /** The calls below take a share link's token instead of an inbox token. */
+    getShared: (shareToken: string, { signal }: RequestOptions = {}) =>
+      request<SharedInbox>('GET', `/shared/${id(shareToken)}`, { signal }),
+
+    listSharedMessages: (shareToken: string, { signal, page = 1, ...filter }: ListMessagesOptions = {}) =>
+      request<MessageList>('GET', `/shared/${id(shareToken)}/messages?${toQuery({ page, ...filter })}`, { signal }),
+
+    getSharedMessage: (shareToken: string, messageId: string, { signal }: RequestOptions = {}) =>
+      request<MessageDetail>('GET', `/shared/${id(shareToken)}/messages/${id(messageId)}`, { signal }),
+
+    /** Long-polls for a matching message; resolves with null when the server times out (408). */
+    async waitForMessage(token: string, { signal, ...criteria }: WaitOptions = {}) {
+      try {
+        return await request<MessageDetail>('GET', `/wait?${toQuery(criteria)}`, { token, signal });
+      } catch (err) {
+        if (err instanceof MailApiError && err.status === 408) return null;
+        throw err;
+      }
+    },
+  };
+}
+
+export type MailClient = ReturnType<typeof createMailClient>;
+
+/** Shared client for the web app, talking to the same origin. */
+export const mailClient = createMailClient();
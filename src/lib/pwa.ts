@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Message, SavedInbox } from '../types.ts';
+import { Translate } from './i18n.ts';
+
+const NOTIFY_KEY = 'kas_temp_mail_notify';
+
+/** What a notification click asks the app to open, from the service worker or the page. */
+export interface OpenMessageRequest {
+  inboxId: string;
+  messageId: string;
+}
+
+export const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+/** Whether the user turned notifications on, and the browser still allows them. */
+export function loadNotifyEnabled() {
+  return notificationsSupported() && Notification.permission === 'granted' && localStorage.getItem(NOTIFY_KEY) === '1';
+}
+
+/** Asks for permission when turning notifications on; resolves with the resulting setting. */
+export async function setNotifyEnabled(enabled: boolean) {
+  if (enabled && (await Notification.requestPermission()) !== 'granted') enabled = false;
+  if (enabled) {
+    localStorage.setItem(NOTIFY_KEY, '1');
+  } else {
+    localStorage.removeItem(NOTIFY_KEY);
+  }
+  return enabled;
+}
+
+/** Registers public/sw.js, which makes the app installable and keeps it usable offline. */
+export function registerServiceWorker() {
+  if (!('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((err) => console.error('Service worker registration failed', err));
+  });
+}
+
+/**
+ * Asks the service worker to drop the mail it cached for offline use with these tokens,
+ * or for every inbox when called without any.
+ */
+export async function purgeCachedMail(tokens?: string[]) {
+  const registration = await navigator.serviceWorker?.getRegistration();
+  registration?.active?.postMessage({ type: 'purge-mail', tokens });
+}
+
+/**
+ * Shows a new-mail notification with the sender, subject and any code found in it. Goes
+ * through the service worker when there is one, so clicks work even once the tab is gone;
+ * `onOpen` handles clicks on page notifications otherwise.
+ */
+export async function notifyNewMessage(inbox: SavedInbox, message: Message, t: Translate, onOpen: (request: OpenMessageRequest) => void) {
+  const code = message.extracted?.codes[0];
+  const title = message.from.name || message.from.address || t('notify.newEmail');
+  const data: OpenMessageRequest = { inboxId: inbox.id, messageId: message.id };
+  const options: NotificationOptions = {
+    body: [message.subject || t('inbox.noSubject'), code && t('notify.code', { code }), inbox.label || inbox.address].filter(Boolean).join('\n'),
+    icon: '/icon.svg',
+    tag: message.id,
+    data,
+  };
+
+  const registration = await navigator.serviceWorker?.getRegistration();
+  if (registration) return registration.showNotification(title, options);
+  const notification = new Notification(title, options);
+  notification.onclick = () => {
+    window.focus();
+    notification.close();
+    onOpen(data);
+  };
+}
+
+/** The message a notification click opened this window for (see public/sw.js), if any. */
+export function openRequestFromUrl(): OpenMessageRequest | null {
+  const params = new URLSearchParams(window.location.search);
+  const inboxId = params.get('inbox');
+  const messageId = params.get('message');
+  return inboxId && messageId ? { inboxId, messageId } : null;
+}
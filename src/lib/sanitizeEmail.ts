@@ -0,0 +1,135 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import DOMPurify from 'dompurify';
+
+/** One kind of removed content: an element by tag name, event handlers or tracking pixels. */
+export interface StrippedContent {
+  kind: 'element' | 'handler' | 'pixel';
+  /** The element's tag name, e.g. "script". */
+  tag?: string;
+  count: number;
+}
+
+export interface SanitizedEmail {
+  /** Complete document for the sandboxed iframe's srcdoc. */
+  document: string;
+  /** What was removed, in the order first found; the UI words it. */
+  stripped: StrippedContent[];
+  /** Number of remote images, stylesheets and tracking pixels that were blocked. */
+  blockedRemote: number;
+}
+
+// Active content and anything that could submit data or load other documents
+const FORBID_TAGS = [
+  'script', 'noscript', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet',
+  'form', 'input', 'button', 'textarea', 'select', 'option', 'base', 'meta', 'link',
+];
+
+const REMOTE_URL = /^\s*(https?:)?\/\//i;
+const CSS_REMOTE_URL = /url\(\s*(['"]?)\s*(https?:)?\/\/[^)]*\1\s*\)/gi;
+const CSS_IMPORT = /@import\s+[^;]+;?/gi;
+// Harmless document chrome (and FORCE_BODY's own placeholder) that is not worth a warning
+const UNREPORTED_TAGS = ['meta', 'title', 'remove'];
+const REMOTE_ATTRIBUTES = ['src', 'srcset', 'background', 'poster'];
+
+const isTrackingPixel = (el: Element) => {
+  const size = (name: string) => parseInt(el.getAttribute(name) || '', 10);
+  return el.tagName === 'IMG' && size('width') <= 1 && size('height') <= 1;
+};
+
+const isRemote = (attr: string, value: string) =>
+  attr === 'srcset' ? value.split(',').some((candidate) => REMOTE_URL.test(candidate)) : REMOTE_URL.test(value);
+
+const stripRemoteCss = (css: string) => css.replace(CSS_IMPORT, '').replace(CSS_REMOTE_URL, 'none');
+
+const buildDocument = (body: string, allowRemote: boolean) => {
+  const remote = allowRemote ? ' https: http:' : '';
+  const csp = [
+    "default-src 'none'",
+    `img-src data: blob:${remote}`,
+    `style-src 'unsafe-inline'${remote}`,
+    `font-src data:${remote}`,
+  ].join('; ');
+  return `<!doctype html><html><head><meta charset="utf-8">`
+    + `<meta http-equiv="Content-Security-Policy" content="${csp}">`
+    + `<style>body{margin:0;font-family:ui-sans-serif,system-ui,sans-serif;font-size:14px;line-height:1.5;color:#374151;word-wrap:break-word}img{max-width:100%;height:auto}</style>`
+    + `</head><body>${body}</body></html>`;
+};
+
+/**
+ * Sanitizes an incoming HTML body for display in a sandboxed iframe. Remote content is
+ * blocked unless `allowRemote` is set; links always open in a new tab with noopener.
+ */
+export function sanitizeEmailHtml(html: string, allowRemote = false): SanitizedEmail {
+  const removed = new Map<string, StrippedContent>();
+  const count = (kind: StrippedContent['kind'], tag?: string) => {
+    const key = tag ? `${kind}:${tag}` : kind;
+    const entry = removed.get(key);
+    if (entry) entry.count++;
+    else removed.set(key, { kind, ...(tag && { tag }), count: 1 });
+  };
+  let blockedRemote = 0;
+
+  const purify = DOMPurify();
+
+  purify.addHook('uponSanitizeElement', (node, data) => {
+    if (data.tagName === 'style' && !allowRemote && node.textContent) {
+      const css = node.textContent;
+      const cleaned = stripRemoteCss(css);
+      if (cleaned !== css) {
+        blockedRemote++;
+        node.textContent = cleaned;
+      }
+    }
+  });
+
+  purify.addHook('afterSanitizeAttributes', (node) => {
+    const el = node as Element;
+    if (!el.getAttribute) return;
+
+    if (el.tagName === 'A' && el.getAttribute('href')) {
+      el.setAttribute('target', '_blank');
+      el.setAttribute('rel', 'noopener noreferrer');
+    }
+
+    if (allowRemote) return;
+
+    if (isTrackingPixel(el) && REMOTE_URL.test(el.getAttribute('src') || '')) {
+      count('pixel');
+    }
+    for (const attr of REMOTE_ATTRIBUTES) {
+      const value = el.getAttribute(attr);
+      if (value && isRemote(attr, value)) {
+        el.removeAttribute(attr);
+        el.setAttribute(`data-blocked-${attr}`, value);
+        blockedRemote++;
+      }
+    }
+    const style = el.getAttribute('style');
+    if (style && stripRemoteCss(style) !== style) {
+      el.setAttribute('style', stripRemoteCss(style));
+      blockedRemote++;
+    }
+  });
+
+  const body = purify.sanitize(html, {
+    FORBID_TAGS,
+    FORBID_ATTR: ['formaction', 'action', 'ping'],
+    // Keep leading <style> blocks, which would otherwise be hoisted into <head> and lost
+    FORCE_BODY: true,
+  }) as string;
+
+  for (const entry of purify.removed) {
+    if ('element' in entry && entry.element instanceof Element) {
+      const tag = entry.element.tagName.toLowerCase();
+      if (!UNREPORTED_TAGS.includes(tag)) count('element', tag);
+    } else if ('attribute' in entry && entry.attribute?.name.startsWith('on')) {
+      count('handler');
+    }
+  }
+
+  return { document: buildDocument(body, allowRemote), stripped: Array.from(removed.values()), blockedRemote };
+}
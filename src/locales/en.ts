@@ -0,0 +1,289 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { CatalogEntry } from '../lib/i18n.ts';
+
+// The English catalog, which defines every message key. `{name}` marks a parameter, and
+// entries with `one` and `other` forms are picked by their `{count}`.
+
+const en = {
+  'app.secure': 'Secure',
+  'app.temporary': 'Temporary',
+  'app.language': 'Language',
+  'app.notifyOn': 'Notify me about new mail',
+  'app.notifyOff': 'Turn off new mail notifications',
+  'app.newAddress': 'New Address',
+  'app.rights': 'All rights reserved.',
+  'app.tagline': 'Protecting your digital identity.',
+  'app.privacy': 'Privacy',
+  'app.terms': 'Terms',
+  'app.api': 'API',
+
+  'address.heading': 'Your Temporary Email',
+  'address.generating': 'Generating...',
+  'address.copy': 'Copy address',
+  'address.copied': 'Copied to clipboard!',
+  'address.refresh': 'Refresh',
+  'address.share': 'Share',
+  'address.shareTitle': 'Share a read-only link to this inbox',
+  'address.forwarding': 'Forwarding',
+  'address.forwardingTitle': 'Forwarding rules and sent mail',
+
+  'expiry.selfDestructs': 'Self-destructs in',
+  'expiry.extend': 'Extend +{duration}',
+
+  'sidebar.title': 'Inboxes',
+  'sidebar.add': 'Add inbox',
+  'sidebar.label': 'Label',
+  'sidebar.saveLabel': 'Save label',
+  'sidebar.rename': 'Rename {name}',
+  'sidebar.delete': 'Delete {name}',
+  'sidebar.unread': { one: '{count} unread message', other: '{count} unread messages' },
+
+  'inbox.title': 'Inbox',
+  'inbox.total': { one: '{count} message', other: '{count} messages' },
+  'inbox.rules': 'Rules',
+  'inbox.rulesTitle': 'Label, highlight, pin or auto-delete messages by sender, subject or preview',
+  'inbox.list': 'Messages',
+  'inbox.noMatches': 'No messages match your search',
+  'inbox.waiting': 'Waiting for incoming emails...',
+  'inbox.live': 'New emails appear instantly',
+  'inbox.polling': 'Updates automatically every 10 seconds',
+  'inbox.noSubject': '(No Subject)',
+  'inbox.row': '{from}: {subject}, {time}',
+  'inbox.rowUnread': 'Unread. {from}: {subject}, {time}',
+  'inbox.select': 'Select message from {from}',
+  'inbox.pinned': 'Pinned by a rule',
+  'inbox.attachments': 'Has attachments',
+  'inbox.delete': 'Delete message from {from}',
+  'inbox.loadOlder': 'Load older messages ({count} more)',
+  'inbox.keys': 'Arrow keys move between messages, Enter opens one, Delete removes it',
+
+  'filters.search': 'Search sender, subject or body',
+  'filters.clear': 'Clear search',
+  'filters.unread': 'Unread',
+  'filters.attachments': 'Attachments',
+  'filters.within': 'Received within {duration}',
+
+  'toolbar.selectAll': 'Select all loaded messages',
+  'toolbar.selected': '{count} selected',
+  'toolbar.read': 'Read',
+  'toolbar.unread': 'Unread',
+  'toolbar.delete': 'Delete',
+  'toolbar.markAllRead': 'Mark all read',
+  'toolbar.empty': 'Empty inbox',
+  'toolbar.shortcuts': 'Shortcuts: j/k next/previous, e delete, u toggle unread, Esc close',
+
+  'archive.zip': 'Download every message as .eml files with attachments',
+  'archive.mbox': 'Download every message as one mbox file',
+  'archive.open': 'Open',
+  'archive.openTitle': 'Open an exported archive (read-only)',
+  'archive.empty': '{name} does not contain any messages',
+
+  'viewer.label': 'Message from {from}',
+  'viewer.back': 'Back to the inbox',
+  'viewer.reply': 'Reply from this address',
+  'viewer.forward': 'Forward',
+  'viewer.share': 'Share a read-only link to this message',
+  'viewer.markUnread': 'Mark as unread (u)',
+  'viewer.delete': 'Delete (e)',
+  'viewer.unknownSender': 'Unknown',
+  'viewer.tabs': 'Message view',
+  'viewer.message': 'Message',
+  'viewer.source': 'View source',
+  'viewer.emptyTitle': 'Select an email to read',
+  'viewer.emptyBody': 'Click on any message from the inbox on the left to view its full content here.',
+
+  'attachments.count': { one: '{count} Attachment', other: '{count} Attachments' },
+  'attachments.preview': 'Preview {name}',
+  'attachments.hidePreview': 'Hide the preview of {name}',
+  'attachments.download': 'Download {name}',
+
+  'chips.copyCode': 'Copy code {code}',
+  'chips.copyLink': 'Copy link: {link}',
+  'chips.copied': 'Copied {value}',
+
+  'category.verification': 'Verification',
+  'category.newsletter': 'Newsletter',
+  'category.receipt': 'Receipt',
+  'category.marketing': 'Marketing',
+  'category.suspicious': 'Suspicious',
+  'category.other': 'Other',
+  'category.risky': '{category} · Risky',
+
+  'analysis.high': 'Likely phishing or spam',
+  'analysis.medium': 'Be careful with this message',
+  'analysis.score': 'Risk {score}/100',
+  'analysis.summary': 'AI summary',
+
+  'live.newMail': { one: 'New message from {from}: {subject}', other: '{count} new messages, the latest from {from}' },
+
+  'notify.newEmail': 'New email',
+  'notify.code': 'Code: {code}',
+
+  'confirm.empty': 'Delete every message in {address}?',
+  'confirm.deleteInbox': 'Delete {address}? Its messages will be lost.',
+
+  'common.loading': 'Loading...',
+  'common.close': 'Close',
+  'common.readOnly': 'Read-only',
+
+  'addressDialog.create': 'New address',
+  'addressDialog.login': 'Existing address',
+  'addressDialog.address': 'Address',
+  'addressDialog.domain': 'Domain',
+  'addressDialog.password': 'Password',
+  'addressDialog.usernamePlaceholder': 'random',
+  'addressDialog.usernameShort': 'Use at least 3 characters.',
+  'addressDialog.usernameLong': 'Use at most 64 characters.',
+  'addressDialog.usernameChars': 'Only lowercase letters, digits, dots, dashes and underscores, starting and ending with a letter or digit.',
+  'addressDialog.passwordShort': 'Use at least {count} characters.',
+  'addressDialog.checking': 'Checking availability...',
+  'addressDialog.available': 'Available',
+  'addressDialog.taken': 'This address is already taken',
+  'addressDialog.randomHint': 'Leave empty for a random username.',
+  'addressDialog.passwordPlaceholder': 'Generated automatically',
+  'addressDialog.passwordHint': 'Saved in this browser so the inbox can be reopened later.',
+  'addressDialog.lifetime': 'Self-destruct',
+  'addressDialog.lifetimeHint': 'The address and its mail are deleted when the time runs out.',
+  'addressDialog.forever': 'Until deleted',
+  'addressDialog.submitCreate': 'Create address',
+  'addressDialog.submitLogin': 'Open inbox',
+
+  'html.removed': 'Removed for your safety:',
+  'html.element': { one: '{count} <{tag}> element', other: '{count} <{tag}> elements' },
+  'html.handler': { one: '{count} event handler', other: '{count} event handlers' },
+  'html.pixel': { one: '{count} tracking pixel', other: '{count} tracking pixels' },
+  'html.blocked': 'Remote content blocked:',
+  'html.blockedItems': { one: '{count} item (images, trackers, stylesheets)', other: '{count} items (images, trackers, stylesheets)' },
+  'html.loaded': 'Remote content is loaded for this message.',
+  'html.load': 'Load remote content',
+  'html.block': 'Block remote content',
+  'html.frameTitle': 'Email content',
+
+  'source.headers': { one: '{count} Header', other: '{count} Headers' },
+  'source.download': 'Download .eml',
+  'source.raw': 'Raw Source',
+
+  'rules.title': 'Inbox rules',
+  'rules.intro': 'Rules run in this browser on every refresh of the inbox, in order. Auto-delete removes matching messages from the server.',
+  'rules.none': 'No rules yet.',
+  'rules.enable': 'Enable rule',
+  'rules.delete': 'Delete rule',
+  'rules.condition': '{field} {operator} "{value}"',
+  'rules.matched': { one: '{count} loaded message', other: '{count} loaded messages' },
+  'rules.new': 'New rule',
+  'rules.field.from': 'Sender address',
+  'rules.field.subject': 'Subject',
+  'rules.field.intro': 'Preview text',
+  'rules.operator.contains': 'contains',
+  'rules.operator.regex': 'matches regex',
+  'rules.operator.domain': 'is at domain',
+  'rules.action.label': 'Label',
+  'rules.action.highlight': 'Highlight',
+  'rules.action.pin': 'Pin to top',
+  'rules.action.delete': 'Delete automatically',
+  'rules.color.amber': 'Amber',
+  'rules.color.sky': 'Sky',
+  'rules.color.rose': 'Rose',
+  'rules.color.violet': 'Violet',
+  'rules.placeholder.contains': 'e.g. unsubscribe',
+  'rules.placeholder.regex': 'e.g. ^(sale|deal)',
+  'rules.placeholder.domain': 'e.g. newsletter.example.com',
+  'rules.labelPlaceholder': 'Label, e.g. Newsletter',
+  'rules.add': 'Add rule',
+  'rules.shareHint': 'Share rule sets as JSON',
+  'rules.import': 'Import',
+  'rules.export': 'Export',
+  'rules.confirmImportDeletes': {
+    one: 'This rule set deletes matching mail from the server automatically:\n\n{rules}\n\nTurn this rule on? Cancel imports it switched off.',
+    other: 'This rule set deletes matching mail from the server automatically:\n\n{rules}\n\nTurn these {count} rules on? Cancel imports them switched off.',
+  },
+  'rules.error.field': 'Unknown field',
+  'rules.error.operator': 'Unknown condition',
+  'rules.error.action': 'Unknown action',
+  'rules.error.value': 'The condition needs a value',
+  'rules.error.valueLength': 'The value is longer than {max} characters',
+  'rules.error.domainField': 'Domains can only be matched on the sender',
+  'rules.error.regex': 'The regular expression is invalid',
+  'rules.error.label': 'The label is missing',
+  'rules.error.labelLength': 'The label is longer than {max} characters',
+  'rules.error.color': 'Unknown highlight colour',
+  'rules.error.json': 'The rule set is not valid JSON',
+  'rules.error.version': 'Not a version {version} rule set',
+  'rules.error.tooMany': 'A rule set holds at most {max} rules',
+  'rules.error.rule': 'Rule {index}: {error}',
+
+  'share.titleInbox': 'Share this inbox',
+  'share.titleMessage': 'Share this message',
+  'share.explainInbox': 'Anyone with the link can read the inbox until it expires or you revoke it. They cannot delete or change anything.',
+  'share.explainMessage': 'Anyone with the link can read this message until it expires or you revoke it. They cannot delete or change anything.',
+  'share.expiresIn': 'Expires in {duration}',
+  'share.create': 'Create link',
+  'share.active': 'Active links',
+  'share.none': 'No links yet.',
+  'share.wholeInbox': 'Whole inbox',
+  'share.thisMessage': 'This message',
+  'share.oneMessage': 'One message',
+  'share.expires': 'Expires {date}',
+  'share.copy': 'Copy link',
+  'share.revoke': 'Revoke',
+
+  'compose.reply': 'Reply',
+  'compose.forward': 'Forward',
+  'compose.from': 'From',
+  'compose.to': 'To',
+  'compose.forwardTo': 'Forward to, e.g. me@example.com',
+  'compose.replyAll': 'Reply to everyone the message went to',
+  'compose.replyPlaceholder': 'Write your reply...',
+  'compose.notePlaceholder': 'Add a note (optional)',
+  'compose.replyHint': 'The original message is quoted below your reply.',
+  'compose.forwardHint': 'The original message and its attachments are included.',
+  'compose.send': 'Send',
+
+  'forwarding.title': 'Forwarding',
+  'forwarding.rules': 'Rules',
+  'forwarding.intro': 'New mail matching a rule is forwarded as it arrives. Sender and subject are case-insensitive patterns; leave both empty to forward everything.',
+  'forwarding.none': 'No rules yet.',
+  'forwarding.from': 'from /{pattern}/',
+  'forwarding.subject': 'subject /{pattern}/',
+  'forwarding.all': 'All mail',
+  'forwarding.last': 'last {date}',
+  'forwarding.delete': 'Delete rule',
+  'forwarding.fromPlaceholder': 'Sender matches (optional)',
+  'forwarding.subjectPlaceholder': 'Subject matches (optional)',
+  'forwarding.add': 'Add rule',
+  'forwarding.sent': 'Sent',
+  'forwarding.noneSent': 'Nothing sent from this inbox yet.',
+  'forwarding.kind.reply': 'Reply',
+  'forwarding.kind.forward': 'Forward',
+  'forwarding.kind.autoForward': 'Auto-forward',
+  'forwarding.sentTo': '{kind} to {to} · {date}',
+
+  'archiveViewer.headers': 'Headers',
+
+  'shared.invalid': 'This link is invalid, has expired or was revoked.',
+  'shared.inbox': 'Shared inbox',
+  'shared.message': 'Shared message',
+  'shared.expires': 'Link expires {date}',
+  'shared.empty': 'No messages yet',
+  'shared.loadingMessage': 'Loading the message...',
+
+  'error.dismiss': 'Dismiss',
+  'error.requestId': 'Request ID: {id}',
+  'error.generic': 'An error occurred',
+  'error.offline': 'Could not reach the mail server. Check your connection.',
+  'error.upstream': 'The mail service is having trouble. Try again in a moment.',
+  'error.rateLimited': { one: 'Too many requests. Try again in {count} second.', other: 'Too many requests. Try again in {count} seconds.' },
+  'error.rateLimitedNow': 'Too many requests. Slow down a little.',
+  'error.authExpired': 'The inbox session expired. Log in to it again.',
+  'error.noDomains': 'No email domains available at the moment. Please try again later.',
+  'error.addressTaken': '{address} is already taken',
+  'error.noInbox': 'No active inbox',
+  'error.notificationsBlocked': 'Notifications are blocked for this site. Allow them in your browser settings first.',
+  'error.bulkFailed': { one: '{count} message could not be updated', other: '{count} messages could not be updated' },
+} satisfies Record<string, CatalogEntry>;
+
+export default en;
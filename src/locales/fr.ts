@@ -0,0 +1,286 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Catalog } from '../lib/i18n.ts';
+
+const fr: Catalog = {
+  'app.secure': 'Sécurisé',
+  'app.temporary': 'Temporaire',
+  'app.language': 'Langue',
+  'app.notifyOn': 'M’avertir des nouveaux e-mails',
+  'app.notifyOff': 'Ne plus m’avertir des nouveaux e-mails',
+  'app.newAddress': 'Nouvelle adresse',
+  'app.rights': 'Tous droits réservés.',
+  'app.tagline': 'Nous protégeons votre identité numérique.',
+  'app.privacy': 'Confidentialité',
+  'app.terms': 'Conditions',
+  'app.api': 'API',
+
+  'address.heading': 'Votre e-mail temporaire',
+  'address.generating': 'Création…',
+  'address.copy': 'Copier l’adresse',
+  'address.copied': 'Copié dans le presse-papiers !',
+  'address.refresh': 'Actualiser',
+  'address.share': 'Partager',
+  'address.shareTitle': 'Partager un lien en lecture seule vers cette boîte',
+  'address.forwarding': 'Transfert',
+  'address.forwardingTitle': 'Règles de transfert et e-mails envoyés',
+
+  'expiry.selfDestructs': 'Autodestruction dans',
+  'expiry.extend': 'Prolonger de {duration}',
+
+  'sidebar.title': 'Boîtes de réception',
+  'sidebar.add': 'Ajouter une boîte',
+  'sidebar.label': 'Nom',
+  'sidebar.saveLabel': 'Enregistrer le nom',
+  'sidebar.rename': 'Renommer {name}',
+  'sidebar.delete': 'Supprimer {name}',
+  'sidebar.unread': { one: '{count} message non lu', other: '{count} messages non lus' },
+
+  'inbox.title': 'Boîte de réception',
+  'inbox.total': { one: '{count} message', other: '{count} messages' },
+  'inbox.rules': 'Règles',
+  'inbox.rulesTitle': 'Étiqueter, surligner, épingler ou supprimer automatiquement des messages selon l’expéditeur, l’objet ou l’aperçu',
+  'inbox.list': 'Messages',
+  'inbox.noMatches': 'Aucun message ne correspond à votre recherche',
+  'inbox.waiting': 'En attente de nouveaux e-mails…',
+  'inbox.live': 'Les nouveaux e-mails apparaissent instantanément',
+  'inbox.polling': 'Mise à jour automatique toutes les 10 secondes',
+  'inbox.noSubject': '(Sans objet)',
+  'inbox.row': '{from} : {subject}, {time}',
+  'inbox.rowUnread': 'Non lu. {from} : {subject}, {time}',
+  'inbox.select': 'Sélectionner le message de {from}',
+  'inbox.pinned': 'Épinglé par une règle',
+  'inbox.attachments': 'Contient des pièces jointes',
+  'inbox.delete': 'Supprimer le message de {from}',
+  'inbox.loadOlder': 'Charger les messages plus anciens ({count} de plus)',
+  'inbox.keys': 'Les flèches passent d’un message à l’autre, Entrée en ouvre un, Suppr le supprime',
+
+  'filters.search': 'Rechercher un expéditeur, un objet ou un texte',
+  'filters.clear': 'Effacer la recherche',
+  'filters.unread': 'Non lus',
+  'filters.attachments': 'Pièces jointes',
+  'filters.within': 'Reçus depuis moins de {duration}',
+
+  'toolbar.selectAll': 'Sélectionner tous les messages chargés',
+  'toolbar.selected': { one: '{count} sélectionné', other: '{count} sélectionnés' },
+  'toolbar.read': 'Lu',
+  'toolbar.unread': 'Non lu',
+  'toolbar.delete': 'Supprimer',
+  'toolbar.markAllRead': 'Tout marquer comme lu',
+  'toolbar.empty': 'Vider la boîte',
+  'toolbar.shortcuts': 'Raccourcis : j/k suivant/précédent, e supprimer, u lu/non lu, Échap fermer',
+
+  'archive.zip': 'Télécharger tous les messages en fichiers .eml avec leurs pièces jointes',
+  'archive.mbox': 'Télécharger tous les messages dans un fichier mbox',
+  'archive.open': 'Ouvrir',
+  'archive.openTitle': 'Ouvrir une archive exportée (lecture seule)',
+  'archive.empty': '{name} ne contient aucun message',
+
+  'viewer.label': 'Message de {from}',
+  'viewer.back': 'Retour à la boîte de réception',
+  'viewer.reply': 'Répondre depuis cette adresse',
+  'viewer.forward': 'Transférer',
+  'viewer.share': 'Partager un lien en lecture seule vers ce message',
+  'viewer.markUnread': 'Marquer comme non lu (u)',
+  'viewer.delete': 'Supprimer (e)',
+  'viewer.unknownSender': 'Inconnu',
+  'viewer.tabs': 'Affichage du message',
+  'viewer.message': 'Message',
+  'viewer.source': 'Voir la source',
+  'viewer.emptyTitle': 'Sélectionnez un e-mail à lire',
+  'viewer.emptyBody': 'Cliquez sur un message de la boîte de réception à gauche pour afficher son contenu ici.',
+
+  'attachments.count': { one: '{count} pièce jointe', other: '{count} pièces jointes' },
+  'attachments.preview': 'Aperçu de {name}',
+  'attachments.hidePreview': 'Masquer l’aperçu de {name}',
+  'attachments.download': 'Télécharger {name}',
+
+  'chips.copyCode': 'Copier le code {code}',
+  'chips.copyLink': 'Copier le lien : {link}',
+  'chips.copied': '{value} copié',
+
+  'category.verification': 'Vérification',
+  'category.newsletter': 'Newsletter',
+  'category.receipt': 'Reçu',
+  'category.marketing': 'Marketing',
+  'category.suspicious': 'Suspect',
+  'category.other': 'Autre',
+  'category.risky': '{category} · Risqué',
+
+  'analysis.high': 'Probablement du phishing ou du spam',
+  'analysis.medium': 'Méfiez-vous de ce message',
+  'analysis.score': 'Risque {score}/100',
+  'analysis.summary': 'Résumé par IA',
+
+  'live.newMail': { one: 'Nouveau message de {from} : {subject}', other: '{count} nouveaux messages, le dernier de {from}' },
+
+  'notify.newEmail': 'Nouvel e-mail',
+  'notify.code': 'Code : {code}',
+
+  'confirm.empty': 'Supprimer tous les messages de {address} ?',
+  'confirm.deleteInbox': 'Supprimer {address} ? Ses messages seront perdus.',
+
+  'common.loading': 'Chargement…',
+  'common.close': 'Fermer',
+  'common.readOnly': 'Lecture seule',
+
+  'addressDialog.create': 'Nouvelle adresse',
+  'addressDialog.login': 'Adresse existante',
+  'addressDialog.address': 'Adresse',
+  'addressDialog.domain': 'Domaine',
+  'addressDialog.password': 'Mot de passe',
+  'addressDialog.usernamePlaceholder': 'aléatoire',
+  'addressDialog.usernameShort': 'Utilisez au moins 3 caractères.',
+  'addressDialog.usernameLong': 'Utilisez au plus 64 caractères.',
+  'addressDialog.usernameChars': 'Uniquement des minuscules, chiffres, points, tirets et tirets bas, en commençant et finissant par une lettre ou un chiffre.',
+  'addressDialog.passwordShort': 'Utilisez au moins {count} caractères.',
+  'addressDialog.checking': 'Vérification de la disponibilité…',
+  'addressDialog.available': 'Disponible',
+  'addressDialog.taken': 'Cette adresse est déjà prise',
+  'addressDialog.randomHint': 'Laissez vide pour un nom d’utilisateur aléatoire.',
+  'addressDialog.passwordPlaceholder': 'Généré automatiquement',
+  'addressDialog.passwordHint': 'Enregistré dans ce navigateur pour pouvoir rouvrir la boîte plus tard.',
+  'addressDialog.lifetime': 'Autodestruction',
+  'addressDialog.lifetimeHint': 'L’adresse et ses e-mails sont supprimés à la fin du délai.',
+  'addressDialog.forever': 'Jusqu’à suppression',
+  'addressDialog.submitCreate': 'Créer l’adresse',
+  'addressDialog.submitLogin': 'Ouvrir la boîte',
+
+  'html.removed': 'Retiré pour votre sécurité :',
+  'html.element': { one: '{count} élément <{tag}>', other: '{count} éléments <{tag}>' },
+  'html.handler': { one: '{count} gestionnaire d’événement', other: '{count} gestionnaires d’événements' },
+  'html.pixel': { one: '{count} pixel espion', other: '{count} pixels espions' },
+  'html.blocked': 'Contenu distant bloqué :',
+  'html.blockedItems': { one: '{count} élément (images, traqueurs, feuilles de style)', other: '{count} éléments (images, traqueurs, feuilles de style)' },
+  'html.loaded': 'Le contenu distant est chargé pour ce message.',
+  'html.load': 'Charger le contenu distant',
+  'html.block': 'Bloquer le contenu distant',
+  'html.frameTitle': 'Contenu de l’e-mail',
+
+  'source.headers': { one: '{count} en-tête', other: '{count} en-têtes' },
+  'source.download': 'Télécharger le .eml',
+  'source.raw': 'Source brute',
+
+  'rules.title': 'Règles de la boîte',
+  'rules.intro': 'Les règles s’exécutent dans ce navigateur, dans l’ordre, à chaque actualisation de la boîte. La suppression automatique efface les messages concernés du serveur.',
+  'rules.none': 'Aucune règle pour l’instant.',
+  'rules.enable': 'Activer la règle',
+  'rules.delete': 'Supprimer la règle',
+  'rules.condition': '{field} {operator} « {value} »',
+  'rules.matched': { one: '{count} message chargé', other: '{count} messages chargés' },
+  'rules.new': 'Nouvelle règle',
+  'rules.field.from': 'Adresse de l’expéditeur',
+  'rules.field.subject': 'Objet',
+  'rules.field.intro': 'Texte d’aperçu',
+  'rules.operator.contains': 'contient',
+  'rules.operator.regex': 'correspond à l’expression régulière',
+  'rules.operator.domain': 'est du domaine',
+  'rules.action.label': 'Étiqueter',
+  'rules.action.highlight': 'Surligner',
+  'rules.action.pin': 'Épingler en haut',
+  'rules.action.delete': 'Supprimer automatiquement',
+  'rules.color.amber': 'Ambre',
+  'rules.color.sky': 'Ciel',
+  'rules.color.rose': 'Rose',
+  'rules.color.violet': 'Violet',
+  'rules.placeholder.contains': 'ex. désabonnement',
+  'rules.placeholder.regex': 'ex. ^(promo|soldes)',
+  'rules.placeholder.domain': 'ex. newsletter.example.com',
+  'rules.labelPlaceholder': 'Étiquette, ex. Newsletter',
+  'rules.add': 'Ajouter la règle',
+  'rules.shareHint': 'Partager des jeux de règles en JSON',
+  'rules.import': 'Importer',
+  'rules.export': 'Exporter',
+  'rules.confirmImportDeletes': {
+    one: 'Ce jeu de règles supprime automatiquement du serveur les e-mails concernés :\n\n{rules}\n\nActiver cette règle ? Annuler l’importe désactivée.',
+    other: 'Ce jeu de règles supprime automatiquement du serveur les e-mails concernés :\n\n{rules}\n\nActiver ces {count} règles ? Annuler les importe désactivées.',
+  },
+  'rules.error.field': 'Champ inconnu',
+  'rules.error.operator': 'Condition inconnue',
+  'rules.error.action': 'Action inconnue',
+  'rules.error.value': 'La condition a besoin d’une valeur',
+  'rules.error.valueLength': 'La valeur dépasse {max} caractères',
+  'rules.error.domainField': 'Les domaines ne peuvent porter que sur l’expéditeur',
+  'rules.error.regex': 'L’expression régulière n’est pas valide',
+  'rules.error.label': 'L’étiquette manque',
+  'rules.error.labelLength': 'L’étiquette dépasse {max} caractères',
+  'rules.error.color': 'Couleur de surlignage inconnue',
+  'rules.error.json': 'Le jeu de règles n’est pas du JSON valide',
+  'rules.error.version': 'Ce n’est pas un jeu de règles en version {version}',
+  'rules.error.tooMany': 'Un jeu de règles contient au plus {max} règles',
+  'rules.error.rule': 'Règle {index} : {error}',
+
+  'share.titleInbox': 'Partager cette boîte',
+  'share.titleMessage': 'Partager ce message',
+  'share.explainInbox': 'Toute personne disposant du lien peut lire la boîte jusqu’à son expiration ou sa révocation. Elle ne peut rien supprimer ni modifier.',
+  'share.explainMessage': 'Toute personne disposant du lien peut lire ce message jusqu’à son expiration ou sa révocation. Elle ne peut rien supprimer ni modifier.',
+  'share.expiresIn': 'Expire dans {duration}',
+  'share.create': 'Créer le lien',
+  'share.active': 'Liens actifs',
+  'share.none': 'Aucun lien pour l’instant.',
+  'share.wholeInbox': 'Toute la boîte',
+  'share.thisMessage': 'Ce message',
+  'share.oneMessage': 'Un message',
+  'share.expires': 'Expire le {date}',
+  'share.copy': 'Copier le lien',
+  'share.revoke': 'Révoquer',
+
+  'compose.reply': 'Répondre',
+  'compose.forward': 'Transférer',
+  'compose.from': 'De',
+  'compose.to': 'À',
+  'compose.forwardTo': 'Transférer à, ex. moi@example.com',
+  'compose.replyAll': 'Répondre à tous les destinataires du message',
+  'compose.replyPlaceholder': 'Écrivez votre réponse…',
+  'compose.notePlaceholder': 'Ajouter une note (facultatif)',
+  'compose.replyHint': 'Le message d’origine est cité sous votre réponse.',
+  'compose.forwardHint': 'Le message d’origine et ses pièces jointes sont inclus.',
+  'compose.send': 'Envoyer',
+
+  'forwarding.title': 'Transfert',
+  'forwarding.rules': 'Règles',
+  'forwarding.intro': 'Les nouveaux e-mails qui correspondent à une règle sont transférés dès leur arrivée. L’expéditeur et l’objet sont des motifs insensibles à la casse ; laissez-les vides pour tout transférer.',
+  'forwarding.none': 'Aucune règle pour l’instant.',
+  'forwarding.from': 'expéditeur /{pattern}/',
+  'forwarding.subject': 'objet /{pattern}/',
+  'forwarding.all': 'Tous les e-mails',
+  'forwarding.last': 'dernier le {date}',
+  'forwarding.delete': 'Supprimer la règle',
+  'forwarding.fromPlaceholder': 'Expéditeur correspondant (facultatif)',
+  'forwarding.subjectPlaceholder': 'Objet correspondant (facultatif)',
+  'forwarding.add': 'Ajouter la règle',
+  'forwarding.sent': 'Envoyés',
+  'forwarding.noneSent': 'Rien n’a encore été envoyé depuis cette boîte.',
+  'forwarding.kind.reply': 'Réponse',
+  'forwarding.kind.forward': 'Transfert',
+  'forwarding.kind.autoForward': 'Transfert automatique',
+  'forwarding.sentTo': '{kind} à {to} · {date}',
+
+  'archiveViewer.headers': 'En-têtes',
+
+  'shared.invalid': 'Ce lien n’est pas valide, a expiré ou a été révoqué.',
+  'shared.inbox': 'Boîte partagée',
+  'shared.message': 'Message partagé',
+  'shared.expires': 'Le lien expire le {date}',
+  'shared.empty': 'Aucun message pour l’instant',
+  'shared.loadingMessage': 'Chargement du message…',
+
+  'error.dismiss': 'Fermer',
+  'error.requestId': 'ID de requête : {id}',
+  'error.generic': 'Une erreur est survenue',
+  'error.offline': 'Impossible de joindre le serveur de messagerie. Vérifiez votre connexion.',
+  'error.upstream': 'Le service de messagerie rencontre des difficultés. Réessayez dans un instant.',
+  'error.rateLimited': { one: 'Trop de requêtes. Réessayez dans {count} seconde.', other: 'Trop de requêtes. Réessayez dans {count} secondes.' },
+  'error.rateLimitedNow': 'Trop de requêtes. Ralentissez un peu.',
+  'error.authExpired': 'La session de cette boîte a expiré. Reconnectez-vous.',
+  'error.noDomains': 'Aucun domaine de messagerie disponible pour le moment. Réessayez plus tard.',
+  'error.addressTaken': '{address} est déjà prise',
+  'error.noInbox': 'Aucune boîte de réception active',
+  'error.notificationsBlocked': 'Les notifications sont bloquées pour ce site. Autorisez-les d’abord dans les réglages du navigateur.',
+  'error.bulkFailed': { one: '{count} message n’a pas pu être mis à jour', other: '{count} messages n’ont pas pu être mis à jour' },
+};
+
+export default fr;
@@ -1,10 +1,20 @@
 import {StrictMode} from 'react';
 import {createRoot} from 'react-dom/client';
 import App from './App.tsx';
+import SharedInbox from './SharedInbox.tsx';
+import I18nProvider from './components/I18nProvider.tsx';
+import { registerServiceWorker } from './lib/pwa.ts';
 import './index.css';
 
+// Share links open a read-only page instead of the app
+const shareToken = window.location.pathname.match(/^\/share\/([^/]+)\/?$/)?.[1];
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    <I18nProvider>
+      {shareToken ? <SharedInbox token={decodeURIComponent(shareToken)} /> : <App />}
+    </I18nProvider>
   </StrictMode>,
 );
+
+registerServiceWorker();
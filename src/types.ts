@@ -0,0 +1,245 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export interface Domain {
+  id: string;
+  domain: string;
+  isActive: boolean;
+}
+
+export interface Account {
+  id: string;
+  address: string;
+  token: string;
+  /** Kept so the token can be renewed; missing for inboxes saved by older versions. */
+  password?: string;
+}
+
+/** An inbox kept in the browser's inbox manager. */
+export interface SavedInbox extends Account {
+  label: string;
+  createdAt: string;
+  /** When the inbox self-destructs; missing or null for inboxes kept until deleted. */
+  expiresAt?: string | null;
+  /** The lifetime picked at creation, in seconds; extending adds it again. */
+  lifetime?: number | null;
+}
+
+/** The self-destruct timer the server keeps for an account. */
+export interface AccountExpiry {
+  id: string;
+  expiresAt: string | null;
+}
+
+/** One-time codes and verification links found by the server. */
+export interface Extracted {
+  codes: string[];
+  links: string[];
+}
+
+export type MessageCategory = 'verification' | 'newsletter' | 'receipt' | 'marketing' | 'suspicious' | 'other';
+
+/** The AI summary, category and phishing risk of a message. */
+export interface MessageAnalysis {
+  messageId: string;
+  summary: string;
+  category: MessageCategory;
+  risk: {
+    /** 0 (harmless) to 100 (almost certainly phishing or spam). */
+    score: number;
+    level: 'low' | 'medium' | 'high';
+    reasons: string[];
+  };
+  model: string;
+  analyzedAt: string;
+}
+
+export interface Message {
+  id: string;
+  from: {
+    address: string;
+    name: string;
+  };
+  subject: string;
+  intro: string;
+  createdAt: string;
+  seen: boolean;
+  hasAttachments: boolean;
+  extracted?: Extracted;
+  /** Present once the message has been analyzed. */
+  analysis?: MessageAnalysis;
+}
+
+export interface Attachment {
+  id: string;
+  filename: string;
+  contentType: string;
+  size: number;
+  disposition: 'attachment' | 'inline';
+  contentId?: string;
+}
+
+export interface MessageDetail extends Message {
+  text: string;
+  html: string[];
+  attachments: Attachment[];
+}
+
+export type InboxEvent =
+  | { type: 'new-message'; message: Message }
+  | { type: 'message-deleted'; id: string }
+  | { type: 'message-seen'; id: string; seen: boolean };
+
+export interface MessageSource {
+  id: string;
+  headers: { name: string; value: string }[];
+  raw: string;
+}
+
+export type ReceivedWithin = '' | '1h' | '24h' | '7d';
+
+export interface InboxFilter {
+  q: string;
+  unread: boolean;
+  hasAttachments: boolean;
+  within: ReceivedWithin;
+}
+
+export interface MessageList {
+  items: Message[];
+  total: number;
+}
+
+export type BulkAction = 'delete' | 'seen' | 'unseen';
+
+export interface BulkResult {
+  action: BulkAction;
+  succeeded: string[];
+  failed: { id: string; error: string }[];
+}
+
+/** Returned by the one-call inbox route used by scripts and tests. */
+export interface CreatedInbox {
+  id: string;
+  address: string;
+  password: string;
+  token: string;
+  createdAt: string;
+}
+
+export interface Webhook {
+  id: string;
+  url: string;
+  createdAt: string;
+  lastDelivery: { status: WebhookDelivery['status']; createdAt: string } | null;
+}
+
+/** The signing secret is only returned when the webhook is created. */
+export interface CreatedWebhook extends Webhook {
+  secret: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  event: 'message.received' | 'webhook.test';
+  messageId?: string;
+  status: 'pending' | 'succeeded' | 'failed';
+  attempts: { at: string; statusCode?: number; error?: string; durationMs: number }[];
+  nextAttemptAt?: string;
+  createdAt: string;
+}
+
+export type ArchiveFormat = 'mbox' | 'zip';
+
+/** A message read back from an exported archive; shown read-only, never sent anywhere. */
+export interface ArchivedMessage extends MessageDetail {
+  headers: { name: string; value: string }[];
+  /** Attachment bytes by attachment id, as there is no server to fetch them from. */
+  files: Record<string, Blob>;
+}
+
+export interface ImportedArchive {
+  filename: string;
+  /** The exported inbox, when the archive has a manifest. */
+  address?: string;
+  messages: ArchivedMessage[];
+}
+
+export type ShareScope = 'inbox' | 'message';
+
+/** A read-only link to an inbox or one of its messages, as its owner sees it. */
+export interface Share {
+  id: string;
+  /** Goes in the /share/:token URL; it can read the inbox but never change it. */
+  token: string;
+  scope: ShareScope;
+  messageId: string | null;
+  createdAt: string;
+  expiresAt: string;
+}
+
+/** What a share link grants, as its viewer sees it. */
+export interface SharedInbox {
+  scope: ShareScope;
+  address: string;
+  messageId: string | null;
+  expiresAt: string;
+}
+
+/** A reply or forward sent from the inbox through the server's SMTP relay. */
+export interface SentItem {
+  id: string;
+  kind: 'reply' | 'forward' | 'auto-forward';
+  to: string[];
+  subject: string;
+  /** The received message that was answered or forwarded. */
+  originalId: string;
+  ruleId?: string;
+  status: 'sent' | 'failed';
+  error?: string;
+  messageId?: string;
+  createdAt: string;
+}
+
+/** Forwards new mail matching `from` and `subject` (case-insensitive regular expressions) to `to`. */
+export interface ForwardingRule {
+  id: string;
+  to: string;
+  from: string | null;
+  subject: string | null;
+  createdAt: string;
+  lastForwardedAt: string | null;
+}
+
+export type RuleField = 'from' | 'subject' | 'intro';
+
+/** `domain` matches the sender's domain and its subdomains, so it only applies to `from`. */
+export type RuleOperator = 'contains' | 'regex' | 'domain';
+
+export type RuleAction = 'label' | 'highlight' | 'delete' | 'pin';
+
+export type HighlightColor = 'amber' | 'sky' | 'rose' | 'violet';
+
+/** A client-side rule, evaluated in the browser against each loaded message of one inbox. */
+export interface InboxRule {
+  id: string;
+  field: RuleField;
+  operator: RuleOperator;
+  value: string;
+  action: RuleAction;
+  /** The label shown on matching messages, for `label` rules. */
+  label?: string;
+  /** The row colour of matching messages, for `highlight` rules. */
+  color?: HighlightColor;
+  enabled: boolean;
+}
+
+/** What the inbox rules do to one message. */
+export interface RuleOutcome {
+  labels: string[];
+  highlight: HighlightColor | null;
+  pinned: boolean;
+  deleted: boolean;
+}
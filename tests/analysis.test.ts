@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { AnalysisModel } from "../server/analysis.ts";
+import { createMemoryProvider, MemoryProvider } from "../server/providers/index.ts";
+import { MailApiError, MailClient } from "../src/lib/mailClient.ts";
+import { startApi, TestApi } from "./helpers.ts";
+
+describe("message analysis", () => {
+  let provider: MemoryProvider;
+  let api: TestApi;
+  let client: MailClient;
+  const prompts: string[] = [];
+  let answer: () => string;
+
+  const model: AnalysisModel = {
+    name: "stub-model",
+    generate: async (prompt) => {
+      prompts.push(prompt);
+      return answer();
+    },
+  };
+
+  before(async () => {
+    provider = createMemoryProvider(["ai.test"]);
+    api = await startApi(provider, { analysisModel: model });
+    client = api.client;
+  });
+
+  after(() => api.close());
+
+  const newInbox = (username: string) => client.createInbox({ username, domain: "ai.test" });
+  const deliver = (address: string, subject: string, text = "Click https://paypa1.example/login to keep your account") =>
+    provider.deliver(address, { from: { address: "security@paypa1.example", name: "PayPal" }, subject, text }).id;
+
+  it("summarizes, categorizes and scores a message once", async () => {
+    const inbox = await newInbox("triage");
+    const id = deliver(inbox.address, "Your account is locked");
+    answer = () => JSON.stringify({
+      summary: "  Asks you to log in to unlock an account.  ",
+      category: "suspicious",
+      riskScore: 91.6,
+      riskReasons: ["Look-alike sender domain", "", 42, "Urgent tone"],
+    });
+
+    const analysis = await client.analyzeMessage(inbox.token, id);
+    assert.equal(analysis.messageId, id);
+    assert.equal(analysis.summary, "Asks you to log in to unlock an account.");
+    assert.equal(analysis.category, "suspicious");
+    assert.deepEqual(analysis.risk, { score: 92, level: "high", reasons: ["Look-alike sender domain", "Urgent tone"] });
+    assert.equal(analysis.model, "stub-model");
+
+    // The model sees the email as data, and reading it for the model keeps it unread
+    assert.match(prompts.at(-1)!, /^From: PayPal <security@paypa1\.example>$/m);
+    assert.match(prompts.at(-1)!, /paypa1\.example\/login/);
+    const [listed] = (await client.listMessages(inbox.token)).items;
+    assert.equal(listed.seen, false);
+
+    // Cached: the list and later requests reuse it without asking the model again
+    const calls = prompts.length;
+    assert.deepEqual(listed.analysis, analysis);
+    assert.deepEqual(await client.analyzeMessage(inbox.token, id), analysis);
+    assert.equal(prompts.length, calls);
+  });
+
+  it("keeps cached results to their inbox", async () => {
+    const inbox = await newInbox("owner");
+    const other = await newInbox("snoop");
+    const id = deliver(inbox.address, "Receipt #1");
+    answer = () => JSON.stringify({ summary: "A receipt.", category: "receipt", riskScore: 0, riskReasons: [] });
+    await client.analyzeMessage(inbox.token, id);
+
+    await assert.rejects(client.analyzeMessage(other.token, id), (e: MailApiError) => e.status === 404);
+  });
+
+  it("answers 502 for unusable answers and retries them later", async () => {
+    const inbox = await newInbox("flaky");
+    const id = deliver(inbox.address, "Weekly digest");
+    for (const broken of [() => "not json", () => JSON.stringify({ category: "newsletter" }), () => { throw new Error("quota exceeded"); }]) {
+      answer = broken;
+      await assert.rejects(client.analyzeMessage(inbox.token, id), (e: MailApiError) => e.status === 502);
+    }
+
+    answer = () => JSON.stringify({ summary: "News.", category: "horoscope", riskScore: 140, riskReasons: "none" });
+    const analysis = await client.analyzeMessage(inbox.token, id);
+    assert.equal(analysis.category, "other");
+    assert.deepEqual(analysis.risk, { score: 100, level: "high", reasons: [] });
+  });
+
+  it("answers 501 without a model and leaves the inbox untouched", async () => {
+    const app = await startApi(provider, { analysisModel: null });
+    try {
+      const inbox = await app.client.createInbox({ username: "plain", domain: "ai.test" });
+      const id = deliver(inbox.address, "Hello");
+      await assert.rejects(app.client.analyzeMessage(inbox.token, id), (e: MailApiError) => e.status === 501);
+      const [listed] = (await app.client.listMessages(inbox.token)).items;
+      assert.equal(listed.analysis, undefined);
+    } finally {
+      await app.close();
+    }
+  });
+});
@@ -0,0 +1,209 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { createMailTmProvider } from "../server/providers/index.ts";
+import { AuthExpiredError, createMailClient, MailApiError, MailClient, RateLimitError } from "../src/lib/mailClient.ts";
+import { FAKE_DOMAIN, FakeMailTm, startFakeMailTm } from "./fakeMailTm.ts";
+import { startApi, TestApi } from "./helpers.ts";
+
+// End to end: typed client → Express routes in api/index.ts → mail.tm provider → fake mail.tm
+
+describe("proxy routes against a fake mail.tm", () => {
+  let fake: FakeMailTm;
+  let api: TestApi;
+  let baseUrl: string;
+  let client: MailClient;
+
+  before(async () => {
+    process.env.EVENTS_POLL_INTERVAL_MS = "50";
+    fake = await startFakeMailTm();
+    api = await startApi(createMailTmProvider(fake.url, { retryDelayMs: 1 }));
+    baseUrl = api.mailUrl;
+    // Retries on, to exercise the client's handling of upstream failures
+    client = createMailClient({ baseUrl, retryDelay: 5 });
+  });
+
+  after(async () => {
+    await api.close();
+    await fake.close();
+  });
+
+  const newInbox = async (username: string) => {
+    const address = `${username}@${FAKE_DOMAIN}`;
+    await client.createAccount(address, "secret-pass");
+    const { id, token } = await client.getToken(address, "secret-pass");
+    return { id, address, token };
+  };
+
+  it("lists domains", async () => {
+    assert.deepEqual(await client.listDomains(), [{ id: "d1", domain: FAKE_DOMAIN, isActive: true }]);
+  });
+
+  it("creates accounts and rejects taken addresses", async () => {
+    const account = await client.createAccount(`taken@${FAKE_DOMAIN}`, "secret-pass");
+    assert.equal(account.address, `taken@${FAKE_DOMAIN}`);
+
+    const error = await client.createAccount(`taken@${FAKE_DOMAIN}`, "secret-pass").catch((e) => e);
+    assert.ok(error instanceof MailApiError);
+    assert.equal(error.status, 422);
+    assert.match(error.message, /already used/);
+  });
+
+  it("reports bad credentials and missing tokens as auth errors", async () => {
+    await assert.rejects(client.getToken(`nobody@${FAKE_DOMAIN}`, "wrong"), AuthExpiredError);
+    await assert.rejects(client.listMessages("not-a-token"), AuthExpiredError);
+  });
+
+  it("pages through messages with the real total", async () => {
+    const inbox = await newInbox("paging");
+    for (let i = 0; i < 35; i++) fake.deliver(inbox.address, { subject: `Message ${i}` });
+
+    const first = await client.listMessages(inbox.token);
+    const second = await client.listMessages(inbox.token, { page: 2 });
+    assert.equal(first.total, 35);
+    assert.equal(first.items.length, 30);
+    assert.equal(second.items.length, 5);
+    assert.equal(first.items[0].subject, "Message 34");
+  });
+
+  it("filters messages on the server", async () => {
+    const inbox = await newInbox("filters");
+    fake.deliver(inbox.address, { from: "shop@example.com", subject: "Order shipped", text: "tracking inside" });
+    fake.deliver(inbox.address, { subject: "Hello", attachments: [{ filename: "a.txt", contentType: "text/plain", content: "hi" }] });
+    fake.deliver(inbox.address, { subject: "Newsletter" });
+
+    assert.deepEqual((await client.listMessages(inbox.token, { q: "shop" })).items.map((m) => m.subject), ["Order shipped"]);
+    assert.deepEqual((await client.listMessages(inbox.token, { q: "tracking" })).items.map((m) => m.subject), ["Order shipped"]);
+    assert.deepEqual((await client.listMessages(inbox.token, { hasAttachments: true })).items.map((m) => m.subject), ["Hello"]);
+    assert.equal((await client.listMessages(inbox.token, { since: new Date(Date.now() + 60000).toISOString() })).total, 0);
+    await assert.rejects(client.listMessages(inbox.token, { since: "yesterday-ish" }), (e: MailApiError) => e.status === 400);
+  });
+
+  it("returns message details with extracted codes", async () => {
+    const inbox = await newInbox("detail");
+    const id = fake.deliver(inbox.address, { subject: "Verify", text: "Your verification code is 482913", html: ["<p>482913</p>"] });
+
+    const [row] = (await client.listMessages(inbox.token)).items;
+    assert.deepEqual(row.extracted?.codes, ["482913"]);
+
+    const message = await client.getMessage(inbox.token, id);
+    assert.equal(message.text, "Your verification code is 482913");
+    assert.deepEqual(message.html, ["<p>482913</p>"]);
+    assert.deepEqual(message.extracted?.codes, ["482913"]);
+    await assert.rejects(client.getMessage(inbox.token, "missing"), (e: MailApiError) => e.status === 404);
+  });
+
+  it("marks messages seen with a merge patch", async () => {
+    const inbox = await newInbox("seen");
+    const id = fake.deliver(inbox.address, { subject: "Unread" });
+
+    assert.deepEqual(await client.setSeen(inbox.token, id, true), { id, seen: true });
+    assert.equal((await client.listMessages(inbox.token, { unread: true })).total, 0);
+    assert.equal(fake.requests.find((r) => r.method === "PATCH")?.contentType, "application/merge-patch+json");
+
+    const error = await fetch(`${baseUrl}/messages/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${inbox.token}` },
+      body: JSON.stringify({ seen: "yes" }),
+    });
+    assert.equal(error.status, 400);
+  });
+
+  it("runs bulk actions and reports per-message failures", async () => {
+    const inbox = await newInbox("bulk");
+    const ids = [1, 2, 3].map((i) => fake.deliver(inbox.address, { subject: `Bulk ${i}` }));
+
+    const read = await client.bulk(inbox.token, "seen", [ids[0], "missing"]);
+    assert.deepEqual(read.succeeded, [ids[0]]);
+    assert.equal(read.failed[0].id, "missing");
+
+    const all = await client.bulk(inbox.token, "seen");
+    assert.deepEqual(all.succeeded.sort(), [ids[1], ids[2]].sort());
+
+    await client.bulk(inbox.token, "delete");
+    assert.equal((await client.listMessages(inbox.token)).total, 0);
+  });
+
+  it("deletes messages", async () => {
+    const inbox = await newInbox("delete");
+    const id = fake.deliver(inbox.address, { subject: "Bye" });
+    await client.deleteMessage(inbox.token, id);
+    assert.equal((await client.listMessages(inbox.token)).total, 0);
+  });
+
+  it("serves the raw source as JSON and as an .eml download", async () => {
+    const inbox = await newInbox("source");
+    const id = fake.deliver(inbox.address, { subject: "Raw", text: "body" });
+
+    const source = await client.getSource(inbox.token, id);
+    assert.deepEqual(source.headers.find((h) => h.name === "Subject"), { name: "Subject", value: "Raw" });
+
+    const res = await fetch(`${baseUrl}/messages/${id}/source?download=1`, { headers: { Authorization: `Bearer ${inbox.token}` } });
+    assert.match(res.headers.get("content-type") || "", /^message\/rfc822/);
+    assert.match(res.headers.get("content-disposition") || "", /attachment; filename=".+\.eml"/);
+  });
+
+  it("streams attachments as sandboxed downloads", async () => {
+    const inbox = await newInbox("attachments");
+    const id = fake.deliver(inbox.address, { attachments: [{ filename: "page.html", contentType: "text/html", content: "<script>alert(1)</script>" }] });
+    const { attachments } = await client.getMessage(inbox.token, id);
+
+    const res = await fetch(`${baseUrl}/messages/${id}/attachments/${attachments[0].id}`, { headers: { Authorization: `Bearer ${inbox.token}` } });
+    assert.equal(res.status, 200);
+    assert.equal(res.headers.get("content-security-policy"), "sandbox");
+    assert.equal(res.headers.get("x-content-type-options"), "nosniff");
+    assert.match(res.headers.get("content-disposition") || "", /^attachment; filename\*=UTF-8''page\.html$/);
+    assert.equal(await res.text(), "<script>alert(1)</script>");
+  });
+
+  it("creates inboxes in one call and waits for matching mail", async () => {
+    const inbox = await client.createInbox({ username: "waiter" });
+    assert.equal(inbox.address, `waiter@${FAKE_DOMAIN}`);
+    assert.ok(inbox.password && inbox.token);
+
+    setTimeout(() => fake.deliver(inbox.address, { from: "noreply@app.test", subject: "Welcome" }), 100);
+    setTimeout(() => fake.deliver(inbox.address, { from: "noreply@app.test", subject: "Your code", text: "Code: 771204" }), 200);
+    const message = await client.waitForMessage(inbox.token, { from: "app.test", subject: "code", body: "\\d{6}", timeout: 5 });
+    assert.equal(message?.subject, "Your code");
+    assert.deepEqual(message?.extracted?.codes, ["771204"]);
+
+    assert.equal(await client.waitForMessage(inbox.token, { subject: "never", timeout: 0.2 }), null);
+    await assert.rejects(client.waitForMessage(inbox.token, { subject: "(" }), (e: MailApiError) => e.status === 400);
+  });
+
+  it("deletes the account behind a token", async () => {
+    const inbox = await newInbox("leaving");
+    await client.deleteAccount(inbox.token, inbox.id);
+    await assert.rejects(client.getToken(inbox.address, "secret-pass"), AuthExpiredError);
+  });
+
+  it("passes upstream failures through with their status", async () => {
+    fake.failNext(422);
+    const error = await client.createAccount(`x@${FAKE_DOMAIN}`, "secret-pass").catch((e) => e);
+    assert.ok(error instanceof MailApiError);
+    assert.equal(error.status, 422);
+    assert.equal(error.message, "Injected 422");
+  });
+
+  it("retries upstream 5xx and answers with the last failure", async () => {
+    const inbox = await newInbox("flaky");
+    fake.deliver(inbox.address, { subject: "Still here" });
+
+    fake.failNext(500, 2);
+    assert.equal((await client.listMessages(inbox.token)).total, 1);
+
+    fake.failNext(500, 3);
+    const error = await client.listMessages(inbox.token).catch((e) => e);
+    assert.ok(error instanceof MailApiError);
+    assert.equal(error.status, 500);
+    assert.equal(error.message, "Injected 500");
+  });
+
+  it("surfaces upstream rate limits with Retry-After", async () => {
+    const inbox = await newInbox("limited");
+    fake.failNext(429);
+    const error = await client.listMessages(inbox.token).catch((e) => e);
+    assert.ok(error instanceof RateLimitError);
+    assert.equal(error.retryAfter, 7);
+    assert.match(error.message, /too many requests\. Try again in 7s/);
+  });
+});
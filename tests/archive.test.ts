@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { strFromU8, unzipSync } from "fflate";
+import { mboxEntry } from "../server/archive.ts";
+import { createMemoryProvider, MemoryProvider } from "../server/providers/index.ts";
+import { readArchive } from "../src/lib/archive.ts";
+import { MailApiError, MailClient } from "../src/lib/mailClient.ts";
+import { CreatedInbox } from "../src/types.ts";
+import { startApi, TestApi } from "./helpers.ts";
+
+describe("inbox export and import", () => {
+  let provider: MemoryProvider;
+  let api: TestApi;
+  let url: string;
+  let client: MailClient;
+  let inbox: CreatedInbox;
+
+  before(async () => {
+    provider = createMemoryProvider(["archive.test"]);
+    api = await startApi(provider);
+    url = api.mailUrl;
+    client = api.client;
+
+    inbox = await client.createInbox({ username: "evidence", domain: "archive.test" });
+    provider.deliver(inbox.address, {
+      from: { address: "bugs@app.test", name: "Bug Tracker" },
+      subject: "Crash report",
+      text: "Steps below",
+      attachments: [{ filename: "trace.log", contentType: "text/plain", content: "TypeError at line 3" }],
+    });
+    provider.deliver(inbox.address, { from: { address: "noreply@app.test", name: "" }, subject: "Welcome", html: ["<p>Hello <b>tester</b></p>"] });
+    provider.deliver(inbox.address, {
+      from: { address: "qa@app.test", name: "" },
+      subject: "Notes",
+      raw: "From: qa@app.test\r\nSubject: Notes\r\nContent-Type: text/plain\r\n\r\nSteps below.\r\nFrom here on it crashes\r\n>From a quoted line\r\n",
+    });
+  });
+
+  after(() => api.close());
+
+  it("exports a ZIP of .eml files, attachments and a manifest", async () => {
+    const res = await fetch(`${url}/messages/export?format=zip`, { headers: { Authorization: `Bearer ${inbox.token}` } });
+    assert.equal(res.status, 200);
+    assert.match(res.headers.get("content-disposition") || "", /filename="evidence@archive\.test-\d{4}-\d{2}-\d{2}\.zip"/);
+
+    const files = unzipSync(new Uint8Array(await res.arrayBuffer()));
+    assert.deepEqual(Object.keys(files).sort(), [
+      "attachments/1/trace.log",
+      "manifest.json",
+      "messages/1-crash-report.eml",
+      "messages/2-welcome.eml",
+      "messages/3-notes.eml",
+    ]);
+    assert.equal(strFromU8(files["attachments/1/trace.log"]), "TypeError at line 3");
+
+    const manifest = JSON.parse(strFromU8(files["manifest.json"]));
+    assert.equal(manifest.inbox.address, inbox.address);
+    assert.equal(manifest.total, 3);
+    assert.equal(manifest.messages[0].subject, "Crash report");
+    assert.equal(manifest.messages[0].attachments[0].file, "attachments/1/trace.log");
+    assert.ok(manifest.messages[0].headers.some((h: any) => h.name === "Subject" && h.value === "Crash report"));
+    // Fetching attachment details for the export leaves the mail unread
+    assert.ok((await client.listMessages(inbox.token)).items.every((message) => !message.seen));
+  });
+
+  it("reads an exported ZIP back with its attachments", async () => {
+    const blob = await client.exportInbox(inbox.token, "zip");
+    const archive = await readArchive(new File([blob], "evidence.zip"));
+
+    assert.equal(archive.address, inbox.address);
+    assert.deepEqual(archive.messages.map((m) => m.subject).sort(), ["Crash report", "Notes", "Welcome"]);
+    const report = archive.messages.find((m) => m.subject === "Crash report")!;
+    assert.equal(report.from.name, "Bug Tracker");
+    assert.equal(report.attachments[0].filename, "trace.log");
+    assert.equal(await report.files[report.attachments[0].id].text(), "TypeError at line 3");
+    assert.match(archive.messages.find((m) => m.subject === "Welcome")!.html[0], /<b>tester<\/b>/);
+  });
+
+  it("round-trips an mbox, From lines in bodies included", async () => {
+    const blob = await client.exportInbox(inbox.token, "mbox");
+    const text = await blob.text();
+    assert.match(text, /^From bugs@app\.test \w{3} \w{3} [ \d]\d \d\d:\d\d:\d\d \d{4}\n/);
+    assert.match(text, /^>From here on it crashes\n>>From a quoted line$/m);
+
+    const archive = await readArchive(new File([blob], "evidence.mbox"));
+    assert.equal(archive.messages.length, 3);
+    const notes = archive.messages.find((m) => m.subject === "Notes")!;
+    assert.equal(notes.text.trim(), "Steps below.\nFrom here on it crashes\n>From a quoted line");
+  });
+
+  it("quotes mbox bodies the mboxrd way", () => {
+    const entry = mboxEntry("Subject: x\r\n\r\nFrom me\r\n>From you", "a@b.test", new Date("1996-01-03T01:05:34Z"));
+    assert.equal(entry, "From a@b.test Wed Jan  3 01:05:34 1996\nSubject: x\n\n>From me\n>>From you\n\n");
+  });
+
+  it("rejects unknown formats and invalid tokens", async () => {
+    await assert.rejects(client.exportInbox(inbox.token, "pdf" as any), (e: MailApiError) => e.status === 400);
+    await assert.rejects(client.exportInbox("bad-token", "zip"), (e: MailApiError) => e.status === 401);
+  });
+});
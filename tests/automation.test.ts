@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { createInbox, parsePattern, waitForMessage } from "../server/automation.ts";
+import { createInboxEvents } from "../server/events.ts";
+import { createMemoryProvider, MemoryProvider } from "../server/providers/index.ts";
+import { startApi, TestApi } from "./helpers.ts";
+
+describe("inbox automation", () => {
+  let provider: MemoryProvider;
+  let api: TestApi;
+  let url: string;
+
+  before(async () => {
+    provider = createMemoryProvider(["auto.test"]);
+    api = await startApi(provider);
+    url = api.mailUrl;
+  });
+
+  after(() => api.close());
+
+  const wait = (token: string, query: Record<string, string>) =>
+    fetch(`${url}/wait?${new URLSearchParams(query)}`, { headers: { Authorization: `Bearer ${token}` } });
+
+  it("creates an inbox with a token in one call", async () => {
+    const inbox = await createInbox(provider, { username: "Robot" });
+    assert.equal(inbox.address, "robot@auto.test");
+    assert.ok(inbox.password.length >= 16);
+    assert.deepEqual(await provider.getAccount(inbox.token), { id: inbox.id, address: inbox.address, createdAt: inbox.createdAt });
+  });
+
+  it("answers with mail that already arrived or arrives while waiting", async () => {
+    const inbox = await createInbox(provider);
+    provider.deliver(inbox.address, { from: { address: "old@app.test", name: "" }, subject: "Your code", text: "Code: 111111" });
+    const early = await wait(inbox.token, { subject: "code", timeout: "1" });
+    assert.equal(early.status, 200);
+    assert.deepEqual((await early.json()).extracted.codes, ["111111"]);
+
+    const pending = wait(inbox.token, { from: "signup@", body: "\\d{6}", since: new Date().toISOString(), timeout: "5" });
+    setTimeout(() => {
+      provider.deliver(inbox.address, { from: { address: "signup@app.test", name: "" }, subject: "Welcome", text: "No code here" });
+      provider.deliver(inbox.address, { from: { address: "signup@app.test", name: "" }, subject: "Verify", text: "Code: 222222" });
+    }, 50);
+    const late = await pending;
+    assert.equal(late.status, 200);
+    assert.equal((await late.json()).subject, "Verify");
+  });
+
+  it("gives up with 408 after the timeout and validates the query", async () => {
+    const inbox = await createInbox(provider);
+    const started = Date.now();
+    const res = await wait(inbox.token, { subject: "never", timeout: "0.2" });
+    assert.equal(res.status, 408);
+    assert.match((await res.json()).error, /No matching message arrived within 0.2s/);
+    assert.ok(Date.now() - started >= 200);
+
+    assert.equal((await wait(inbox.token, { timeout: "121" })).status, 400);
+    assert.equal((await wait(inbox.token, { timeout: "soon" })).status, 400);
+    assert.equal((await wait(inbox.token, { subject: "(" })).status, 400);
+    assert.equal((await wait(inbox.token, { since: "yesterday" })).status, 400);
+    assert.equal((await wait("made-up", { timeout: "1" })).status, 401);
+  });
+
+  it("leaves the read state of the mail it looks at alone", async () => {
+    const inbox = await createInbox(provider);
+    const { id } = provider.deliver(inbox.address, { from: { address: "a@app.test", name: "" }, subject: "Hello", text: "No code" });
+    assert.equal((await wait(inbox.token, { body: "\\d{6}", timeout: "0.2" })).status, 408);
+    assert.equal((await provider.peekMessage(inbox.token, id)).seen, false);
+
+    const matched = await waitForMessage(provider, createInboxEvents(provider), inbox.token, { body: parsePattern("body", "code") }, 1000);
+    assert.equal(matched?.id, id);
+    assert.equal((await provider.peekMessage(inbox.token, id)).seen, false);
+  });
+
+  it("stops patterns that backtrack catastrophically", () => {
+    const pattern = parsePattern("subject", "^(a+)+$")!;
+    const started = Date.now();
+    assert.equal(pattern.test(`${"a".repeat(40)}!`), false);
+    assert.ok(Date.now() - started < 1000);
+    assert.equal(pattern.test("AAAA"), true);
+    assert.equal(pattern.source, "^(a+)+$");
+  });
+
+  it("stops waiting when aborted", async () => {
+    const inbox = await createInbox(provider);
+    const controller = new AbortController();
+    const waiting = waitForMessage(provider, createInboxEvents(provider), inbox.token, { subject: parsePattern("subject", "x") }, 5000, controller.signal);
+    setTimeout(() => controller.abort(), 20);
+    assert.equal(await waiting, null);
+  });
+});
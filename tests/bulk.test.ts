@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { MAX_BULK_IDS } from "../server/bulk.ts";
+import { createMemoryProvider, MemoryProvider } from "../server/providers/index.ts";
+import { MailApiError, MailClient } from "../src/lib/mailClient.ts";
+import { startApi, TestApi } from "./helpers.ts";
+
+describe("bulk message actions", () => {
+  let provider: MemoryProvider;
+  let api: TestApi;
+  let url: string;
+  let client: MailClient;
+
+  before(async () => {
+    provider = createMemoryProvider(["bulk.test"]);
+    api = await startApi(provider);
+    url = api.mailUrl;
+    client = api.client;
+  });
+
+  after(() => api.close());
+
+  const fill = async (username: string, count: number) => {
+    const inbox = await client.createInbox({ username, domain: "bulk.test" });
+    const ids = Array.from({ length: count }, (_, i) =>
+      provider.deliver(inbox.address, { from: { address: "a@app.test", name: "" }, subject: `Message ${i}` }).id,
+    );
+    return { ...inbox, ids };
+  };
+  const unread = async (token: string) => (await client.listMessages(token, { unread: true })).total;
+
+  it("marks listed messages read and unread, each id once", async () => {
+    const inbox = await fill("marks", 3);
+    const read = await client.bulk(inbox.token, "seen", [inbox.ids[0], inbox.ids[1], inbox.ids[0]]);
+    assert.deepEqual(read, { action: "seen", succeeded: [inbox.ids[0], inbox.ids[1]], failed: [] });
+    assert.equal(await unread(inbox.token), 1);
+
+    const back = await client.bulk(inbox.token, "unseen", [inbox.ids[1], "missing"]);
+    assert.deepEqual(back.succeeded, [inbox.ids[1]]);
+    assert.deepEqual(back.failed, [{ id: "missing", error: "Message not found" }]);
+    assert.equal(await unread(inbox.token), 2);
+  });
+
+  it("applies `all` to every page of the inbox", async () => {
+    // More than one 30-message page
+    const inbox = await fill("everything", 35);
+    assert.equal((await client.bulk(inbox.token, "seen")).succeeded.length, 35);
+    assert.equal(await unread(inbox.token), 0);
+    // Only messages that are read can be marked unread
+    await client.setSeen(inbox.token, inbox.ids[0], false);
+    assert.equal((await client.bulk(inbox.token, "unseen")).succeeded.length, 34);
+
+    const emptied = await client.bulk(inbox.token, "delete");
+    assert.equal(emptied.succeeded.length, 35);
+    assert.equal((await client.listMessages(inbox.token)).total, 0);
+  });
+
+  it("validates the request and fails whole for a bad token", async () => {
+    const inbox = await fill("invalid", 1);
+    const post = (body: object, token = inbox.token) =>
+      fetch(`${url}/messages/bulk`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+        body: JSON.stringify(body),
+      });
+
+    assert.equal((await post({ action: "archive", ids: inbox.ids })).status, 400);
+    assert.equal((await post({ action: "delete" })).status, 400);
+    assert.equal((await post({ action: "delete", ids: [1, 2] })).status, 400);
+    assert.equal((await post({ action: "delete", ids: Array.from({ length: MAX_BULK_IDS + 1 }, (_, i) => `id-${i}`) })).status, 400);
+    await assert.rejects(client.bulk("made-up", "delete", inbox.ids), (e: MailApiError) => e.status === 401);
+    assert.equal((await client.listMessages(inbox.token)).total, 1);
+  });
+});
@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { createInboxEvents } from "../server/events.ts";
+import { createMemoryProvider, InboxEvent, MemoryProvider } from "../server/providers/index.ts";
+import { MailClient } from "../src/lib/mailClient.ts";
+import { startApi, TestApi } from "./helpers.ts";
+
+// Reads a /mail/events response and collects its events as they arrive
+const readStream = (response: Response) => {
+  const events: { type: string; data: any }[] = [];
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  const done = (async () => {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      buffer += value;
+      let end;
+      while ((end = buffer.indexOf("\n\n")) !== -1) {
+        const block = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        const type = /^event: (.+)$/m.exec(block)?.[1];
+        const data = /^data: (.+)$/m.exec(block)?.[1];
+        if (type) events.push({ type, data: data && JSON.parse(data) });
+      }
+    }
+  })().catch(() => undefined);
+  const until = async (count: number) => {
+    const deadline = Date.now() + 2000;
+    while (events.length < count) {
+      if (Date.now() > deadline) throw new Error(`Timed out with ${events.length} of ${count} events`);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    return events;
+  };
+  return { events, until, close: () => reader.cancel().then(() => done) };
+};
+
+describe("inbox events", () => {
+  let provider: MemoryProvider;
+  let api: TestApi;
+  let url: string;
+  let client: MailClient;
+
+  before(async () => {
+    provider = createMemoryProvider(["events.test"]);
+    api = await startApi(provider);
+    url = api.mailUrl;
+    client = api.client;
+  });
+
+  after(() => api.close());
+
+  it("streams new, seen and deleted mail over SSE", async () => {
+    const inbox = await client.createInbox({ username: "stream", domain: "events.test" });
+    const response = await fetch(`${url}/events?token=${inbox.token}`);
+    assert.equal(response.status, 200);
+    assert.match(response.headers.get("content-type") || "", /^text\/event-stream/);
+    const stream = readStream(response);
+    try {
+      await stream.until(1);
+      const { id } = provider.deliver(inbox.address, { from: { address: "a@app.test", name: "" }, subject: "Code", text: "Your code is 123456" });
+      await client.setSeen(inbox.token, id, true);
+      await client.deleteMessage(inbox.token, id);
+
+      const events = await stream.until(4);
+      assert.deepEqual(events.map((event) => event.type), ["ready", "new-message", "message-seen", "message-deleted"]);
+      assert.equal(events[1].data.message.subject, "Code");
+      assert.deepEqual(events[1].data.message.extracted.codes, ["123456"]);
+      assert.deepEqual(events[2].data, { type: "message-seen", id, seen: true });
+      assert.deepEqual(events[3].data, { type: "message-deleted", id });
+    } finally {
+      await stream.close();
+    }
+  });
+
+  it("refuses streams without a valid token", async () => {
+    const response = await fetch(`${url}/events?token=made-up`);
+    assert.equal(response.status, 401);
+    assert.match(response.headers.get("content-type") || "", /json/);
+  });
+
+  it("polls providers without push and diffs the first page", async () => {
+    // The same inbox without native push, so changes have to be polled
+    const { subscribe, ...polled } = provider;
+    const events = createInboxEvents(polled, 20);
+    const inbox = await client.createInbox({ username: "polled", domain: "events.test" });
+    const early = provider.deliver(inbox.address, { from: { address: "a@app.test", name: "" }, subject: "Before" });
+
+    const seenA: InboxEvent[] = [];
+    const seenB: InboxEvent[] = [];
+    const stopA = await events.subscribe(inbox.token, (event) => seenA.push(event));
+    const stopB = await events.subscribe(inbox.token, (event) => seenB.push(event));
+    // A message that arrives and goes between two polls is never reported
+    const late = provider.deliver(inbox.address, { from: { address: "a@app.test", name: "" }, subject: "After" });
+    await provider.setSeen(inbox.token, early.id, true);
+    await provider.deleteMessage(inbox.token, late.id);
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    const next = provider.deliver(inbox.address, { from: { address: "a@app.test", name: "" }, subject: "Next" });
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    stopA();
+
+    assert.deepEqual(seenA.map((event) => event.type), ["message-seen", "new-message"]);
+    assert.deepEqual(seenA[0], { type: "message-seen", id: early.id, seen: true });
+    assert.equal(seenA[1].type === "new-message" && seenA[1].message.id, next.id);
+    assert.deepEqual(seenB, seenA);
+    stopB();
+    await assert.rejects(events.subscribe("made-up", () => {}), { status: 401 });
+  });
+});
@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { createMemoryProvider } from "../server/providers/index.ts";
+import { MailApiError, MailClient } from "../src/lib/mailClient.ts";
+import { startApi, TestApi } from "./helpers.ts";
+
+describe("inbox expiry", () => {
+  let api: TestApi;
+  let client: MailClient;
+
+  before(async () => {
+    process.env.EXPIRY_SWEEP_INTERVAL_MS = "20";
+    api = await startApi(createMemoryProvider(["expiry.test"]));
+    client = api.client;
+  });
+
+  after(async () => {
+    delete process.env.EXPIRY_SWEEP_INTERVAL_MS;
+    await api.close();
+  });
+
+  const newInbox = (username: string) => client.createInbox({ username, domain: "expiry.test" });
+
+  it("sets, extends and clears an inbox's timer", async () => {
+    const inbox = await newInbox("timed");
+    assert.deepEqual(await client.getExpiry(inbox.token, inbox.id), { id: inbox.id, expiresAt: null });
+
+    const { expiresAt } = await client.setExpiry(inbox.token, inbox.id, 600);
+    assert.ok(Math.abs(Date.parse(expiresAt!) - Date.now() - 600_000) < 2000);
+    const extended = await client.setExpiry(inbox.token, inbox.id, 4200);
+    assert.ok(Date.parse(extended.expiresAt!) - Date.parse(expiresAt!) > 3_500_000);
+    assert.equal((await client.getExpiry(inbox.token, inbox.id)).expiresAt, extended.expiresAt);
+
+    assert.equal((await client.setExpiry(inbox.token, inbox.id, null)).expiresAt, null);
+  });
+
+  it("rejects invalid lifetimes and other inboxes' tokens", async () => {
+    const owner = await newInbox("owner");
+    const other = await newInbox("other");
+    for (const expiresIn of [0, -5, 31 * 24 * 3600, "600" as any]) {
+      await assert.rejects(client.setExpiry(owner.token, owner.id, expiresIn), (e: MailApiError) => e.status === 400, String(expiresIn));
+    }
+    await assert.rejects(client.setExpiry(other.token, owner.id, 600), (e: MailApiError) => e.status === 403);
+  });
+
+  it("deletes expired inboxes even when no client is around", async () => {
+    const inbox = await newInbox("ephemeral");
+    const kept = await newInbox("kept");
+    await client.setExpiry(inbox.token, inbox.id, 0.05);
+    await client.setExpiry(kept.token, kept.id, 600);
+
+    const deadline = Date.now() + 2000;
+    while (await client.getToken(inbox.address, inbox.password).then(() => true, () => false)) {
+      assert.ok(Date.now() < deadline, "the inbox was not deleted in time");
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    assert.equal((await client.getToken(kept.address, kept.password)).id, kept.id);
+  });
+});
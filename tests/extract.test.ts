@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { extractFromMessage, htmlToText } from "../server/extract.ts";
+
+describe("code and link extraction", () => {
+  it("finds codes next to their keyword, split ones included", () => {
+    assert.deepEqual(extractFromMessage({ text: "Your verification code is 482913. It expires soon." }).codes, ["482913"]);
+    assert.deepEqual(extractFromMessage({ text: "Enter security code 123 456 to continue" }).codes, ["123456"]);
+    assert.deepEqual(extractFromMessage({ text: "Your one-time code: ABC-123" }).codes, ["ABC-123"]);
+  });
+
+  it("prefers a number in the subject and ignores years and codeless numbers", () => {
+    assert.deepEqual(extractFromMessage({ subject: "739201 is your login code", text: "Thanks" }).codes, ["739201"]);
+    assert.deepEqual(extractFromMessage({ text: "Order 55512 shipped. Discount code valid until 2025." }).codes, []);
+    assert.deepEqual(extractFromMessage({ subject: "Welcome", text: "Call us at 5551234 anytime" }).codes, []);
+  });
+
+  it("keeps at most three distinct codes", () => {
+    const text = "code 1111 code 2222 code 1111 code 3333 code 4444";
+    assert.deepEqual(extractFromMessage({ text }).codes, ["1111", "2222", "3333"]);
+  });
+
+  it("finds verification links by URL or label and skips unsubscribe and images", () => {
+    const html = [
+      '<a href="https://app.test/verify?token=a&amp;b=1">here</a>',
+      '<a href="https://app.test/go/123">Confirm your email</a>',
+      '<a href="https://app.test/unsubscribe?auth=1">Unsubscribe</a>',
+      '<img src="https://app.test/login.png"><a href="https://app.test/login.png">Sign in</a>',
+      '<a href="https://app.test/blog">Read our blog</a>',
+      '<a href="mailto:verify@app.test">verify</a>',
+    ];
+    assert.deepEqual(extractFromMessage({ html }).links, ["https://app.test/verify?token=a&b=1", "https://app.test/go/123"]);
+  });
+
+  it("reads bare links and codes from text, or from HTML without a text part", () => {
+    assert.deepEqual(extractFromMessage({ text: "Reset your password: https://app.test/reset/xyz (valid 1h)" }).links, ["https://app.test/reset/xyz"]);
+    const fromHtml = extractFromMessage({ html: ["<style>.code{color:red}</style><p>Your code is <b>908172</b></p>"] });
+    assert.deepEqual(fromHtml, { codes: ["908172"], links: [] });
+  });
+
+  it("scans hostile HTML in linear time", () => {
+    const hostile = [
+      '<a href="https://app.test/verify">'.repeat(40_000),
+      "<a ".repeat(40_000),
+      "<style>".repeat(40_000),
+      "<".repeat(200_000),
+    ];
+    for (const html of hostile) {
+      const started = Date.now();
+      extractFromMessage({ html: [html] });
+      htmlToText(html);
+      assert.ok(Date.now() - started < 500, `${html.slice(0, 10)}... took ${Date.now() - started} ms`);
+    }
+    assert.deepEqual(extractFromMessage({ html: [hostile[0]] }).links, ["https://app.test/verify"]);
+  });
+
+  it("turns HTML into text without styles, scripts or entities", () => {
+    assert.equal(htmlToText("<style>p{}</style><p>A&nbsp;&amp;&nbsp;B</p><script>x()</script>").trim(), "A & B");
+  });
+});
@@ -0,0 +1,221 @@
+import express from "express";
+import { randomUUID } from "crypto";
+import { listen } from "./helpers.ts";
+
+// A small in-process stand-in for the mail.tm API, speaking its Hydra JSON shapes, so
+// the proxy routes can be exercised end to end without network access.
+
+interface FakeAttachment {
+  id: string;
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+interface FakeMessage {
+  id: string;
+  accountId: string;
+  from: { address: string; name: string };
+  subject: string;
+  text: string;
+  html: string[];
+  seen: boolean;
+  attachments: FakeAttachment[];
+  createdAt: string;
+}
+
+export interface FakeMailTm {
+  url: string;
+  // Adds a message to an account's inbox, newest first like the real API
+  deliver(address: string, message: { from?: string; subject?: string; text?: string; html?: string[]; attachments?: { filename: string; contentType: string; content: string }[] }): string;
+  // Answers the next `count` requests with `status` (429s come with Retry-After: 7)
+  failNext(status: number, count?: number): void;
+  // Holds the next request for `ms` before answering it
+  stallNext(ms: number): void;
+  requests: { method: string; path: string; contentType?: string }[];
+  close(): Promise<void>;
+}
+
+const PAGE_SIZE = 30;
+export const FAKE_DOMAIN = "fake.test";
+
+export const startFakeMailTm = async (): Promise<FakeMailTm> => {
+  const accounts = new Map<string, { id: string; address: string; password: string; createdAt: string }>();
+  const tokens = new Map<string, string>();
+  let messages: FakeMessage[] = [];
+  const failures: number[] = [];
+  const stalls: number[] = [];
+  const requests: FakeMailTm["requests"] = [];
+
+  const app = express();
+  app.use(express.json({ type: ["application/json", "application/merge-patch+json"] }));
+
+  app.use(async (req, res, next) => {
+    requests.push({ method: req.method, path: req.path, contentType: req.headers["content-type"] });
+    const stall = stalls.shift();
+    if (stall) await new Promise((resolve) => setTimeout(resolve, stall));
+    const status = failures.shift();
+    if (status === 429) res.set("Retry-After", "7");
+    if (status) return res.status(status).json({ "hydra:description": `Injected ${status}` });
+    next();
+  });
+
+  const accountId = (req: express.Request, res: express.Response) => {
+    const id = tokens.get((req.headers.authorization || "").replace(/^Bearer /, ""));
+    if (!id) res.status(401).json({ code: 401, message: "Invalid JWT Token" });
+    return id;
+  };
+
+  const ownMessage = (req: express.Request, res: express.Response) => {
+    const id = accountId(req, res);
+    if (!id) return undefined;
+    const message = messages.find((m) => m.id === req.params.id && m.accountId === id);
+    if (!message) res.status(404).json({ "hydra:description": "Not Found" });
+    return message;
+  };
+
+  const summary = (message: FakeMessage) => ({
+    id: message.id,
+    from: message.from,
+    to: [{ address: [...accounts.values()].find((a) => a.id === message.accountId)?.address, name: "" }],
+    subject: message.subject,
+    intro: message.text.slice(0, 100),
+    seen: message.seen,
+    hasAttachments: message.attachments.length > 0,
+    createdAt: message.createdAt,
+  });
+
+  app.get("/domains", (req, res) => {
+    res.json({ "hydra:member": [{ id: "d1", domain: FAKE_DOMAIN, isActive: true }], "hydra:totalItems": 1 });
+  });
+
+  app.post("/accounts", (req, res) => {
+    const { address, password } = req.body || {};
+    if (accounts.has(address)) {
+      return res.status(422).json({ "hydra:description": "address: This value is already used." });
+    }
+    const account = { id: randomUUID(), address, password, createdAt: new Date().toISOString() };
+    accounts.set(address, account);
+    res.status(201).json({ id: account.id, address, createdAt: account.createdAt });
+  });
+
+  app.get("/me", (req, res) => {
+    const id = accountId(req, res);
+    if (!id) return;
+    const account = [...accounts.values()].find((a) => a.id === id);
+    res.json({ id, address: account?.address, createdAt: account?.createdAt });
+  });
+
+  app.delete("/accounts/:id", (req, res) => {
+    const id = accountId(req, res);
+    if (!id) return;
+    if (id !== req.params.id) return res.status(403).json({ "hydra:description": "Access Denied." });
+    for (const [address, account] of accounts) {
+      if (account.id === id) accounts.delete(address);
+    }
+    messages = messages.filter((m) => m.accountId !== id);
+    res.status(204).send();
+  });
+
+  app.post("/token", (req, res) => {
+    const account = accounts.get(req.body?.address);
+    if (!account || account.password !== req.body?.password) {
+      return res.status(401).json({ code: 401, message: "Invalid credentials." });
+    }
+    const token = randomUUID();
+    tokens.set(token, account.id);
+    res.json({ id: account.id, token });
+  });
+
+  app.get("/messages", (req, res) => {
+    const id = accountId(req, res);
+    if (!id) return;
+    const own = messages.filter((m) => m.accountId === id);
+    const start = (Math.max(Number(req.query.page) || 1, 1) - 1) * PAGE_SIZE;
+    res.json({ "hydra:member": own.slice(start, start + PAGE_SIZE).map(summary), "hydra:totalItems": own.length });
+  });
+
+  app.get("/messages/:id", (req, res) => {
+    const message = ownMessage(req, res);
+    if (!message) return;
+    res.json({
+      ...summary(message),
+      text: message.text,
+      html: message.html,
+      attachments: message.attachments.map((a) => ({
+        id: a.id,
+        filename: a.filename,
+        contentType: a.contentType,
+        size: a.content.length,
+        disposition: "attachment",
+        downloadUrl: `/messages/${message.id}/attachment/${a.id}`,
+      })),
+    });
+  });
+
+  app.patch("/messages/:id", (req, res) => {
+    if (req.headers["content-type"] !== "application/merge-patch+json") {
+      return res.status(415).json({ "hydra:description": "The content-type is not supported." });
+    }
+    const message = ownMessage(req, res);
+    if (!message) return;
+    message.seen = Boolean(req.body?.seen);
+    res.json({ seen: message.seen });
+  });
+
+  app.delete("/messages/:id", (req, res) => {
+    const message = ownMessage(req, res);
+    if (!message) return;
+    messages = messages.filter((m) => m !== message);
+    res.status(204).send();
+  });
+
+  app.get("/messages/:id/attachment/:attachmentId", (req, res) => {
+    const message = ownMessage(req, res);
+    if (!message) return;
+    const attachment = message.attachments.find((a) => a.id === req.params.attachmentId);
+    if (!attachment) return res.status(404).json({ "hydra:description": "Not Found" });
+    res.type(attachment.contentType).send(attachment.content);
+  });
+
+  app.get("/sources/:id", (req, res) => {
+    const message = ownMessage(req, res);
+    if (!message) return;
+    res.json({ id: message.id, data: `From: ${message.from.address}\r\nSubject: ${message.subject}\r\n\r\n${message.text}` });
+  });
+
+  const { url, close } = await listen(app);
+
+  return {
+    url,
+    requests,
+
+    deliver(address, message) {
+      const account = accounts.get(address);
+      if (!account) throw new Error(`No fake account ${address}`);
+      const id = randomUUID();
+      messages.unshift({
+        id,
+        accountId: account.id,
+        from: { address: message.from || "sender@example.com", name: "" },
+        subject: message.subject || "",
+        text: message.text || "",
+        html: message.html || [],
+        seen: false,
+        attachments: (message.attachments || []).map((a) => ({ ...a, id: randomUUID(), content: Buffer.from(a.content) })),
+        createdAt: new Date().toISOString(),
+      });
+      return id;
+    },
+
+    failNext(status, count = 1) {
+      for (let i = 0; i < count; i++) failures.push(status);
+    },
+
+    stallNext(ms) {
+      stalls.push(ms);
+    },
+
+    close,
+  };
+};
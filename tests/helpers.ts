@@ -0,0 +1,40 @@
+import express from "express";
+import { AddressInfo } from "net";
+import { AppOptions, createApp } from "../api/index.ts";
+import { MailProvider } from "../server/providers/index.ts";
+import { createMailClient, MailClient } from "../src/lib/mailClient.ts";
+
+// Shared server bootstrap for the tests that talk to the API over HTTP.
+
+export interface Listening {
+  // Origin of the server, e.g. http://127.0.0.1:54321
+  url: string;
+  close: () => Promise<void>;
+}
+
+export interface TestApi extends Listening {
+  // Where the /mail routes live
+  mailUrl: string;
+  // Fails fast instead of retrying, so an unexpected error surfaces at once
+  client: MailClient;
+}
+
+// Serves an Express app on an ephemeral local port
+export const listen = async (app: express.Express): Promise<Listening> => {
+  const server = app.listen(0, "127.0.0.1");
+  await new Promise((resolve) => server.once("listening", resolve));
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    close: async () => {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    },
+  };
+};
+
+// Starts the API on top of `provider`
+export const startApi = async (provider: MailProvider, options?: AppOptions): Promise<TestApi> => {
+  const listening = await listen(createApp(provider, options));
+  const mailUrl = `${listening.url}/api/mail`;
+  return { ...listening, mailUrl, client: createMailClient({ baseUrl: mailUrl, retries: 0 }) };
+};
@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createTranslator, describeError, formatDuration, formatRelativeTime, MessageKey } from "../src/lib/i18n.ts";
+import { MailApiError, RateLimitError, UpstreamError } from "../src/lib/mailClient.ts";
+import en from "../src/locales/en.ts";
+import fr from "../src/locales/fr.ts";
+
+const forms = (entry: string | { one: string; other: string }) => (typeof entry === "string" ? [entry] : [entry.one, entry.other]);
+// ICU separates numbers and units with no-break spaces in some locales
+const plain = (text: string) => text.replace(/\s/g, " ");
+const params = (text: string) => [...text.matchAll(/\{(\w+)\}/g)].map((match) => match[1]).sort();
+
+describe("translations", () => {
+  it("gives every English message a French one with the same parameters", () => {
+    assert.deepEqual(Object.keys(fr).sort(), Object.keys(en).sort());
+    for (const key of Object.keys(en) as MessageKey[]) {
+      const expected = new Set(forms(en[key]).flatMap(params));
+      for (const text of forms(fr[key])) {
+        assert.ok(text.trim(), `${key} is empty`);
+        // Plural forms may leave out {count}, e.g. for "one"
+        assert.ok(params(text).every((name) => expected.has(name)), `${key} has unknown parameters`);
+      }
+    }
+  });
+
+  it("fills in parameters and picks plural forms by locale", () => {
+    const t = createTranslator("en");
+    assert.equal(t("sidebar.rename", { name: "work" }), "Rename work");
+    assert.equal(t("inbox.total", { count: 1 }), "1 message");
+    assert.equal(t("inbox.total", { count: 0 }), "0 messages");
+
+    // French counts zero as singular
+    const tf = createTranslator("fr");
+    assert.equal(tf("sidebar.unread", { count: 0 }), "0 message non lu");
+    assert.equal(tf("sidebar.unread", { count: 3 }), "3 messages non lus");
+    assert.equal(tf("toolbar.selected", { count: 2 }), "2 sélectionnés");
+  });
+
+  it("formats relative times and durations", () => {
+    const now = Date.parse("2026-03-10T12:00:00Z");
+    const ago = (seconds: number) => new Date(now - seconds * 1000).toISOString();
+    assert.equal(formatRelativeTime("en", ago(10), now), "now");
+    assert.equal(formatRelativeTime("fr", ago(10), now), "maintenant");
+    // Abbreviations vary a little between ICU versions
+    assert.match(plain(formatRelativeTime("en", ago(5 * 60), now)), /^5 min\.? ago$/);
+    assert.equal(plain(formatRelativeTime("fr", ago(3 * 3600), now)), "il y a 3 h");
+    assert.equal(formatRelativeTime("en", ago(30 * 3600), now), "yesterday");
+    assert.equal(formatRelativeTime("en", ago(30 * 86400), now), "Feb 8, 2026");
+
+    assert.equal(plain(formatDuration("en", 3600)), "1 hour");
+    assert.equal(plain(formatDuration("fr", 600)), "10 minutes");
+    assert.equal(plain(formatDuration("fr", 86400)), "1 jour");
+    assert.equal(plain(formatDuration("en", 7 * 86400, true)), "7d");
+  });
+
+  it("translates the errors the client can classify", () => {
+    const t = createTranslator("fr");
+    assert.equal(describeError(new RateLimitError("Too many", 30), t).message, "Trop de requêtes. Réessayez dans 30 secondes.");
+    assert.equal(describeError(new UpstreamError(0, "Could not reach the mail server"), t).message, t("error.offline"));
+
+    const notFound = new MailApiError(404, "Message not found");
+    notFound.requestId = "req-1";
+    assert.deepEqual(describeError(notFound, t), { message: "Message not found", requestId: "req-1" });
+    assert.deepEqual(describeError("Déjà fait", t), { message: "Déjà fait" });
+  });
+});
@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createTranslator } from "../src/lib/i18n.ts";
+import { evaluateRules, exportRuleSet, importRuleSet, orderMessages, ruleError } from "../src/lib/inboxRules.ts";
+import { InboxRule, Message } from "../src/types.ts";
+
+const message = (id: string, address: string, subject: string, intro = ""): Message => ({
+  id,
+  from: { address, name: "" },
+  subject,
+  intro,
+  createdAt: "2026-01-01T00:00:00.000Z",
+  seen: false,
+  hasAttachments: false,
+});
+
+const rule = (partial: Partial<InboxRule>): InboxRule => ({
+  id: `rule-${Math.random()}`,
+  field: "from",
+  operator: "contains",
+  value: "",
+  action: "pin",
+  enabled: true,
+  ...partial,
+});
+
+describe("inbox rules", () => {
+  const messages = [
+    message("1", "deals@news.shop.test", "50% off everything", "Unsubscribe at any time"),
+    message("2", "noreply@auth.test", "Your code is 123456", "Use it to sign in"),
+    message("3", "team@shop.test", "Order #42 confirmed", "Thanks for your order"),
+    message("4", "hello@shopping.test", "Welcome"),
+  ];
+
+  it("matches senders by domain, text and regex, and combines the actions", () => {
+    const rules = [
+      rule({ operator: "domain", value: "@Shop.test", action: "label", label: "Shop" }),
+      rule({ field: "intro", value: "UNSUBSCRIBE", action: "delete" }),
+      rule({ field: "subject", operator: "regex", value: "\\bcode\\b|confirmed$", action: "pin" }),
+      rule({ field: "subject", operator: "regex", value: "order", action: "highlight", color: "amber" }),
+      rule({ field: "subject", operator: "regex", value: ".", action: "highlight", color: "rose" }),
+      rule({ value: "hello", action: "delete", enabled: false }),
+    ];
+    const outcomes = evaluateRules(rules, messages);
+
+    // The domain covers subdomains but not look-alikes
+    assert.deepEqual(outcomes.get("1"), { labels: ["Shop"], highlight: "rose", pinned: false, deleted: true });
+    assert.deepEqual(outcomes.get("2"), { labels: [], highlight: "rose", pinned: true, deleted: false });
+    assert.deepEqual(outcomes.get("3"), { labels: ["Shop"], highlight: "amber", pinned: true, deleted: false });
+    assert.deepEqual(outcomes.get("4"), { labels: [], highlight: "rose", pinned: false, deleted: false });
+
+    assert.deepEqual(orderMessages(messages, outcomes).map((m) => m.id), ["2", "3", "4"]);
+  });
+
+  it("rejects rules it cannot run", () => {
+    assert.equal(ruleError(rule({ value: "  " })), "The condition needs a value");
+    assert.equal(ruleError(rule({ field: "subject", operator: "domain", value: "shop.test" })), "Domains can only be matched on the sender");
+    assert.equal(ruleError(rule({ operator: "regex", value: "(" })), "The regular expression is invalid");
+    assert.equal(ruleError(rule({ value: "x", action: "label" })), "The label is missing");
+    assert.equal(ruleError(rule({ value: "x", action: "highlight", color: "black" as any })), "Unknown highlight colour");
+    assert.equal(ruleError(rule({ value: "x", action: "label" }), createTranslator("fr")), "L’étiquette manque");
+    assert.equal(evaluateRules([rule({ operator: "regex", value: "(", action: "delete" })], messages).size, 0);
+  });
+
+  it("round-trips rule sets through JSON with fresh IDs", () => {
+    const rules = [
+      rule({ operator: "domain", value: "shop.test", action: "label", label: "Shop" }),
+      rule({ field: "subject", value: "code", action: "highlight", color: "sky", enabled: false }),
+    ];
+    const file = exportRuleSet(rules);
+    assert.equal(JSON.parse(file).rules[0].id, undefined);
+
+    const imported = importRuleSet(file);
+    assert.deepEqual(imported.map(({ id, ...r }) => r), rules.map(({ id, ...r }) => r));
+    assert.ok(imported.every((r, i) => r.id && r.id !== rules[i].id));
+
+    assert.throws(() => importRuleSet("{"), /not valid JSON/);
+    assert.throws(() => importRuleSet(JSON.stringify({ version: 2, rules: [] })), /Not a version 1 rule set/);
+    assert.throws(
+      () => importRuleSet(JSON.stringify({ version: 1, rules: [{ field: "from", operator: "regex", value: "[", action: "pin" }] })),
+      /^Error: Rule 1: The regular expression is invalid$/,
+    );
+    assert.throws(() => importRuleSet("{", createTranslator("fr")), /n’est pas du JSON valide/);
+  });
+});
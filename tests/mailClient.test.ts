@@ -0,0 +1,106 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { AuthExpiredError, createMailClient, MailApiError, UpstreamError } from "../src/lib/mailClient.ts";
+
+// Client behaviour that doesn't need a server: retries, cancellation and error typing
+
+const json = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+// A fetch that answers from a script of responses and records the calls it got
+const scriptedFetch = (...responses: (Response | Error)[]) => {
+  const calls: { url: string; init?: RequestInit }[] = [];
+  const fetch = async (url: string | URL | Request, init?: RequestInit) => {
+    calls.push({ url: String(url), init });
+    const next = responses.shift();
+    if (!next) throw new Error("No scripted response left");
+    if (next instanceof Error) throw next;
+    return next;
+  };
+  return { fetch: fetch as typeof globalThis.fetch, calls };
+};
+
+describe("mail client", () => {
+  it("sends bearer tokens and query parameters", async () => {
+    const { fetch, calls } = scriptedFetch(json(200, { items: [], total: 0 }));
+    const client = createMailClient({ baseUrl: "http://mail.test/api/mail", fetch });
+
+    await client.listMessages("tok", { page: 2, q: "invoice", unread: true, hasAttachments: false });
+    assert.equal(calls[0].url, "http://mail.test/api/mail/messages?page=2&q=invoice&unread=1");
+    assert.deepEqual(calls[0].init?.headers, { Authorization: "Bearer tok" });
+  });
+
+  it("retries idempotent requests on upstream errors", async () => {
+    const { fetch, calls } = scriptedFetch(
+      json(502, { error: "Bad gateway" }),
+      new TypeError("fetch failed"),
+      json(200, { items: [{ id: "d", domain: "x.test", isActive: true }], total: 1 }),
+    );
+    const client = createMailClient({ baseUrl: "", fetch, retries: 2, retryDelay: 1 });
+
+    assert.equal((await client.listDomains())[0].domain, "x.test");
+    assert.equal(calls.length, 3);
+  });
+
+  it("gives up after the configured retries", async () => {
+    const { fetch, calls } = scriptedFetch(json(503, { error: "Down" }), json(503, { error: "Still down" }));
+    const client = createMailClient({ baseUrl: "", fetch, retries: 1, retryDelay: 1 });
+
+    const error = await client.listDomains().catch((e) => e);
+    assert.ok(error instanceof UpstreamError);
+    assert.equal(error.status, 503);
+    assert.equal(error.message, "Still down");
+    assert.equal(calls.length, 2);
+  });
+
+  it("never retries non-idempotent requests", async () => {
+    const { fetch, calls } = scriptedFetch(json(502, { error: "Bad gateway" }));
+    const client = createMailClient({ baseUrl: "", fetch, retryDelay: 1 });
+
+    await assert.rejects(client.createAccount("a@x.test", "secret-pass"), UpstreamError);
+    assert.equal(calls.length, 1);
+  });
+
+  it("reports network failures as upstream errors with status 0", async () => {
+    const { fetch } = scriptedFetch(new TypeError("fetch failed"));
+    const client = createMailClient({ baseUrl: "", fetch, retries: 0 });
+
+    const error = await client.listDomains().catch((e) => e);
+    assert.ok(error instanceof UpstreamError);
+    assert.equal(error.status, 0);
+    assert.equal(error.details, "fetch failed");
+  });
+
+  it("types auth and client errors", async () => {
+    const { fetch } = scriptedFetch(
+      json(401, { error: "Invalid JWT Token" }),
+      json(404, { error: "Message not found", details: "gone" }),
+    );
+    const client = createMailClient({ baseUrl: "", fetch });
+
+    await assert.rejects(client.getMessage("tok", "m1"), AuthExpiredError);
+    const error = await client.getMessage("tok", "m1").catch((e) => e);
+    assert.ok(error instanceof MailApiError && !(error instanceof UpstreamError));
+    assert.equal(error.status, 404);
+    assert.equal(error.details, "gone");
+  });
+
+  it("stops waiting between retries when aborted", async () => {
+    const { fetch, calls } = scriptedFetch(json(503, { error: "Down" }), json(200, { items: [], total: 0 }));
+    const client = createMailClient({ baseUrl: "", fetch, retryDelay: 10000 });
+    const controller = new AbortController();
+
+    const pending = client.listDomains({ signal: controller.signal });
+    setTimeout(() => controller.abort(), 10);
+    await assert.rejects(pending, { name: "AbortError" });
+    assert.equal(calls.length, 1);
+  });
+
+  it("maps the wait route's 408 to null", async () => {
+    const { fetch, calls } = scriptedFetch(json(408, { error: "No matching message arrived within 1s" }));
+    const client = createMailClient({ baseUrl: "", fetch });
+
+    assert.equal(await client.waitForMessage("tok", { subject: "code", timeout: 1 }), null);
+    assert.equal(calls[0].url, "/wait?subject=code&timeout=1");
+  });
+});
@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { createMailTmProvider, ProviderError } from "../server/providers/index.ts";
+import { FAKE_DOMAIN, FakeMailTm, startFakeMailTm } from "./fakeMailTm.ts";
+
+// Upstream resilience of the mail.tm provider: timeouts, retries and the domain cache
+
+describe("mail.tm provider", () => {
+  let fake: FakeMailTm;
+
+  before(async () => {
+    fake = await startFakeMailTm();
+  });
+
+  after(() => fake.close());
+
+  const countRequests = (method: string, path: string) =>
+    fake.requests.filter((r) => r.method === method && r.path === path).length;
+
+  it("caches domains until the TTL passes", async () => {
+    const provider = createMailTmProvider(fake.url, { domainCacheTtlMs: 100 });
+    const start = countRequests("GET", "/domains");
+
+    await Promise.all([provider.listDomains(), provider.listDomains()]);
+    await provider.listDomains();
+    assert.equal(countRequests("GET", "/domains") - start, 1);
+
+    await new Promise((resolve) => setTimeout(resolve, 120));
+    assert.equal((await provider.listDomains())[0].domain, FAKE_DOMAIN);
+    assert.equal(countRequests("GET", "/domains") - start, 2);
+  });
+
+  it("does not cache failed domain lookups", async () => {
+    const provider = createMailTmProvider(fake.url, { retries: 0 });
+    fake.failNext(503);
+    await assert.rejects(provider.listDomains(), (e: ProviderError) => e.status === 503);
+    assert.equal((await provider.listDomains()).length, 1);
+  });
+
+  it("retries 5xx and network errors on idempotent requests only", async () => {
+    const provider = createMailTmProvider(fake.url, { retries: 2, retryDelayMs: 1 });
+    fake.failNext(502, 2);
+    assert.equal((await provider.listDomains()).length, 1);
+
+    const start = countRequests("POST", "/accounts");
+    fake.failNext(503);
+    await assert.rejects(provider.createAccount(`once@${FAKE_DOMAIN}`, "secret-pass"), (e: ProviderError) => e.status === 503);
+    assert.equal(countRequests("POST", "/accounts") - start, 1);
+
+    const unreachable = createMailTmProvider("http://127.0.0.1:1", { retries: 1, retryDelayMs: 1 });
+    await assert.rejects(unreachable.listDomains(), (e: ProviderError) => e.status === 502);
+  });
+
+  it("gives up on slow responses with 504", async () => {
+    const provider = createMailTmProvider(fake.url, { timeoutMs: 50, retries: 0 });
+    fake.stallNext(200);
+    const error = await provider.listDomains().catch((e) => e);
+    assert.ok(error instanceof ProviderError);
+    assert.equal(error.status, 504);
+    assert.equal(error.message, "The mail service did not respond in time");
+  });
+
+  it("reports upstream rate limits without retrying", async () => {
+    const provider = createMailTmProvider(fake.url, { retryDelayMs: 1 });
+    const start = countRequests("POST", "/token");
+    fake.failNext(429);
+    const error = await provider.getToken(`nobody@${FAKE_DOMAIN}`, "secret-pass").catch((e) => e);
+    assert.ok(error instanceof ProviderError);
+    assert.equal(error.status, 429);
+    assert.equal(error.retryAfter, 7);
+    assert.equal(countRequests("POST", "/token") - start, 1);
+  });
+});
@@ -0,0 +1,161 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { createMailTmProvider, createMemoryProvider, createSqliteProvider, InboxEvent, MailProvider } from "../server/providers/index.ts";
+import { FAKE_DOMAIN, FakeMailTm, startFakeMailTm } from "./fakeMailTm.ts";
+
+describe("memory provider", () => {
+  const setup = async () => {
+    const provider = createMemoryProvider(["memory.test"]);
+    const account = await provider.createAccount("Tester@Memory.test", "hunter22");
+    const { token } = await provider.getToken("tester@memory.test", "hunter22");
+    return { provider, account, token };
+  };
+
+  it("creates accounts on its domains and hands out tokens for them", async () => {
+    const { provider, account, token } = await setup();
+    assert.deepEqual(await provider.listDomains().then((domains) => domains.map((d) => d.domain)), ["memory.test"]);
+    assert.equal(account.address, "tester@memory.test");
+    assert.deepEqual(await provider.getAccount(token), account);
+    assert.equal(await provider.isAddressAvailable!("tester@memory.test"), false);
+
+    await assert.rejects(provider.createAccount("tester@memory.test", "other"), { status: 422 });
+    await assert.rejects(provider.createAccount("someone@elsewhere.test", "hunter22"), { status: 422 });
+    await assert.rejects(provider.getToken("tester@memory.test", "wrong"), { status: 401 });
+    await assert.rejects(provider.getAccount("made-up"), { status: 401 });
+  });
+
+  it("lists delivered mail newest first and filters it", async () => {
+    const { provider, token } = await setup();
+    provider.deliver("tester@memory.test", { from: { address: "a@app.test", name: "" }, subject: "First", text: "Welcome aboard" });
+    provider.deliver("tester@memory.test", {
+      from: { address: "b@app.test", name: "B" },
+      subject: "Second",
+      text: "Your file",
+      attachments: [{ filename: "a.txt", contentType: "text/plain", content: "A" }],
+    });
+
+    const { items, total } = await provider.listMessages(token);
+    assert.equal(total, 2);
+    assert.deepEqual(items.map((m) => m.subject), ["Second", "First"]);
+    assert.equal(items[0].hasAttachments, true);
+    assert.equal(items[1].intro, "Welcome aboard");
+    assert.equal("text" in items[0], false);
+
+    assert.deepEqual((await provider.listMessages(token, 1, { q: "aboard" })).items.map((m) => m.subject), ["First"]);
+    assert.deepEqual((await provider.listMessages(token, 1, { hasAttachments: true })).items.map((m) => m.subject), ["Second"]);
+    assert.equal((await provider.listMessages(token, 2)).items.length, 0);
+  });
+
+  it("marks mail read on getMessage only and reports changes to subscribers", async () => {
+    const { provider, token } = await setup();
+    const events: InboxEvent[] = [];
+    const stop = await provider.subscribe!(token, (event) => events.push(event));
+    const { id } = provider.deliver("tester@memory.test", { from: { address: "a@app.test", name: "" }, subject: "Hi", text: "Hi" });
+
+    assert.equal((await provider.peekMessage(token, id)).seen, false);
+    assert.equal((await provider.getMessage(token, id)).seen, true);
+    await provider.setSeen(token, id, false);
+    await provider.deleteMessage(token, id);
+    stop();
+    provider.deliver("tester@memory.test", { from: { address: "a@app.test", name: "" }, subject: "Unheard" });
+
+    assert.deepEqual(events.map((event) => event.type), ["new-message", "message-seen", "message-seen", "message-deleted"]);
+    await assert.rejects(provider.getMessage(token, id), { status: 404 });
+  });
+
+  it("serves attachments and a source for mail delivered without one", async () => {
+    const { provider, token } = await setup();
+    const message = provider.deliver("tester@memory.test", {
+      from: { address: "a@app.test", name: "Ünïcode" },
+      subject: "Logs",
+      text: "Attached",
+      attachments: [{ filename: "app.log", contentType: "text/plain", content: "boot ok" }],
+    });
+
+    const attachment = await provider.getAttachment(token, message.id, message.attachments[0].id);
+    const chunks: Buffer[] = [];
+    for await (const chunk of attachment.stream) chunks.push(chunk);
+    assert.equal(Buffer.concat(chunks).toString(), "boot ok");
+    await assert.rejects(provider.getAttachment(token, message.id, "missing"), { status: 404 });
+
+    const source = await provider.getSource(token, message.id);
+    assert.match(source, /^From: =\?UTF-8\?B\?.+\?= <a@app\.test>$/m);
+    assert.match(source, /^Content-Disposition: attachment; filename="app\.log"\r$/m);
+  });
+
+  it("keeps inboxes apart and deletes accounts with their tokens", async () => {
+    const { provider, account, token } = await setup();
+    const other = await provider.createAccount("other@memory.test", "hunter22");
+    const { token: otherToken } = await provider.getToken("other@memory.test", "hunter22");
+    const { id } = provider.deliver("tester@memory.test", { from: { address: "a@app.test", name: "" }, subject: "Private" });
+
+    await assert.rejects(provider.getMessage(otherToken, id), { status: 404 });
+    await assert.rejects(provider.deleteAccount(token, other.id), { status: 403 });
+
+    await provider.deleteAccount(token, account.id);
+    await assert.rejects(provider.listMessages(token), { status: 401 });
+    assert.equal(await provider.isAddressAvailable!("tester@memory.test"), true);
+  });
+});
+
+// What every provider must agree on, whatever it stores mail in
+describe("provider contract", () => {
+  let fake: FakeMailTm;
+
+  before(async () => {
+    fake = await startFakeMailTm();
+  });
+
+  after(() => fake.close());
+
+  // Each setup returns a fresh inbox and a way to drop one message into it
+  const setups: Record<string, () => Promise<{ provider: MailProvider; token: string; deliver: () => Promise<string> }>> = {
+    memory: async () => {
+      const provider = createMemoryProvider(["memory.test"]);
+      await provider.createAccount("reader@memory.test", "hunter22");
+      const { token } = await provider.getToken("reader@memory.test", "hunter22");
+      return { provider, token, deliver: async () => provider.deliver("reader@memory.test", { from: { address: "a@app.test", name: "" }, subject: "Hi" }).id };
+    },
+    sqlite: async () => {
+      const provider = createSqliteProvider(":memory:", ["local.test"]);
+      await provider.createAccount("reader@local.test", "hunter22");
+      const { token } = await provider.getToken("reader@local.test", "hunter22");
+      const deliver = async () => {
+        const message = await provider.receive("reader@local.test", {
+          from: { address: "a@app.test", name: "" },
+          to: [{ address: "reader@local.test", name: "" }],
+          subject: "Hi",
+          text: "Hi",
+          html: [],
+          attachments: [],
+          date: new Date(),
+          raw: Buffer.from("Subject: Hi\r\n\r\nHi\r\n"),
+        });
+        return message.id;
+      };
+      return { provider, token, deliver };
+    },
+    mailtm: async () => {
+      const provider = createMailTmProvider(fake.url, { retries: 0 });
+      const address = `reader-${Date.now()}@${FAKE_DOMAIN}`;
+      await provider.createAccount(address, "hunter22");
+      const { token } = await provider.getToken(address, "hunter22");
+      return { provider, token, deliver: async () => fake.deliver(address, { subject: "Hi" }) };
+    },
+  };
+
+  for (const [name, setup] of Object.entries(setups)) {
+    it(`${name}: getMessage marks mail read and peekMessage leaves it alone`, async () => {
+      const { provider, token, deliver } = await setup();
+      const id = await deliver();
+
+      assert.equal((await provider.peekMessage(token, id)).seen, false);
+      assert.equal((await provider.listMessages(token)).items[0].seen, false);
+      assert.equal((await provider.getMessage(token, id)).seen, true);
+      assert.equal((await provider.listMessages(token)).items[0].seen, true);
+
+      await provider.setSeen(token, id, false);
+      assert.equal((await provider.peekMessage(token, id)).seen, false);
+    });
+  }
+});
@@ -0,0 +1,102 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { createMailTmProvider } from "../server/providers/index.ts";
+import { createMailClient, MailApiError } from "../src/lib/mailClient.ts";
+import { FakeMailTm, startFakeMailTm } from "./fakeMailTm.ts";
+import { startApi, TestApi } from "./helpers.ts";
+
+// Captures the JSON lines the logger writes to stdout and stderr while `run` executes,
+// passing anything else (such as the test runner's own reports) through
+const captureLogs = async (run: () => Promise<void>) => {
+  const lines: any[] = [];
+  const level = process.env.LOG_LEVEL;
+  const writes = [process.stdout.write, process.stderr.write];
+  const capture = (original: typeof process.stdout.write) => function (this: any, chunk: any, ...rest: any[]) {
+    if (typeof chunk === "string" && chunk.startsWith('{"time"')) {
+      lines.push(JSON.parse(chunk));
+      return true;
+    }
+    return original.call(this, chunk, ...rest);
+  } as typeof process.stdout.write;
+  process.env.LOG_LEVEL = "info";
+  process.stdout.write = capture(writes[0]);
+  process.stderr.write = capture(writes[1]);
+  try {
+    await run();
+    // The request log is written once the response has closed
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  } finally {
+    [process.stdout.write, process.stderr.write] = writes;
+    process.env.LOG_LEVEL = level;
+  }
+  return lines;
+};
+
+describe("logging, health and metrics", () => {
+  let fake: FakeMailTm;
+  let api: TestApi;
+  let url: string;
+
+  before(async () => {
+    fake = await startFakeMailTm();
+    api = await startApi(createMailTmProvider(fake.url, { retries: 0 }));
+    url = `${api.url}/api`;
+  });
+
+  after(async () => {
+    await api.close();
+    await fake.close();
+  });
+
+  it("tags responses and errors with a request ID", async () => {
+    const res = await fetch(`${url}/mail/domains`);
+    assert.match(res.headers.get("x-request-id") || "", /^[0-9a-f-]{36}$/);
+
+    const quoted = await fetch(`${url}/mail/domains`, { headers: { "X-Request-Id": "support-42" } });
+    assert.equal(quoted.headers.get("x-request-id"), "support-42");
+
+    const error = await createMailClient({ baseUrl: `${url}/mail` }).getMessage("bad-token", "m1").catch((e) => e);
+    assert.ok(error instanceof MailApiError);
+    assert.match(error.requestId || "", /^[0-9a-f-]{36}$/);
+  });
+
+  it("writes JSON request logs without credentials", async () => {
+    const lines = await captureLogs(async () => {
+      await fetch(`${url}/mail/messages?page=1`, { headers: { Authorization: "Bearer secret-token", "X-Request-Id": "log-1" } });
+      const events = await fetch(`${url}/mail/events?token=secret-token`);
+      await events.body?.cancel();
+    });
+
+    const entry = lines.find((line) => line.requestId === "log-1" && line.msg === "Request handled");
+    assert.ok(entry);
+    assert.equal(entry.route, "/mail/messages");
+    assert.equal(entry.status, 401);
+    assert.equal(typeof entry.durationMs, "number");
+    assert.ok(lines.some((line) => line.url === "/api/mail/events?token=[redacted]"));
+    assert.ok(!JSON.stringify(lines).includes("secret-token"));
+  });
+
+  it("checks the upstream in deep health mode", async () => {
+    assert.deepEqual(await (await fetch(`${url}/health`)).json(), { status: "ok", service: "KAS Temp Mail Proxy", provider: "mailtm" });
+
+    const healthy = await (await fetch(`${url}/health?deep=1`)).json();
+    assert.equal(healthy.upstream.status, "ok");
+
+    fake.failNext(503);
+    const unhealthy = await fetch(`${url}/health?deep=1`);
+    assert.equal(unhealthy.status, 503);
+    assert.equal((await unhealthy.json()).upstream.error, "Injected 503");
+  });
+
+  it("reports request counts, latencies and upstream errors per route", async () => {
+    fake.failNext(502);
+    await fetch(`${url}/mail/accounts`, { method: "POST", headers: { "Content-Type": "application/json" }, body: "{}" });
+
+    const res = await fetch(`${url}/metrics`);
+    assert.match(res.headers.get("content-type") || "", /^text\/plain;.*version=0\.0\.4/);
+    const text = await res.text();
+    assert.match(text, /^kasmail_http_requests_total\{method="GET",route="\/mail\/domains",status="200"\} 2$/m);
+    assert.match(text, /^kasmail_http_request_duration_seconds_count\{method="GET",route="\/mail\/domains"\} 2$/m);
+    assert.match(text, /^kasmail_upstream_errors_total\{route="\/mail\/accounts",status="502"\} 1$/m);
+  });
+});
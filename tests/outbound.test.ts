@@ -0,0 +1,189 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { AddressInfo } from "net";
+import { ParsedMail, simpleParser } from "mailparser";
+import { SMTPServer } from "smtp-server";
+import { createInboxEvents } from "../server/events.ts";
+import { createOutbound, createSmtpTransport, MailTransport } from "../server/outbound.ts";
+import { createMemoryProvider, MemoryProvider } from "../server/providers/index.ts";
+import { MailApiError, MailClient } from "../src/lib/mailClient.ts";
+import { startApi, TestApi } from "./helpers.ts";
+
+// Local SMTP sink standing in for the relay: it accepts everything and keeps it
+const startSink = async () => {
+  const received: { to: string[]; mail: ParsedMail }[] = [];
+  const waiting: (() => void)[] = [];
+  const sink = new SMTPServer({
+    authOptional: true,
+    disabledCommands: ["AUTH", "STARTTLS"],
+    logger: false,
+    onData(stream, session, callback) {
+      simpleParser(stream).then((mail) => {
+        received.push({ to: session.envelope.rcptTo.map((rcpt) => rcpt.address), mail });
+        waiting.splice(0).forEach((resolve) => resolve());
+        callback();
+      }, callback);
+    },
+  });
+  await new Promise<void>((resolve) => sink.listen(0, "127.0.0.1", resolve));
+  const port = ((sink as any).server.address() as AddressInfo).port;
+  // Resolves once the sink holds `count` messages
+  const until = async (count: number) => {
+    while (received.length < count) await new Promise<void>((resolve) => waiting.push(resolve));
+    return received[count - 1];
+  };
+  return { sink, port, received, until };
+};
+
+describe("outbound mail", () => {
+  let provider: MemoryProvider;
+  let api: TestApi;
+  let client: MailClient;
+  let smtp: Awaited<ReturnType<typeof startSink>>;
+
+  before(async () => {
+    process.env.OUTBOUND_LIMIT_PER_HOUR = "3";
+    process.env.OUTBOUND_ALLOWED_RECIPIENTS = "me.test,boss@corp.test";
+    smtp = await startSink();
+    provider = createMemoryProvider(["temp.test"]);
+    api = await startApi(provider, { mailTransport: createSmtpTransport({ host: "127.0.0.1", port: smtp.port, secure: false }) });
+    client = api.client;
+  });
+
+  after(async () => {
+    delete process.env.OUTBOUND_LIMIT_PER_HOUR;
+    delete process.env.OUTBOUND_ALLOWED_RECIPIENTS;
+    await api.close();
+    await new Promise<void>((resolve) => smtp.sink.close(resolve));
+  });
+
+  const newInbox = (username: string) => client.createInbox({ username, domain: "temp.test" });
+  const status = (expected: number) => (e: MailApiError) => e.status === expected;
+
+  it("replies from the temp address with the original quoted", async () => {
+    const inbox = await newInbox("support");
+    const { id } = provider.deliver(inbox.address, {
+      from: { address: "help@shop.test", name: "Shop" },
+      subject: "Confirm your subscription",
+      raw: [
+        "From: Shop <help@shop.test>",
+        "Reply-To: replies@me.test",
+        `To: ${inbox.address}`,
+        "Subject: Confirm your subscription",
+        "Message-ID: <abc@shop.test>",
+        "Content-Type: text/plain",
+        "",
+        "Reply YES to confirm.",
+        "",
+      ].join("\r\n"),
+    });
+
+    const item = await client.replyToMessage(inbox.token, id, "YES");
+    assert.equal(item.status, "sent");
+    assert.deepEqual(item.to, ["replies@me.test"]);
+
+    const { to, mail } = await smtp.until(1);
+    assert.deepEqual(to, ["replies@me.test"]);
+    assert.equal(mail.from?.value[0].address, inbox.address);
+    assert.equal(mail.subject, "Re: Confirm your subscription");
+    assert.equal(mail.inReplyTo, "<abc@shop.test>");
+    assert.match(mail.text!, /^YES\n\nOn .*, Shop <help@shop\.test> wrote:\n> Reply YES to confirm\.$/m);
+
+    assert.deepEqual(await client.listSent(inbox.token), [item]);
+    await assert.rejects(client.replyToMessage(inbox.token, id, "  "), status(400));
+  });
+
+  it("holds reply recipients to the same rules as forwards", async () => {
+    const inbox = await newInbox("replier");
+    const reply = (headers: string[]) =>
+      client.replyToMessage(inbox.token, provider.deliver(inbox.address, {
+        from: { address: "a@me.test", name: "" },
+        raw: [...headers, `To: ${inbox.address}`, "Subject: Hi", "", "Hi", ""].join("\r\n"),
+      }).id, "Hello", { all: true });
+
+    await assert.rejects(reply(["From: a@me.test", "Reply-To: collector@else.test"]), status(403));
+    const crowd = Array.from({ length: 11 }, (_, index) => `p${index}@me.test`).join(", ");
+    await assert.rejects(reply(["From: a@me.test", `Cc: ${crowd}`]), status(400));
+    assert.deepEqual(await client.listSent(inbox.token), []);
+  });
+
+  it("forwards with attachments to allowed recipients only, within the hourly limit", async () => {
+    const inbox = await newInbox("forwarder");
+    const { id } = provider.deliver(inbox.address, {
+      from: { address: "billing@saas.test", name: "" },
+      subject: "Invoice",
+      text: "Your invoice is attached.",
+      attachments: [{ filename: "invoice.txt", contentType: "text/plain", content: "42 EUR" }],
+    });
+
+    await client.forwardMessage(inbox.token, id, ["me@me.test", "boss@corp.test"], "FYI");
+    const { to, mail } = await smtp.until(2);
+    assert.deepEqual(to, ["me@me.test", "boss@corp.test"]);
+    assert.equal(mail.subject, "Fwd: Invoice");
+    assert.match(mail.text!, /^FYI\n\n---------- Forwarded message ---------\nFrom: billing@saas\.test\n/);
+    assert.match(mail.text!, /Your invoice is attached\./);
+    assert.equal(mail.attachments[0].content.toString(), "42 EUR");
+
+    await assert.rejects(client.forwardMessage(inbox.token, id, ["someone@else.test"]), status(403));
+    await assert.rejects(client.forwardMessage(inbox.token, id, ["not an address"]), status(400));
+
+    await client.forwardMessage(inbox.token, id, ["me@me.test"]);
+    await client.forwardMessage(inbox.token, id, ["me@me.test"]);
+    await assert.rejects(client.forwardMessage(inbox.token, id, ["me@me.test"]), status(429));
+    assert.deepEqual((await client.listSent(inbox.token)).map((item) => item.status), ["failed", "sent", "sent", "sent"]);
+  });
+
+  it("forwards matching new mail by rule", async () => {
+    const inbox = await newInbox("rules");
+    await assert.rejects(client.createForwardingRule(inbox.token, { to: inbox.address }), status(403));
+    await assert.rejects(client.createForwardingRule(inbox.token, { to: "me@me.test", subject: "(" }), status(400));
+    const rule = await client.createForwardingRule(inbox.token, { to: "me@me.test", subject: "^receipt" });
+    assert.deepEqual(await client.listForwardingRules(inbox.token), [rule]);
+
+    const before = smtp.received.length;
+    provider.deliver(inbox.address, { from: { address: "news@letter.test", name: "" }, subject: "Weekly news", text: "..." });
+    const { id } = provider.deliver(inbox.address, { from: { address: "shop@store.test", name: "" }, subject: "Receipt #12", text: "Thanks" });
+
+    const { to, mail } = await smtp.until(before + 1);
+    assert.deepEqual(to, ["me@me.test"]);
+    assert.equal(mail.subject, "Fwd: Receipt #12");
+    const [item] = await client.listSent(inbox.token);
+    assert.equal(item.kind, "auto-forward");
+    assert.equal(item.originalId, id);
+    assert.equal(item.ruleId, rule.id);
+
+    await client.deleteForwardingRule(inbox.token, rule.id);
+    assert.deepEqual(await client.listForwardingRules(inbox.token), []);
+    assert.equal(smtp.received.length, before + 1);
+  });
+
+  it("caps sending per client address and for the whole server", async () => {
+    const transport: MailTransport = { send: async () => ({ messageId: "<sent@relay.test>" }) };
+    const outbound = createOutbound(provider, createInboxEvents(provider), { transport, limitPerHour: 0, ipLimitPerHour: 2, totalLimitPerHour: 3 });
+    // Fresh inboxes don't get a client around its limit
+    const forwardFrom = async (username: string, client: string) => {
+      const inbox = await newInbox(username);
+      const { id } = provider.deliver(inbox.address, { from: { address: "a@b.test", name: "" }, subject: "Hi", text: "Hi" });
+      return outbound.forward(inbox.token, id, { to: "me@me.test" }, client);
+    };
+
+    await forwardFrom("cap1", "198.51.100.1");
+    await forwardFrom("cap2", "198.51.100.1");
+    await assert.rejects(forwardFrom("cap3", "198.51.100.1"), { status: 429, message: /Your address/ });
+    await forwardFrom("cap4", "198.51.100.2");
+    await assert.rejects(forwardFrom("cap5", "198.51.100.3"), { status: 429, message: /This server/ });
+  });
+
+  it("answers 501 without a relay", async () => {
+    const plain = await startApi(provider, { mailTransport: null });
+    try {
+      const other = plain.client;
+      const inbox = await other.createInbox({ username: "quiet", domain: "temp.test" });
+      const { id } = provider.deliver(inbox.address, { from: { address: "a@b.test", name: "" }, subject: "Hi", text: "Hi" });
+      await assert.rejects(other.replyToMessage(inbox.token, id, "Hello"), status(501));
+      await assert.rejects(other.listSent(inbox.token), status(501));
+    } finally {
+      await plain.close();
+    }
+  });
+});
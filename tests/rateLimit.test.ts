@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { createMemoryProvider } from "../server/providers/index.ts";
+import { createRateLimiter } from "../server/rateLimit.ts";
+import { startApi, TestApi } from "./helpers.ts";
+
+describe("rate limiter", () => {
+  it("allows `limit` requests per window and then reports when to retry", () => {
+    let now = 0;
+    const limiter = createRateLimiter(2, 60000, () => now);
+
+    assert.equal(limiter.take("a").allowed, true);
+    assert.equal(limiter.take("a").allowed, true);
+    now = 15000;
+    assert.deepEqual(limiter.take("a"), { allowed: false, retryAfter: 45 });
+    assert.equal(limiter.take("b").allowed, true);
+
+    now = 60000;
+    assert.equal(limiter.take("a").allowed, true);
+  });
+});
+
+describe("rate limited routes", () => {
+  let api: TestApi;
+  let baseUrl: string;
+
+  before(async () => {
+    process.env.RATE_LIMIT_PER_IP = "5";
+    process.env.RATE_LIMIT_PER_TOKEN = "3";
+    api = await startApi(createMemoryProvider());
+    baseUrl = api.url;
+  });
+
+  after(async () => {
+    delete process.env.RATE_LIMIT_PER_IP;
+    delete process.env.RATE_LIMIT_PER_TOKEN;
+    await api.close();
+  });
+
+  const listMessages = (token: string) => fetch(`${baseUrl}/api/mail/messages`, { headers: { Authorization: `Bearer ${token}` } });
+
+  it("limits each token, then each address, with 429 and Retry-After", async () => {
+    for (let i = 0; i < 3; i++) assert.equal((await listMessages("one")).status, 401);
+    const limited = await listMessages("one");
+    assert.equal(limited.status, 429);
+    assert.equal(limited.headers.get("retry-after"), "60");
+    assert.match((await limited.json()).error, /^Too many requests for this inbox\. Try again in 60s\.$/);
+
+    assert.equal((await listMessages("two")).status, 401);
+    const blocked = await listMessages("two");
+    assert.equal(blocked.status, 429);
+    assert.match((await blocked.json()).error, /from your address/);
+  });
+
+  it("leaves /health alone", async () => {
+    assert.equal((await fetch(`${baseUrl}/api/health`)).status, 200);
+  });
+});
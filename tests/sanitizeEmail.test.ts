@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { JSDOM } from "jsdom";
+import { sanitizeEmailHtml } from "../src/lib/sanitizeEmail.ts";
+
+// The sanitizer runs in the browser; jsdom stands in for its DOM here
+const bodyOf = (document: string) => new JSDOM(document).window.document.body;
+
+describe("email sanitizer", () => {
+  before(() => {
+    const { window } = new JSDOM("");
+    Object.assign(globalThis, { window, Element: window.Element });
+  });
+
+  after(() => {
+    delete (globalThis as any).window;
+    delete (globalThis as any).Element;
+  });
+
+  it("removes scripts, forms and event handlers and reports them", () => {
+    const { document, stripped } = sanitizeEmailHtml(
+      '<p onclick="steal()">Hi</p><script>alert(1)</script><script>alert(2)</script>'
+        + '<form action="https://evil.test"><input name="password"></form><a href="javascript:alert(3)">x</a>',
+    );
+    const body = bodyOf(document);
+    assert.equal(body.querySelector("p")?.textContent, "Hi");
+    assert.equal(body.querySelectorAll("script, form, input, [onclick]").length, 0);
+    assert.equal(body.querySelector("a")?.getAttribute("href"), null);
+    assert.doesNotMatch(document, /alert|steal/);
+    assert.deepEqual(stripped, [
+      { kind: "handler", count: 1 },
+      { kind: "element", tag: "script", count: 2 },
+      { kind: "element", tag: "form", count: 1 },
+      { kind: "element", tag: "input", count: 1 },
+    ]);
+  });
+
+  it("blocks remote images, tracking pixels and CSS until allowed", () => {
+    const html = '<style>@import url(https://cdn.test/a.css); body { background: url("https://cdn.test/bg.png") }</style>'
+      + '<img src="https://cdn.test/logo.png" alt="Logo"><img src="https://track.test/p.gif" width="1" height="1">'
+      + '<div style="background-image: url(//cdn.test/x.png)">Styled</div><img src="data:image/png;base64,AAAA">';
+
+    const blocked = sanitizeEmailHtml(html);
+    const body = bodyOf(blocked.document);
+    assert.equal(blocked.blockedRemote, 4);
+    assert.deepEqual(blocked.stripped, [{ kind: "pixel", count: 1 }]);
+    assert.equal(body.querySelector('img[alt="Logo"]')?.getAttribute("src"), null);
+    assert.equal(body.querySelector('img[alt="Logo"]')?.getAttribute("data-blocked-src"), "https://cdn.test/logo.png");
+    assert.equal(body.querySelectorAll("img")[2].getAttribute("src"), "data:image/png;base64,AAAA");
+    assert.doesNotMatch(blocked.document, /url\(\s*["']?(https?:)?\/\//);
+    assert.match(blocked.document, /img-src data: blob:;/);
+
+    const allowed = sanitizeEmailHtml(html, true);
+    assert.equal(allowed.blockedRemote, 0);
+    assert.equal(bodyOf(allowed.document).querySelector('img[alt="Logo"]')?.getAttribute("src"), "https://cdn.test/logo.png");
+    assert.match(allowed.document, /img-src data: blob: https: http:;/);
+  });
+
+  it("opens links in a new tab without an opener", () => {
+    const body = bodyOf(sanitizeEmailHtml('<a href="https://app.test/verify">Verify</a>').document);
+    const link = body.querySelector("a")!;
+    assert.equal(link.getAttribute("target"), "_blank");
+    assert.equal(link.getAttribute("rel"), "noopener noreferrer");
+  });
+});
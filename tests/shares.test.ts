@@ -0,0 +1,102 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { redactUrl } from "../server/logger.ts";
+import { createMemoryProvider, MemoryProvider } from "../server/providers/index.ts";
+import { MailApiError, MailClient } from "../src/lib/mailClient.ts";
+import { startApi, TestApi } from "./helpers.ts";
+
+describe("share links", () => {
+  let provider: MemoryProvider;
+  let api: TestApi;
+  let url: string;
+  let client: MailClient;
+
+  before(async () => {
+    provider = createMemoryProvider(["share.test"]);
+    api = await startApi(provider);
+    url = api.mailUrl;
+    client = api.client;
+  });
+
+  after(() => api.close());
+
+  const newInbox = (username: string) => client.createInbox({ username, domain: "share.test" });
+  const status = (e: MailApiError, expected: number) => e.status === expected;
+
+  it("lets viewers read the inbox without its token", async () => {
+    const inbox = await newInbox("team");
+    const { id } = provider.deliver(inbox.address, {
+      from: { address: "ci@app.test", name: "CI" },
+      subject: "Your code is 482913",
+      attachments: [{ filename: "report.txt", contentType: "text/plain", content: "all green" }],
+    });
+
+    const share = await client.createShare(inbox.token, { scope: "inbox", expiresIn: 3600 });
+    assert.match(share.token, /^[\w-]{32}$/);
+    assert.ok(Math.abs(Date.parse(share.expiresAt) - Date.now() - 3_600_000) < 2000);
+
+    const shared = await client.getShared(share.token);
+    assert.deepEqual(shared, { scope: "inbox", address: inbox.address, messageId: null, expiresAt: share.expiresAt });
+
+    const list = await client.listSharedMessages(share.token);
+    assert.equal(list.total, 1);
+    assert.deepEqual(list.items[0].extracted?.codes, ["482913"]);
+    const message = await client.getSharedMessage(share.token, id);
+    assert.equal(message.subject, "Your code is 482913");
+
+    const res = await fetch(`${url}/shared/${share.token}/messages/${id}/attachments/${message.attachments[0].id}`);
+    assert.equal(await res.text(), "all green");
+    assert.equal(res.headers.get("content-security-policy"), "sandbox");
+    assert.ok(!JSON.stringify([shared, list, message]).includes(inbox.token));
+
+    // Nothing under the link can change the inbox
+    for (const method of ["DELETE", "PATCH"]) {
+      const attempt = await fetch(`${url}/shared/${share.token}/messages/${id}`, { method });
+      assert.equal(attempt.status, 404, method);
+    }
+    const owned = await client.listMessages(inbox.token);
+    assert.equal(owned.total, 1);
+    // Not even the read state
+    assert.equal(owned.items[0].seen, false);
+  });
+
+  it("limits message links to their message", async () => {
+    const inbox = await newInbox("single");
+    const shown = provider.deliver(inbox.address, { from: { address: "a@app.test", name: "" }, subject: "Shown" }).id;
+    const hidden = provider.deliver(inbox.address, { from: { address: "a@app.test", name: "" }, subject: "Hidden" }).id;
+
+    const share = await client.createShare(inbox.token, { scope: "message", messageId: shown });
+    assert.equal((await client.getSharedMessage(share.token, shown)).subject, "Shown");
+    assert.ok((await client.listMessages(inbox.token)).items.every((message) => !message.seen));
+    await assert.rejects(client.getSharedMessage(share.token, hidden), (e: MailApiError) => status(e, 404));
+    await assert.rejects(client.listSharedMessages(share.token), (e: MailApiError) => status(e, 403));
+    await assert.rejects(client.createShare(inbox.token, { scope: "message", messageId: "missing" }), (e: MailApiError) => status(e, 404));
+  });
+
+  it("stops working once revoked or the inbox is deleted", async () => {
+    const inbox = await newInbox("revoked");
+    const other = await newInbox("stranger");
+    const first = await client.createShare(inbox.token, { scope: "inbox" });
+    const second = await client.createShare(inbox.token, { scope: "inbox" });
+    assert.deepEqual((await client.listShares(inbox.token)).map((s) => s.id).sort(), [first.id, second.id].sort());
+    assert.deepEqual(await client.listShares(other.token), []);
+
+    await assert.rejects(client.deleteShare(other.token, first.id), (e: MailApiError) => status(e, 404));
+    await client.deleteShare(inbox.token, first.id);
+    await assert.rejects(client.getShared(first.token), (e: MailApiError) => status(e, 404));
+
+    await client.deleteAccount(inbox.token, inbox.id);
+    await assert.rejects(client.listSharedMessages(second.token), (e: MailApiError) => status(e, 404));
+  });
+
+  it("validates the scope and expiry", async () => {
+    const inbox = await newInbox("strict");
+    for (const options of [{ scope: "everything" }, { scope: "inbox", expiresIn: 10 }, { scope: "inbox", expiresIn: 31 * 24 * 3600 }, { scope: "message" }]) {
+      await assert.rejects(client.createShare(inbox.token, options as any), (e: MailApiError) => status(e, 400), JSON.stringify(options));
+    }
+  });
+
+  it("keeps link tokens out of the logs", () => {
+    assert.equal(redactUrl("/api/mail/shared/abc_DEF-123/messages?page=2"), "/api/mail/shared/[redacted]/messages?page=2");
+  });
+});
@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { AddressInfo } from "net";
+import { createTransport } from "nodemailer";
+import { SMTPServer } from "smtp-server";
+import { createSqliteProvider, InboxEvent, SqliteProvider } from "../server/providers/index.ts";
+import { startSmtpServer } from "../server/smtp.ts";
+
+const streamText = async (stream: AsyncIterable<Buffer>) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return Buffer.concat(chunks).toString();
+};
+
+describe("sqlite provider with the SMTP receiver", () => {
+  let provider: SqliteProvider;
+  let smtp: SMTPServer;
+  let port: number;
+
+  before(async () => {
+    provider = createSqliteProvider(":memory:", ["local.test"]);
+    smtp = startSmtpServer(provider, { port: 0, host: "127.0.0.1" });
+    const listener = (smtp as any).server;
+    if (!listener.listening) await new Promise((resolve) => listener.once("listening", resolve));
+    port = (listener.address() as AddressInfo).port;
+  });
+
+  after(async () => {
+    await new Promise<void>((resolve) => smtp.close(resolve));
+  });
+
+  const send = (message: object) =>
+    createTransport({ host: "127.0.0.1", port, secure: false, ignoreTLS: true }).sendMail({ from: "Sender <sender@remote.test>", ...message });
+
+  it("stores multipart mail delivered over SMTP, attachments included", async () => {
+    await provider.createAccount("Inbox@Local.test", "hunter22");
+    const { token } = await provider.getToken("inbox@local.test", "hunter22");
+    const events: InboxEvent[] = [];
+    const stop = await provider.subscribe!(token, (event) => events.push(event));
+
+    await send({
+      to: "inbox@local.test",
+      subject: "Report attached",
+      text: "See the attached report.",
+      html: "<p>See the <b>attached</b> report.</p>",
+      attachments: [{ filename: "report.csv", content: "id,total\n1,42\n", contentType: "text/csv" }],
+    });
+    stop();
+
+    const { items, total } = await provider.listMessages(token);
+    assert.equal(total, 1);
+    const [summary] = items;
+    assert.deepEqual(summary.from, { address: "sender@remote.test", name: "Sender" });
+    assert.equal(summary.subject, "Report attached");
+    assert.equal(summary.intro, "See the attached report.");
+    assert.equal(summary.hasAttachments, true);
+    assert.equal(summary.seen, false);
+    assert.deepEqual(events, [{ type: "new-message", message: summary }]);
+
+    assert.equal((await provider.peekMessage(token, summary.id)).seen, false);
+    const message = await provider.getMessage(token, summary.id);
+    assert.equal(message.seen, true);
+    assert.match(message.html[0], /<b>attached<\/b>/);
+    const [attachment] = message.attachments;
+    assert.equal(attachment.filename, "report.csv");
+    assert.equal(attachment.contentType, "text/csv");
+    assert.equal(await streamText((await provider.getAttachment(token, summary.id, attachment.id)).stream), "id,total\n1,42\n");
+    assert.match(await provider.getSource(token, summary.id), /^Subject: Report attached\r?$/m);
+
+    assert.equal((await provider.listMessages(token, 1, { q: "report", hasAttachments: true })).total, 1);
+    assert.equal((await provider.listMessages(token, 1, { unread: true })).total, 0);
+  });
+
+  it("rejects mail for unknown mailboxes and other domains", async () => {
+    await assert.rejects(send({ to: "nobody@local.test", subject: "Hi", text: "Hi" }), { responseCode: 550 });
+    await assert.rejects(send({ to: "someone@elsewhere.test", subject: "Hi", text: "Hi" }), { responseCode: 554 });
+  });
+
+  it("deletes an account's mail along with it", async () => {
+    const account = await provider.createAccount("leaving@local.test", "hunter22");
+    const { token } = await provider.getToken("leaving@local.test", "hunter22");
+    await send({ to: "leaving@local.test", subject: "Bye", text: "Bye" });
+    assert.equal((await provider.listMessages(token)).total, 1);
+
+    await provider.deleteAccount(token, account.id);
+    await assert.rejects(provider.listMessages(token), { status: 401 });
+    assert.equal(await provider.hasMailbox("leaving@local.test"), false);
+  });
+});
@@ -0,0 +1,140 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import express from "express";
+import { createInboxEvents } from "../server/events.ts";
+import { createMemoryProvider, MemoryProvider } from "../server/providers/index.ts";
+import { createWebhooks, signPayload } from "../server/webhooks.ts";
+import { MailApiError, MailClient } from "../src/lib/mailClient.ts";
+import { listen, Listening, startApi, TestApi } from "./helpers.ts";
+
+const until = async (condition: () => boolean, timeoutMs = 2000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting for the condition");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+};
+
+describe("webhooks", () => {
+  let provider: MemoryProvider;
+  let api: TestApi;
+  let receiver: Listening;
+  let receiverUrl: string;
+  let client: MailClient;
+  // Scripted receiver: answers with the next queued status (200 when empty)
+  const received: { headers: Record<string, any>; raw: string; body: any }[] = [];
+  const statuses: number[] = [];
+
+  before(async () => {
+    process.env.WEBHOOK_ALLOW_PRIVATE = "true";
+    process.env.WEBHOOK_RETRY_DELAY_MS = "10";
+    provider = createMemoryProvider(["hooks.test"]);
+    api = await startApi(provider);
+    client = api.client;
+
+    const hooks = express();
+    hooks.post("/hook", express.text({ type: "*/*" }), (req, res) => {
+      received.push({ headers: req.headers, raw: req.body, body: JSON.parse(req.body) });
+      res.status(statuses.shift() || 200).end();
+    });
+    receiver = await listen(hooks);
+    receiverUrl = `${receiver.url}/hook`;
+  });
+
+  after(async () => {
+    delete process.env.WEBHOOK_ALLOW_PRIVATE;
+    delete process.env.WEBHOOK_RETRY_DELAY_MS;
+    await api.close();
+    await receiver.close();
+  });
+
+  const newInbox = (username: string) => client.createInbox({ username, domain: "hooks.test" });
+
+  it("posts new mail with a verifiable signature", async () => {
+    const inbox = await newInbox("signed");
+    const webhook = await client.createWebhook(inbox.token, receiverUrl);
+    assert.match(webhook.secret, /^whsec_[0-9a-f]{48}$/);
+
+    received.length = 0;
+    provider.deliver(inbox.address, {
+      from: { address: "noreply@app.test", name: "App" },
+      subject: "Confirm your email",
+      text: "Open https://app.test/verify?token=abc to confirm",
+    });
+    await until(() => received.length === 1);
+
+    const [{ headers, raw, body }] = received;
+    assert.equal(body.event, "message.received");
+    assert.equal(body.inbox.address, inbox.address);
+    assert.equal(body.message.subject, "Confirm your email");
+    assert.equal(body.message.from.address, "noreply@app.test");
+    assert.match(body.message.text, /^Open https/);
+    assert.deepEqual(body.message.links, ["https://app.test/verify?token=abc"]);
+    assert.equal(headers["x-kasmail-event"], "message.received");
+    assert.equal(headers["x-kasmail-delivery"], body.deliveryId);
+
+    const timestamp = Number(/t=(\d+)/.exec(headers["x-kasmail-signature"])?.[1]);
+    assert.equal(headers["x-kasmail-signature"], signPayload(webhook.secret, raw, timestamp));
+    assert.ok(Math.abs(Date.now() / 1000 - timestamp) < 5);
+
+    const [delivery] = await client.listWebhookDeliveries(inbox.token, webhook.id);
+    assert.equal(delivery.status, "succeeded");
+    assert.equal(delivery.messageId, body.message.id);
+    // Building the payload is not a read by the owner
+    const { items } = await client.listMessages(inbox.token);
+    assert.equal(items[0].seen, false);
+  });
+
+  it("retries failed deliveries with backoff and logs every attempt", async () => {
+    const inbox = await newInbox("flaky");
+    const webhook = await client.createWebhook(inbox.token, receiverUrl, "a-shared-secret-value");
+
+    statuses.push(503, 500);
+    provider.deliver(inbox.address, { from: { address: "ci@app.test", name: "" }, subject: "Retry me" });
+    await until(() => received.filter((r) => r.body.message?.subject === "Retry me").length === 3);
+
+    let log = await client.listWebhookDeliveries(inbox.token, webhook.id);
+    while (log[0].status === "pending") {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      log = await client.listWebhookDeliveries(inbox.token, webhook.id);
+    }
+    assert.equal(log[0].status, "succeeded");
+    assert.deepEqual(log[0].attempts.map((a) => a.statusCode), [503, 500, 200]);
+  });
+
+  it("does not retry deliveries the receiver rejects", async () => {
+    const inbox = await newInbox("rejected");
+    const webhook = await client.createWebhook(inbox.token, receiverUrl);
+
+    statuses.push(410);
+    const delivery = await client.testWebhook(inbox.token, webhook.id);
+    assert.equal(delivery.status, "failed");
+    assert.equal(delivery.attempts.length, 1);
+    assert.equal(delivery.attempts[0].error, "Receiver answered 410");
+    assert.equal((await client.listWebhooks(inbox.token))[0].lastDelivery?.status, "failed");
+  });
+
+  it("keeps webhooks private to their inbox and stops after removal", async () => {
+    const owner = await newInbox("owner");
+    const other = await newInbox("other");
+    const webhook = await client.createWebhook(owner.token, receiverUrl);
+
+    assert.deepEqual(await client.listWebhooks(other.token), []);
+    await assert.rejects(client.deleteWebhook(other.token, webhook.id), (e: MailApiError) => e.status === 404);
+    await assert.rejects(client.createWebhook(owner.token, "ftp://example.com/hook"), (e: MailApiError) => e.status === 400);
+
+    await client.deleteWebhook(owner.token, webhook.id);
+    received.length = 0;
+    provider.deliver(owner.address, { from: { address: "ci@app.test", name: "" }, subject: "Nobody listening" });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    assert.equal(received.length, 0);
+  });
+
+  it("refuses private network targets unless allowed", async () => {
+    const webhooks = createWebhooks(provider, createInboxEvents(provider));
+    const { token } = await newInbox("ssrf");
+    for (const url of ["http://127.0.0.1:8080/", "http://[::1]/", "http://10.1.2.3/", "http://169.254.169.254/latest", "http://[::ffff:192.168.0.1]/"]) {
+      await assert.rejects(webhooks.create(token, { url }), /public address/, url);
+    }
+  });
+});